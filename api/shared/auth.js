@@ -0,0 +1,70 @@
+// Caller identity for the API — /api/shared/auth.js
+// Azure Static Web Apps signs users in and forwards who they are to the functions as the
+// base64-encoded JSON header `x-ms-client-principal`: { identityProvider, userId, userDetails, userRoles }.
+// Route rules in staticwebapp.config.json keep callers without a role out, and the functions check the
+// roles again per method. Both rely on that header being set by Static Web Apps: the functions are
+// anonymous and trust it as sent, so they must only be deployed as the app's managed API (reachable
+// through the SWA front end alone), never exposed on a host of their own.
+//
+// Roles (assign them to users with invitations in the Static Web App's Role management):
+//   observer   times studies, pushes them to the sync server, requests AI summaries
+//   analyst    reads every synced study and requests AI summaries
+//   admin      everything, including deleting studies from the server
+//
+// Local development: the SWA CLI (`swa start`) emulates sign-in and sends the header itself. When the
+// functions run on their own (`func start`), set AUTH_MOCK_PRINCIPAL in local.settings.json to a
+// principal as JSON, e.g. {"userDetails":"dev@example.com","userRoles":["observer"]}. It is only read
+// while AZURE_FUNCTIONS_ENVIRONMENT is "Development", which Core Tools sets and Azure never does.
+
+const ROLES = ["observer", "analyst", "admin"];
+
+function mockPrincipal() {
+  if (process.env.AZURE_FUNCTIONS_ENVIRONMENT !== "Development" || !process.env.AUTH_MOCK_PRINCIPAL) return null;
+  try {
+    return JSON.parse(process.env.AUTH_MOCK_PRINCIPAL);
+  } catch {
+    return null;
+  }
+}
+
+/** The signed-in caller, or null for anonymous requests and unreadable headers. */
+function readPrincipal(req) {
+  const header = req && req.headers && req.headers["x-ms-client-principal"];
+  let principal = null;
+  if (header) {
+    try {
+      principal = JSON.parse(Buffer.from(String(header), "base64").toString("utf8"));
+    } catch {
+      principal = null;
+    }
+  } else {
+    principal = mockPrincipal();
+  }
+  if (!principal || (!principal.userDetails && !principal.userId)) return null;
+  return {
+    identityProvider: principal.identityProvider || "",
+    userId: principal.userId || "",
+    userDetails: principal.userDetails || "",
+    userRoles: Array.isArray(principal.userRoles) ? principal.userRoles.map(String) : [],
+  };
+}
+
+/**
+ * The caller when they hold one of `roles`; otherwise sets a 401 (not signed in) or 403 (missing role)
+ * response on `context` and returns null.
+ */
+function requireRole(context, req, roles, headers = {}) {
+  const principal = readPrincipal(req);
+  if (principal && roles.some((r) => principal.userRoles.includes(r))) return principal;
+  const status = principal ? 403 : 401;
+  context.res = {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8", ...headers },
+    body: JSON.stringify({
+      error: principal ? `This needs the ${roles.join(" or ")} role.` : "Sign in to use this.",
+    }),
+  };
+  return null;
+}
+
+module.exports = { ROLES, readPrincipal, requireRole };
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { readPrincipal, requireRole } from "./auth";
+
+const header = (principal) => Buffer.from(JSON.stringify(principal)).toString("base64");
+const request = (principal) => ({ headers: principal ? { "x-ms-client-principal": header(principal) } : {} });
+const ann = { identityProvider: "aad", userId: "u1", userDetails: "ann@example.com", userRoles: ["anonymous", "authenticated", "observer"] };
+
+afterEach(() => vi.unstubAllEnvs());
+
+describe("readPrincipal", () => {
+  it("decodes the base64 x-ms-client-principal header", () => {
+    expect(readPrincipal(request(ann))).toEqual(ann);
+  });
+
+  it("treats missing, unreadable and empty principals as anonymous", () => {
+    expect(readPrincipal(request(null))).toBeNull();
+    expect(readPrincipal({ headers: { "x-ms-client-principal": "not base64 json" } })).toBeNull();
+    expect(readPrincipal(request({ userRoles: ["observer"] }))).toBeNull();
+  });
+
+  it("uses AUTH_MOCK_PRINCIPAL only while running under Core Tools", () => {
+    vi.stubEnv("AUTH_MOCK_PRINCIPAL", JSON.stringify({ userDetails: "dev@example.com", userRoles: ["admin"] }));
+    expect(readPrincipal(request(null))).toBeNull();
+    vi.stubEnv("AZURE_FUNCTIONS_ENVIRONMENT", "Production");
+    expect(readPrincipal(request(null))).toBeNull();
+    vi.stubEnv("AZURE_FUNCTIONS_ENVIRONMENT", "Development");
+    expect(readPrincipal(request(null))).toMatchObject({ userDetails: "dev@example.com", userRoles: ["admin"] });
+    expect(readPrincipal(request(ann))).toEqual(ann); // a real header still wins
+  });
+});
+
+describe("requireRole", () => {
+  const check = (principal, roles) => {
+    const context = { res: null };
+    return { principal: requireRole(context, request(principal), roles, { "X-Extra": "1" }), res: context.res };
+  };
+
+  it("answers 401 when nobody is signed in", () => {
+    const { principal, res } = check(null, ["observer"]);
+    expect(principal).toBeNull();
+    expect(res.status).toBe(401);
+    expect(res.headers["X-Extra"]).toBe("1");
+  });
+
+  it("answers 403 when the caller lacks every listed role", () => {
+    const { principal, res } = check(ann, ["analyst", "admin"]);
+    expect(principal).toBeNull();
+    expect(res.status).toBe(403);
+    expect(JSON.parse(res.body).error).toBe("This needs the analyst or admin role.");
+  });
+
+  it("returns the caller and leaves the response alone when a role matches", () => {
+    const { principal, res } = check(ann, ["observer", "admin"]);
+    expect(principal).toEqual(ann);
+    expect(res).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+// Storage backends for /api/studies — /api/shared/studyStore.js
+// Each study is one record: { id, rev, createdAt, updatedAt, archived, info, kpis, state }.
+// A backend only stores and fetches records; revision checks happen in getStore()'s put/remove,
+// serialized per study id within this process.
+//
+// Pick the backend with STUDY_STORE:
+//   "fs" (default)  JSON files under STUDY_STORE_DIR (default api/.data/studies), so it runs locally
+//   "memory"        in-process only, lost on restart (tests, demos)
+//   anything else   a module path (relative to api/) exporting createBackend(env), returning
+//                   { list(), get(id), put(record), remove(id) }, all async; list() omits `state`
+
+const fs = require("fs/promises");
+const path = require("path");
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+function metaOf(record) {
+  const meta = { ...record };
+  delete meta.state;
+  return meta;
+}
+
+function fsBackend(env) {
+  const dir = env.STUDY_STORE_DIR || path.join(__dirname, "..", ".data", "studies");
+  const file = (id, kind) => path.join(dir, `${id}.${kind}.json`);
+  const readJSON = async (p) => {
+    try {
+      return JSON.parse(await fs.readFile(p, "utf8"));
+    } catch (err) {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    }
+  };
+  // Write to a temp file and rename, so a crash never leaves half a record.
+  const writeJSON = async (p, value) => {
+    const tmp = `${p}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value));
+    await fs.rename(tmp, p);
+  };
+  return {
+    async list() {
+      let names = [];
+      try {
+        names = await fs.readdir(dir);
+      } catch (err) {
+        if (err.code === "ENOENT") return [];
+        throw err;
+      }
+      const metas = await Promise.all(names.filter((n) => n.endsWith(".meta.json")).map((n) => readJSON(path.join(dir, n))));
+      return metas.filter(Boolean);
+    },
+    get: (id) => readJSON(file(id, "study")),
+    async put(record) {
+      await fs.mkdir(dir, { recursive: true });
+      await writeJSON(file(record.id, "study"), record);
+      await writeJSON(file(record.id, "meta"), metaOf(record));
+    },
+    async remove(id) {
+      await fs.rm(file(id, "meta"), { force: true });
+      await fs.rm(file(id, "study"), { force: true });
+    },
+  };
+}
+
+function memoryBackend() {
+  const records = new Map();
+  return {
+    list: async () => [...records.values()].map(metaOf),
+    get: async (id) => records.get(id) ?? null,
+    put: async (record) => void records.set(record.id, record),
+    remove: async (id) => void records.delete(id),
+  };
+}
+
+function createBackend(env) {
+  const kind = env.STUDY_STORE || "fs";
+  if (kind === "fs") return fsBackend(env);
+  if (kind === "memory") return memoryBackend();
+  return require(path.resolve(__dirname, "..", kind)).createBackend(env);
+}
+
+class ConflictError extends Error {
+  constructor(current) {
+    super(`Study was changed elsewhere (now at revision ${current ? current.rev : 0})`);
+    this.current = current; // meta of the stored record, or null when it no longer exists
+  }
+}
+
+let store = null;
+
+/** The configured store; put/remove reject with ConflictError when `baseRev` isn't the stored revision. */
+function getStore(env = process.env) {
+  if (store) return store;
+  const backend = createBackend(env);
+  const queues = new Map(); // id → tail of the pending operations on it
+  const serialized = (id, fn) => {
+    const run = (queues.get(id) ?? Promise.resolve()).then(fn, fn);
+    const tail = run.catch(() => undefined);
+    queues.set(id, tail);
+    tail.then(() => queues.get(id) === tail && queues.delete(id));
+    return run;
+  };
+  store = {
+    list: () => backend.list(),
+    get: (id) => backend.get(id),
+    put: (id, baseRev, fields) =>
+      serialized(id, async () => {
+        const current = await backend.get(id);
+        if ((current ? current.rev : 0) !== baseRev) throw new ConflictError(current && metaOf(current));
+        const now = Date.now();
+        const record = {
+          id,
+          rev: baseRev + 1,
+          createdAt: current ? current.createdAt : fields.createdAt || now,
+          updatedAt: now,
+          archived: !!fields.archived,
+          info: fields.state.info || {},
+          kpis: fields.kpis || {},
+          state: fields.state,
+        };
+        await backend.put(record);
+        return metaOf(record);
+      }),
+    remove: (id, baseRev) =>
+      serialized(id, async () => {
+        const current = await backend.get(id);
+        if (!current) return;
+        if (baseRev != null && current.rev !== baseRev) throw new ConflictError(metaOf(current));
+        await backend.remove(id);
+      }),
+  };
+  return store;
+}
+
+module.exports = { getStore, ConflictError, ID_PATTERN };
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { ConflictError, getStore } from "./studyStore";
+
+const store = getStore({ STUDY_STORE: "memory" });
+const fields = (task, extra = {}) => ({ state: { info: { task } }, kpis: { touchMs: 1 }, createdAt: 1000, ...extra });
+
+describe("study store revisions", () => {
+  it("creates at revision 1 and moves one revision per accepted write", async () => {
+    const first = await store.put("s1", 0, fields("Wheel change"));
+    expect(first).toMatchObject({ id: "s1", rev: 1, createdAt: 1000, info: { task: "Wheel change" } });
+    expect(first.state).toBeUndefined();
+    const second = await store.put("s1", 1, fields("Wheel change v2", { createdAt: 5 }));
+    expect(second).toMatchObject({ rev: 2, createdAt: 1000 }); // creation time is the server's first copy
+    expect((await store.get("s1")).state).toEqual({ info: { task: "Wheel change v2" } });
+  });
+
+  it("refuses a write based on an older revision and reports the current one", async () => {
+    await store.put("s2", 0, fields("A"));
+    await store.put("s2", 1, fields("B"));
+    const err = await store.put("s2", 1, fields("stale")).catch((e) => e);
+    expect(err).toBeInstanceOf(ConflictError);
+    expect(err.current).toMatchObject({ id: "s2", rev: 2 });
+    expect(err.current.state).toBeUndefined();
+    expect((await store.get("s2")).state.info.task).toBe("B");
+  });
+
+  it("refuses to create over an existing study (baseRev 0)", async () => {
+    await store.put("s3", 0, fields("Original"));
+    await expect(store.put("s3", 0, fields("Other device"))).rejects.toBeInstanceOf(ConflictError);
+    expect((await store.get("s3")).state.info.task).toBe("Original");
+  });
+
+  it("refuses a write based on a revision the server never had", async () => {
+    await expect(store.put("s4", 3, fields("Ghost"))).rejects.toMatchObject({ current: null });
+    expect(await store.get("s4")).toBeNull();
+  });
+
+  it("lets only one of two writes on the same revision through", async () => {
+    await store.put("s5", 0, fields("Base"));
+    const results = await Promise.allSettled([store.put("s5", 1, fields("Tab A")), store.put("s5", 1, fields("Tab B"))]);
+    expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected"]);
+    expect((await store.get("s5")).state.info.task).toBe("Tab A");
+  });
+
+  it("deletes only the revision named, and deleting a missing study is a no-op", async () => {
+    await store.put("s6", 0, fields("Doomed"));
+    await store.put("s6", 1, fields("Edited"));
+    await expect(store.remove("s6", 1)).rejects.toMatchObject({ current: { rev: 2 } });
+    expect(await store.get("s6")).not.toBeNull();
+    await store.remove("s6", 2);
+    expect(await store.get("s6")).toBeNull();
+    await expect(store.remove("s6", 2)).resolves.toBeUndefined();
+    await expect(store.remove("never-there", null)).resolves.toBeUndefined();
+  });
+
+  it("lists headers without the study body", async () => {
+    const list = await store.list();
+    expect(list.length).toBeGreaterThan(0);
+    expect(list.every((m) => m.state === undefined)).toBe(true);
+  });
+});
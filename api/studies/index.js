@@ -0,0 +1,83 @@
+// Azure Functions (Node.js) — /api/studies/index.js
+// Optional team sync for the study library. Revisions settle conflicts: every write names the
+// revision it was based on and is refused (409) when the stored study has moved on since.
+//
+//   GET    /api/studies         → [{ id, rev, createdAt, updatedAt, archived, info, kpis }]
+//   GET    /api/studies/{id}    → the same fields plus `state` (the full study)
+//   PUT    /api/studies/{id}    { baseRev, state, kpis, archived, createdAt } → meta with the new rev
+//   DELETE /api/studies/{id}?rev=N
+//
+// Storage is pluggable (see ../shared/studyStore.js); it defaults to JSON files on local disk.
+// Every study role may read; pushing needs observer or admin, deleting admin (see ../shared/auth.js).
+
+const { ROLES, requireRole } = require("../shared/auth");
+const { getStore, ConflictError, ID_PATTERN } = require("../shared/studyStore");
+
+const METHOD_ROLES = { GET: ROLES, PUT: ["observer", "admin"], DELETE: ["admin"] };
+
+function corsHeaders() {
+  return {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "GET, PUT, DELETE, OPTIONS",
+  };
+}
+
+function reply(context, status, body) {
+  context.res = {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8", ...corsHeaders() },
+    body: body === undefined ? "" : JSON.stringify(body),
+  };
+}
+
+module.exports = async function (context, req) {
+  if (req.method === "OPTIONS") {
+    context.res = { status: 204, headers: corsHeaders() };
+    return;
+  }
+  if (!requireRole(context, req, METHOD_ROLES[req.method] || ["admin"], corsHeaders())) return;
+
+  const id = context.bindingData && context.bindingData.id;
+  if (id != null && !ID_PATTERN.test(String(id))) return reply(context, 400, { error: "Invalid study id." });
+
+  let body = {};
+  if (req.method === "PUT") {
+    try {
+      body = typeof req.body === "string" ? JSON.parse(req.body || "{}") : (req.body || {});
+    } catch {
+      return reply(context, 400, { error: "Body is not valid JSON." });
+    }
+  }
+
+  const store = getStore();
+  try {
+    if (req.method === "GET" && id == null) {
+      const list = await store.list();
+      return reply(context, 200, list.sort((a, b) => b.updatedAt - a.updatedAt));
+    }
+    if (id == null) return reply(context, 405, { error: "Use /api/studies/{id}." });
+
+    if (req.method === "GET") {
+      const record = await store.get(id);
+      return record ? reply(context, 200, record) : reply(context, 404, { error: "No such study." });
+    }
+    if (req.method === "PUT") {
+      const baseRev = Number(body.baseRev ?? 0);
+      if (!Number.isInteger(baseRev) || baseRev < 0) return reply(context, 400, { error: "baseRev must be a revision number." });
+      if (!body.state || typeof body.state !== "object") return reply(context, 400, { error: "Missing study state." });
+      const meta = await store.put(id, baseRev, body);
+      return reply(context, 200, meta);
+    }
+    if (req.method === "DELETE") {
+      const rev = req.query && req.query.rev != null ? Number(req.query.rev) : null;
+      await store.remove(id, Number.isInteger(rev) ? rev : null);
+      return reply(context, 204);
+    }
+    return reply(context, 405, { error: "Method not allowed." });
+  } catch (err) {
+    if (err instanceof ConflictError) return reply(context, 409, { error: err.message, current: err.current });
+    context.log.error("Study store failed", err);
+    return reply(context, 500, { error: "Could not read or write the study store." });
+  }
+};
@@ -0,0 +1,68 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+let handler;
+beforeAll(async () => {
+  process.env.STUDY_STORE = "memory"; // read when the handler first opens the store
+  handler = (await import("./index")).default;
+});
+
+const principal = (...roles) =>
+  Buffer.from(JSON.stringify({ identityProvider: "aad", userId: "u1", userDetails: "ann@example.com", userRoles: ["authenticated", ...roles] })).toString("base64");
+
+async function call(method, id, { body, query, roles = ["admin"] } = {}) {
+  const context = { bindingData: { id }, log: { error: () => {} }, res: null };
+  const headers = roles ? { "x-ms-client-principal": principal(...roles) } : {};
+  await handler(context, { method, headers, body, query });
+  const res = context.res;
+  return { status: res.status, body: res.body ? JSON.parse(res.body) : undefined };
+}
+
+const study = (task) => ({ info: { task } });
+
+describe("/api/studies", () => {
+  it("creates, reads and lists a study", async () => {
+    const put = await call("PUT", "a1", { body: { baseRev: 0, state: study("Wheel change"), kpis: {} } });
+    expect(put).toMatchObject({ status: 200, body: { id: "a1", rev: 1 } });
+    expect(await call("GET", "a1")).toMatchObject({ status: 200, body: { rev: 1, state: study("Wheel change") } });
+    const list = await call("GET", undefined, { roles: ["analyst"] });
+    expect(list.body.map((m) => m.id)).toContain("a1");
+  });
+
+  it("answers 409 with the current header when the base revision is stale", async () => {
+    await call("PUT", "a2", { body: { baseRev: 0, state: study("First") } });
+    await call("PUT", "a2", { body: { baseRev: 1, state: study("Second") } });
+    const stale = await call("PUT", "a2", { body: { baseRev: 1, state: study("Stale") } });
+    expect(stale).toMatchObject({ status: 409, body: { current: { id: "a2", rev: 2 } } });
+    expect((await call("GET", "a2")).body.state).toEqual(study("Second"));
+  });
+
+  it("treats a PUT without baseRev as a new study and refuses it over an existing one", async () => {
+    await call("PUT", "a3", { body: { baseRev: 0, state: study("Remote") } });
+    const blind = await call("PUT", "a3", { body: JSON.stringify({ state: study("Blind overwrite") }) });
+    expect(blind).toMatchObject({ status: 409, body: { current: { rev: 1 } } });
+    expect((await call("GET", "a3")).body.state).toEqual(study("Remote"));
+  });
+
+  it("deletes only the named revision; a missing study deletes quietly", async () => {
+    await call("PUT", "a4", { body: { baseRev: 0, state: study("x") } });
+    await call("PUT", "a4", { body: { baseRev: 1, state: study("y") } });
+    expect((await call("DELETE", "a4", { query: { rev: "1" } })).status).toBe(409);
+    expect((await call("DELETE", "a4", { query: { rev: "2" } })).status).toBe(204);
+    expect((await call("GET", "a4")).status).toBe(404);
+    expect((await call("DELETE", "a4", { query: { rev: "2" } })).status).toBe(204);
+  });
+
+  it("rejects bad ids, bad revisions and missing state", async () => {
+    expect((await call("GET", "../etc")).status).toBe(400);
+    expect((await call("PUT", "a5", { body: { baseRev: -1, state: study("x") } })).status).toBe(400);
+    expect((await call("PUT", "a5", { body: { baseRev: 0 } })).status).toBe(400);
+    expect((await call("PUT", "a5", { body: "{not json" })).status).toBe(400);
+  });
+
+  it("checks the role for each method", async () => {
+    expect((await call("GET", "a1", { roles: null })).status).toBe(401);
+    expect((await call("PUT", "a6", { roles: ["analyst"], body: { baseRev: 0, state: study("x") } })).status).toBe(403);
+    expect((await call("DELETE", "a1", { roles: ["observer"] })).status).toBe(403);
+    expect((await call("GET", "a1")).status).toBe(200);
+  });
+});
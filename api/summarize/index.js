@@ -1,6 +1,9 @@
 // Azure Functions (Node.js) — /api/summarize/index.js
 // Uses metrics provided by the frontend to avoid re-deriving times.
 // Ensures hours/minutes only (no seconds) in the narrative.
+// Callers must be signed in with a study role (see ../shared/auth.js); each request spends OpenAI quota.
+
+const { ROLES, requireRole } = require("../shared/auth");
 
 const DEFAULT_MODEL = process.env.OPENAI_MODEL || "gpt-4o-mini";
 
@@ -36,6 +39,8 @@ module.exports = async function (context, req) {
     return;
   }
 
+  if (!requireRole(context, req, ROLES, corsHeaders())) return;
+
   const apiKey = resolveApiKey(req);
   if (!apiKey) {
     context.res = {
@@ -3,75 +3,102 @@ import * as XLSX from "xlsx";
 import { printReportHTML, exportReportHTML, exportReportPDF } from "./Report";
 import "./ui.css";
 import heic2any from "heic2any";
-
-/* ---------- Types ---------- */
-type EmpStatus = "idle" | "active" | "paused";
-type ObsScope = "Full" | "Partial";
-type TimeEvent = "start" | "pause" | "stop" | "deleted";
-
-interface Employee {
-  id: number;
-  name: string;
-  status: EmpStatus;
-  startTime: number | null;
-  elapsedTime: number;
-  pausedAccum: number;
-  lastPausedAt: number | null;
-  logs: string[];
-  role?: string;   // Mechanic / Inspector / Lead / Helper / Trainee / Other…
-  skill?: string;  // A&P / Structures / Avionics / QA / NDT / Non-Certified / Cabin / Other…
-}
-
-interface TaskEntry {
-  id: number;
-  at: number;
-  text: string;
-}
-
-interface TimeLogEntry {
-  id: number;
-  at: number;
-  employeeId: number | null;
-  employeeName: string;
-  event: TimeEvent;
-  reasonCode?: string;
-  comment?: string;
-}
-
-interface PhotoItem {
-  id: number;
-  dataUrl: string;   // already resized and auto-rotated
-  name?: string;
-  caption?: string;
-  customName?: string; // user-assigned or generated filename for display/saving
-}
-
-interface AppInfo {
-  date: string;
-  endDate: string;
-  multiDay: boolean;
-  location: string;
-  procedure: string;
-  workOrder: string;
-  task: string;
-  type?: string;       // Routine / Non-Routine / Customer Request / Cannibalization / Other
-  workType?: string;   // Inspection / Remove & Replace / Setup / Rework / Test / Remove / Install / Other
-  assetId?: string;
-  station?: string;
-  supervisor?: string;
-  observer?: string;
-  estimatedTime?: string;
-  observationScope?: ObsScope;
-  summary?: string;
-}
-
-interface AppState {
-  info: AppInfo;
-  employees: Employee[];
-  taskLog: TaskEntry[];
-  timeLog: TimeLogEntry[];
-  photos: PhotoItem[];
-}
+import {
+  SAMPLE_STATES,
+  SCHEMA_VERSION,
+  blankState,
+  studyTitle,
+  todayISO,
+  type AppInfo,
+  type AppState,
+  type Employee,
+  type GapDecision,
+  type PhotoItem,
+  type SampleObservation,
+  type SampleState,
+  type ShiftBreak,
+  type TaskEntry,
+  type TimeEvent,
+  type TimeLogEntry,
+} from "./Model";
+import { buildStudyBundle, bundleFileName, parseStudyBundle } from "./Bundle";
+import { GAP_COLUMNS, importSheetFile, SCHEDULED_UTC, utcStamp, WHEN_UTC, type ImportIssue, type SheetImportResult } from "./SheetImport";
+import { currentElements, isTimerEvent, NO_TIMES, timeLogIssues } from "./TimeEngine";
+import { computeMetrics, type EmployeeMetrics, type ParetoRow } from "./Metrics";
+import { EMPTY_STATS } from "./Stats";
+import { duePrompt, missedPrompts, nextRound, SAMPLE_STATE_LABELS, samplingTimes, summarizeSamples } from "./Sampling";
+import { isNetworkFailure, isOffline, RETRY_INTERVAL_MS } from "./Offline";
+import { announceSave, lockStudy, onStudySaved, type TabRole } from "./TabSync";
+import { currentPrincipal, hasRole, loadPrincipal, LOGIN_URL, LOGOUT_URL, ROLE_LABELS, rolesOf, type Principal } from "./Auth";
+import {
+  compareStudies,
+  fetchRemote,
+  pullStudy,
+  pushStudy,
+  SYNC_STATUS_LABELS,
+  SyncUnavailableError,
+  type RemoteStudy,
+  type SyncRow,
+  type SyncStatus,
+} from "./Sync";
+import {
+  acceptDrift,
+  adoptDeviceClock,
+  checkClock,
+  GAP_CHOICES,
+  GAP_REASON,
+  now as clockNow,
+  restoreClock,
+  resync,
+  shiftTimes,
+  watchClock,
+  type ClockGap,
+} from "./Clock";
+import {
+  EMPTY_FILTER,
+  FILTER_FIELDS,
+  GROUP_FIELDS,
+  filterOptions,
+  filterStudies,
+  groupBy,
+  rollup,
+  trend,
+  type DashboardFilter,
+  type GroupField,
+  type StudyRow,
+  type TrendPeriod,
+  type TrendPoint,
+} from "./Dashboard";
+import { CONFIDENCE_LEVELS, groupKey, sampleSize, studyGroups, type ConfidenceLevel } from "./SampleSize";
+import { estimateError, ESTIMATE_FORMATS, signedPct, type Variance } from "./Estimate";
+import { formatInZone, isoDateOf, timeZoneOptions, zonedParts, zonedToEpoch } from "./TimeZone";
+import {
+  CLASS_LABELS,
+  DEFAULT_REASONS,
+  loadReasons,
+  REASON_CATEGORIES,
+  reasonsFor,
+  saveReasons,
+  type ReasonClass,
+  type ReasonCode,
+  type ReasonKind,
+} from "./Reasons";
+import {
+  LAST_OBSERVER_KEY,
+  createStudy,
+  deleteStudy,
+  duplicateStudy,
+  lastObserver,
+  listStudies,
+  loadStudy,
+  describeSaveError,
+  saveStudy,
+  setActiveStudyId,
+  setStudyArchived,
+  type InitialStudy,
+  type StudyKPIs,
+  type StudyMeta,
+} from "./Storage";
 
 /* ---------- Options ---------- */
 const TYPE_OPTIONS = [
@@ -97,11 +124,9 @@ const ROLE_OPTIONS = ["Mechanic", "Inspector", "Lead", "Helper", "Trainee", "Oth
 
 const SKILL_OPTIONS = ["A&P", "Structures", "Avionics", "QA", "NDT", "Non-Certified", "Cabin", "Other…"] as const;
 
-/* ---------- Helpers ---------- */
-const STORAGE_KEY = "work-measurement:v1";
-
-const LAST_OBSERVER_KEY = "work-measurement:last-observer";
+const TIME_ZONES = timeZoneOptions();
 
+/* ---------- Helpers ---------- */
 type ThemeMode = "light" | "dark";
 const THEME_KEY = "work-measurement:theme";
 
@@ -112,27 +137,6 @@ function getSystemTheme(): ThemeMode {
   return "dark";
 }
 
-const PAUSE_REASONS = [
-  "Waiting on parts",
-  "Waiting on tooling",
-  "QA / Inspection",
-  "Engineering review",
-  "Break",
-  "Shift change",
-  "Personal",
-  "Other",
-];
-
-const STOP_REASONS = [
-  "Task Complete",
-  "Reassigned",
-  "Error",
-  "Other",
-];
-
-function todayISO() {
-  return new Date().toISOString().slice(0, 10);
-}
 function msToTime(ms: number) {
   const s = Math.floor(Math.max(0, ms) / 1000);
   const h = Math.floor(s / 3600);
@@ -149,6 +153,14 @@ function msToHMS(ms: number) {
   return `${pad2(h)}:${pad2(m)}:${pad2(ss)}`;
 }
 
+// Over/under as "+HH:MM:SS" / "−HH:MM:SS".
+function signedHMS(ms: number) {
+  return `${ms < 0 ? "−" : "+"}${msToHMS(Math.abs(ms))}`;
+}
+/** [signed H:M:S, signed %] export cells for a variance against the estimate; blank when there is none. */
+function varianceCells(v: Variance | null): [string, string] {
+  return v ? [signedHMS(v.ms), (v.pct * 100).toFixed(1)] : ["", ""];
+}
 function msToHM(ms: number) {
   const mins = Math.round(Math.max(0, ms) / 60000); // round to nearest minute
   const h = Math.floor(mins / 60);
@@ -157,9 +169,19 @@ function msToHM(ms: number) {
   if (m === 0) return `${h}h`;
   return `${h}h ${m}m`;
 }
-function fmtStamp(at: number, withDate: boolean) {
-  const d = new Date(at);
-  return withDate ? `${d.toLocaleDateString()} ${d.toLocaleTimeString()}` : d.toLocaleTimeString();
+// Dates and times are shown in the study's time zone, not the device's.
+function fmtStamp(at: number, withDate: boolean, timeZone?: string) {
+  return formatInZone(at, timeZone, withDate);
+}
+// <input type="datetime-local" step="1"> values, as wall-clock time in the study zone
+function toLocalInput(at: number, timeZone: string) {
+  const p = zonedParts(at, timeZone);
+  return `${isoDateOf(p)}T${pad2(p.hour)}:${pad2(p.minute)}:${pad2(p.second)}`;
+}
+function fromLocalInput(v: string, timeZone: string): number | null {
+  const m = v.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/);
+  if (!m) return null;
+  return zonedToEpoch({ year: +m[1], month: +m[2], day: +m[3], hour: +m[4], minute: +m[5], second: +(m[6] ?? 0) }, timeZone);
 }
 
 // --- Image helpers (resize + auto-rotate) ---
@@ -312,109 +334,6 @@ async function ensureJpeg(file: File): Promise<File> {
   }
 }
 
-function safeLoad(): AppState | null {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return null;
-    const p = JSON.parse(raw);
-
-    const info: AppInfo = {
-      date: typeof p?.info?.date === "string" && p.info.date ? p.info.date : todayISO(),
-      endDate: typeof p?.info?.endDate === "string" ? p.info.endDate : "",
-      multiDay: Boolean(p?.info?.multiDay ?? false),
-      location: String(p?.info?.location ?? ""),
-      procedure: String(p?.info?.procedure ?? ""),
-      workOrder: String(p?.info?.workOrder ?? ""),
-      task: String(p?.info?.task ?? ""),
-      type: typeof p?.info?.type === "string" ? p.info.type : "",
-      workType: typeof p?.info?.workType === "string" ? p.info.workType : "Inspection",
-      assetId: typeof p?.info?.assetId === "string" ? p.info.assetId : "",
-      station: typeof p?.info?.station === "string" ? p.info.station : "",
-      supervisor: typeof p?.info?.supervisor === "string" ? p.info.supervisor : "",
-      observer: typeof p?.info?.observer === "string"
-        ? p.info.observer
-        : (localStorage.getItem(LAST_OBSERVER_KEY) || ""),
-      estimatedTime: typeof p?.info?.estimatedTime === "string" ? p.info.estimatedTime : "",
-      observationScope: p?.info?.observationScope === "Partial" ? "Partial" : "Full",
-      summary: typeof p?.info?.summary === "string" ? p.info.summary : "",
-    };
-
-    const employees: Employee[] = Array.isArray(p?.employees)
-      ? p.employees.map((e: any) => ({
-          id: Number(e?.id ?? Date.now()),
-          name: String(e?.name ?? "Employee"),
-          status: e?.status === "active" || e?.status === "paused" ? e.status : "idle",
-          startTime: typeof e?.startTime === "number" ? e.startTime : null,
-          elapsedTime: Number(e?.elapsedTime ?? 0),
-          pausedAccum: Number(e?.pausedAccum ?? 0),
-          lastPausedAt: typeof e?.lastPausedAt === "number" ? e.lastPausedAt : null,
-          logs: Array.isArray(e?.logs) ? e.logs.map(String) : [],
-          role: typeof e?.role === "string" ? e.role : "",
-          skill: typeof e?.skill === "string" ? e.skill : "",
-        }))
-      : [];
-
-    let taskLog: TaskEntry[] = [];
-    if (Array.isArray(p?.taskLog)) {
-      if (p.taskLog.length && typeof p.taskLog[0] === "string") {
-        const base = Date.now();
-        taskLog = (p.taskLog as string[]).map((t, i) => ({
-          id: base - (p.taskLog.length - 1 - i),
-          at: base - (p.taskLog.length - 1 - i),
-          text: t.replace(/^[^:]+:\s*/, ""),
-        }));
-      } else {
-        taskLog = p.taskLog
-          .filter((x: any) => x && typeof x.at === "number" && typeof x.text === "string")
-          .map((x: any) => ({ id: Number(x.id ?? x.at), at: x.at, text: x.text }));
-      }
-    }
-
-    let timeLog: TimeLogEntry[] = [];
-    if (Array.isArray(p?.timeLog)) {
-      timeLog = p.timeLog
-        .filter(
-          (x: any) =>
-            x &&
-            typeof x.at === "number" &&
-            (x.event === "start" || x.event === "pause" || x.event === "stop" || x.event === "deleted") &&
-            typeof x.employeeName === "string",
-        )
-        .map((x: any) => ({
-          id: Number(x.id ?? x.at),
-          at: x.at,
-          employeeId: typeof x.employeeId === "number" ? x.employeeId : null,
-          employeeName: x.employeeName,
-          event: x.event as TimeEvent,
-          reasonCode: typeof x.reasonCode === "string" ? x.reasonCode : undefined,
-          comment: typeof x.comment === "string" ? x.comment : undefined,
-        }));
-    }
-
-    let photos: PhotoItem[] = [];
-    if (Array.isArray(p?.photos)) {
-      photos = p.photos
-        .filter((ph: any) => ph && typeof ph.dataUrl === "string")
-        .map((ph: any) => ({
-          id: Number(ph.id ?? Date.now()),
-          dataUrl: String(ph.dataUrl),
-          name: typeof ph.name === "string" ? ph.name : undefined,
-          caption: typeof ph.caption === "string" ? ph.caption : undefined,
-        }));
-    }
-
-    return { info, employees, taskLog, timeLog, photos };
-  } catch {
-    return null;
-  }
-}
-
-function safeSave(state: AppState) {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  } catch {}
-}
-
 /* ---------- Visuals (no external libs) ---------- */
 function ProgressBar({
   value,
@@ -501,6 +420,103 @@ function StackedBar({
   );
 }
 
+function DelayPareto({ rows, theme }: { rows: ParetoRow[]; theme?: ThemeMode }) {
+  const isLight = theme === "light";
+  const panelBg = isLight ? "#f6f9ff" : "#111a34";
+  const border = isLight ? "1px solid #d6e0ff" : "1px solid #26345a";
+  const labelColor = isLight ? "#0b1a33" : "#aabcdf";
+  const trackBg = isLight ? "#e9eef6" : "#0b1228";
+  const max = rows[0]?.ms || 1;
+  return (
+    <div style={{ background: panelBg, border, borderRadius: 12, padding: 10, marginTop: 10 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 8, fontSize: 12, color: labelColor }}>
+        <span style={{ fontWeight: 800 }}>Delay Pareto</span>
+        <span>paused time by reason</span>
+      </div>
+      {rows.length === 0 && <div className="meta">(no pauses yet)</div>}
+      <div style={{ display: "grid", gridTemplateColumns: "minmax(110px,180px) 1fr auto auto", gap: "6px 10px", alignItems: "center", fontSize: 12, color: labelColor }}>
+        {rows.map((p) => (
+          <React.Fragment key={p.reason}>
+            <span title={`${p.count} pause${p.count === 1 ? "" : "s"}`}>{p.reason}</span>
+            <div style={{ height: 12, background: trackBg, borderRadius: 999, overflow: "hidden" }}>
+              <div style={{ width: `${(p.ms / max) * 100}%`, height: "100%", background: "#ffd166" }} />
+            </div>
+            <span className="mono">{msToHMS(p.ms)}</span>
+            <span className="mono" title="Cumulative share of idle">{(p.cumulative * 100).toFixed(0)}%</span>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** One metric over time as a line with a dot per period; clicking a dot picks that period. */
+function TrendChart({
+  title,
+  points,
+  value,
+  format,
+  color,
+  selected,
+  onPick,
+  theme,
+}: {
+  title: string;
+  points: TrendPoint[];
+  value: (p: TrendPoint) => number | null;
+  format: (v: number) => string;
+  color: string;
+  selected?: string;
+  onPick: (p: TrendPoint) => void;
+  theme?: ThemeMode;
+}) {
+  const isLight = theme === "light";
+  const panelBg = isLight ? "#f6f9ff" : "#111a34";
+  const border = isLight ? "1px solid #d6e0ff" : "1px solid #26345a";
+  const labelColor = isLight ? "#0b1a33" : "#aabcdf";
+  const W = 300, H = 110, PAD = 8;
+  const vals = points.map(value);
+  const known = vals.filter((v): v is number => v != null);
+  const lo = Math.min(0, ...known);
+  const hi = Math.max(lo + 1e-9, ...known);
+  const x = (i: number) => (points.length > 1 ? PAD + (i * (W - 2 * PAD)) / (points.length - 1) : W / 2);
+  const y = (v: number) => H - PAD - ((v - lo) / (hi - lo)) * (H - 2 * PAD);
+  const line = vals.flatMap((v, i) => (v == null ? [] : [`${x(i)},${y(v)}`])).join(" ");
+  const last = known[known.length - 1];
+  return (
+    <div style={{ background: panelBg, border, borderRadius: 12, padding: 8 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, color: labelColor }}>
+        <span style={{ fontWeight: 800 }}>{title}</span>
+        <span className="mono">{last != null ? format(last) : "—"}</span>
+      </div>
+      <svg viewBox={`0 0 ${W} ${H}`} style={{ width: "100%", height: 110, display: "block" }}>
+        {lo < 0 && <line x1={PAD} x2={W - PAD} y1={y(0)} y2={y(0)} stroke={labelColor} strokeDasharray="3 3" opacity={0.5} />}
+        {known.length > 1 && <polyline points={line} fill="none" stroke={color} strokeWidth={2} />}
+        {vals.map((v, i) =>
+          v == null ? null : (
+            <circle
+              key={points[i].period}
+              cx={x(i)}
+              cy={y(v)}
+              r={points[i].period === selected ? 6 : 4}
+              fill={color}
+              stroke={points[i].period === selected ? labelColor : "none"}
+              style={{ cursor: "pointer" }}
+              onClick={() => onPick(points[i])}
+            >
+              <title>{`${points[i].period}: ${format(v)} (${points[i].studies} ${points[i].studies === 1 ? "study" : "studies"})`}</title>
+            </circle>
+          ),
+        )}
+      </svg>
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 11, color: labelColor }}>
+        <span>{points[0]?.period ?? ""}</span>
+        <span>{points.length > 1 ? points[points.length - 1].period : ""}</span>
+      </div>
+    </div>
+  );
+}
+
 /* ---------- Modals ---------- */
 function HelpModal({ open, onClose }: { open: boolean; onClose: () => void }) {
   if (!open) return null;
@@ -531,23 +547,34 @@ function HelpModal({ open, onClose }: { open: boolean; onClose: () => void }) {
           <p style={{margin:'6px 0 0'}}><b>General Info</b></p>
           <ul style={{margin:0, paddingLeft:'18px', display:'grid', gap:6}}>
             <li><b>Observer:</b> your name (remembered for next time). <b>Supervisor</b> is optional.</li>
+            <li><b>Time Zone:</b> where the work happens; every time, export and the Daily Breakdown use it. <b>Day Starts At</b> sets the daily boundary (e.g. 06:00 for shift work).</li>
             <li><b>Observation Scope:</b> choose <i>Full</i> if the entire task was observed, <i>Partial</i> if only a portion.</li>
-            <li><b>Estimated Time:</b> expected duration (e.g., 03:30). Useful for later comparison.</li>
+            <li><b>Estimated Time:</b> expected duration (e.g., 2h 30m, 02:30, 2.5 hours or 150m); Actual Time, Crew-hours and Standard Time are compared against it.</li>
+            <li><b>PF&amp;D Allowance:</b> personal/fatigue/delay % added to Normal Time (touch × rating) to get Standard Time. Set each employee's <b>Rating %</b> on their card, or rate a Work Element to override it for that step.</li>
             <li><b>Dates:</b> set <i>Start Date</i>. Enable <i>Multi‑day</i> to add an <i>End Date</i>.</li>
             <li><b>Type / Work Type:</b> pick a preset or choose <i>Other…</i> to enter free text.</li>
+            <li><b>Shift &amp; Breaks:</b> set shift hours and scheduled breaks (e.g., Lunch 11:30–12:00). Pauses inside them, or with a reason marked <i>Planned</i> in Reason Codes (e.g., <i>Break</i>), count as <i>planned</i> idle and are left out of Utilization.</li>
           </ul>
 
           <p style={{margin:'10px 0 0'}}><b>KPI Card</b></p>
           <ul style={{margin:0, paddingLeft:'18px', display:'grid', gap:6}}>
-            <li><b>Actual / Touch / Idle</b> live timers at the top.</li>
+            <li><b>Actual / Touch / Idle</b> live timers at the top; Idle is split into planned and unplanned.</li>
             <li><b>Total Employees, Sessions, Combined Time, Utilization, Crew‑hours, Idle Ratio</b> are summarized below.</li>
+            <li><b>Delay Pareto</b> ranks pause reasons by total paused time (hover a reason for its pause count); the right column is the cumulative share.</li>
           </ul>
 
           <p style={{margin:'10px 0 0'}}><b>Employees</b></p>
           <ul style={{margin:0, paddingLeft:'18px', display:'grid', gap:6}}>
             <li>Add each person, then use <b>Start</b>, <b>Pause</b> (with reason/comment), and <b>Stop</b>.</li>
+            <li>Tick several cards (or <b>Select all</b>) to <b>Start</b>, <b>Pause</b> or <b>Stop</b> them together: one reason and comment, and every employee gets their own log entry at the same time. <b>Pause all</b> next to the KPIs pauses everyone who is Active.</li>
+            <li><b>Lap</b> ends the current cycle and starts the next without pausing. Cycle count, mean, min, max, standard deviation and outliers appear on the KPI card; pauses inside a cycle don't count toward it.</li>
+            <li><b>Work sampling:</b> set <i>Study Mode</i> to Work sampling, enter the observation window and number of rounds, then <i>Schedule Today</i>. At each random time the app prompts you to record whether each employee is Working, Waiting, Traveling or Absent (with a pause reason from the catalog). The shares come with 95% confidence intervals and the number of observations needed for ±5%.</li>
+            <li><b>Dashboard</b> (toolbar): utilization, idle ratio, crew-hours and actual-vs-estimate trends across every study saved on this device, filtered by date range, location, station, work type, type, supervisor or observer. Click a point or a Task/Station/Work Type row to list its studies, then <i>Open</i> one.</li>
+            <li><b>Sample Size</b> (toolbar): pools the touch time of every saved study with the same Procedure and Task and shows the mean, standard deviation, confidence interval and how many more studies are needed for a target accuracy (e.g., ±5% at 95%).</li>
+            <li><b>Reason Codes</b> (toolbar): add, remove or reorder pause/stop codes, group them into categories, and mark each as Value-added, Necessary non-value-added or Waste. Idle is totalled by both in the report and the Excel <i>Idle by Category</i> sheet.</li>
             <li>Card border colors indicate status: <span style={{color:'#35c98e'}}>green</span> (active), <span style={{color:'#ffd166'}}>yellow</span> (paused), <span style={{color:'#ff6b6b'}}>red</span> (stopped).</li>
             <li><b>Role</b> and <b>Skill</b> have presets; choose <i>Other…</i> to enter custom text.</li>
+            <li><b>Element:</b> once Work Elements are defined (General Info), pick the step each person is on. Active time counts toward that element; the KPI card shows touch, elapsed time and crew size per element.</li>
           </ul>
 
           <p style={{margin:'10px 0 0'}}><b>Task Log</b></p>
@@ -558,6 +585,7 @@ function HelpModal({ open, onClose }: { open: boolean; onClose: () => void }) {
           <p style={{margin:'10px 0 0'}}><b>Summary</b></p>
           <ul style={{margin:0, paddingLeft:'18px', display:'grid', gap:6}}>
             <li>Multi‑line narrative of findings placed below the Task Log. Included in all exports.</li>
+            <li><b>Generate with AI</b> needs a connection. Offline, a local draft is filled in (when the summary is empty) and the request is queued; it runs by itself once the connection returns.</li>
           </ul>
 
           <p style={{margin:'10px 0 0'}}><b>Photos</b></p>
@@ -569,20 +597,33 @@ function HelpModal({ open, onClose }: { open: boolean; onClose: () => void }) {
           <p style={{margin:'10px 0 0'}}><b>Time Log</b></p>
           <ul style={{margin:0, paddingLeft:'18px', display:'grid', gap:6}}>
             <li>Chronological list of <i>Start</i> / <i>Pause</i> / <i>Stop</i> events with optional reasons and comments.</li>
+            <li>Use <b>Edit</b> to correct an entry's time, reason or comment, and <b>Add Entry</b> to insert a missed Start/Pause/Stop. Changes that leave an impossible sequence (a Pause before a Start, overlapping sessions) are rejected. Totals recalculate from the log.</li>
             <li>Use <b>Delete</b> on a row to remove an entry, or <b>Delete All</b> to clear the entire log.</li>
+            <li>Timers run on their own steady clock. If the device sleeps or the tab is suspended for more than 5 minutes, or the device clock changes by more than a minute while someone is being timed, you're asked how to treat the gap (count it or pause through it; keep the study clock or move earlier entries to the corrected device clock). Each choice is logged as a <i>Clock gap</i> entry.</li>
           </ul>
 
           <p style={{margin:'10px 0 0'}}><b>Export</b></p>
           <ul style={{margin:0, paddingLeft:'18px', display:'grid', gap:6}}>
             <li><b>CSV (Summary)</b> – one‑row summary for quick sharing.</li>
-            <li><b>Excel (Full)</b> – Summary, Employee Performance, Time Log, and Daily Breakdown sheets.</li>
+            <li><b>Excel (Full)</b> – Summary, Employee Performance, Time Log, Daily Breakdown and (when defined) Work Elements sheets.</li>
             <li><b>HTML / PDF</b> – full report with photos and formatting. In Safari, you can also use <i>Print Report</i> → <i>Save as PDF</i>.</li>
+            <li><b>Study (.json)</b> – the complete study (every time event, note and photo). Load it on another device with <i>Studies</i> → <i>Import Study…</i>. An edited Excel (Full) workbook or Summary CSV can be loaded back as a new study with <i>Import Excel/CSV…</i>; times are read from the <i>When (UTC)</i> column, so clear it on rows where you change <i>When</i>.</li>
           </ul>
 
           <p style={{margin:'10px 0 0'}}><b>Theme & Data</b></p>
           <ul style={{margin:0, paddingLeft:'18px', display:'grid', gap:6}}>
             <li>Use the toolbar toggle to switch <b>Light/Dark</b> modes.</li>
-            <li>All data is stored locally in your browser. <b>Clear Saved Data</b> wipes this device only.</li>
+            <li>All data (including photos) is stored locally in your browser's database. A red banner appears if a save fails. <b>Studies</b> lists every saved study: open, start new, duplicate (same header and crew), archive or delete.</li>
+            <li><b>Clear Saved Data</b> wipes the current study on this device only.</li>
+            <li>A study can be edited in one tab at a time. Opening it in a second tab shows it read-only, following the changes saved in the first; use <b>Take over here</b> to edit in the new tab instead (the first one becomes read-only).</li>
+            <li><b>Sync</b> (toolbar, when the team's sync server is set up): <i>Push</i> uploads a study so supervisors and other observers can <i>Pull</i> it onto their devices. The badge shows where the open study stands (Up to date, Changed here, Newer on server, Conflict). Nothing syncs by itself. If someone else pushed the same study since your last sync, you choose whose copy to keep.</li>
+            <li><b>Sign in</b> (toolbar) with your work account to use AI summaries and the sync server; your name then fills in as the Observer. Observers push and pull studies, analysts pull them and everyone with a role can generate summaries. Timing works signed out, with studies kept on this device.</li>
+          </ul>
+
+          <p style={{margin:'10px 0 0'}}><b>Offline & Install</b></p>
+          <ul style={{margin:0, paddingLeft:'18px', display:'grid', gap:6}}>
+            <li>After the first visit the app is kept on the device and opens without a connection; an <b>Offline</b> badge shows next to the title while disconnected. Timing, notes, photos and exports all work offline.</li>
+            <li>Use the browser's <i>Install app</i> / <i>Add to Home Screen</i> to run it in its own window. A new version is picked up after every window of the app has been closed.</li>
           </ul>
         </div>
         <footer>
@@ -598,15 +639,18 @@ function HelpModal({ open, onClose }: { open: boolean; onClose: () => void }) {
 function ReasonModal({
   open,
   action,
+  count = 1,
+  options,
   onCancel,
   onConfirm,
 }: {
   open: boolean;
   action: "pause" | "stop";
+  count?: number; // employees the reason applies to
+  options: string[];
   onCancel: () => void;
   onConfirm: (reasonCode: string, comment: string) => void;
 }) {
-  const options = action === "pause" ? PAUSE_REASONS : STOP_REASONS;
   const [reason, setReason] = useState(options[0]);
   const [comment, setComment] = useState("");
 
@@ -624,6 +668,7 @@ function ReasonModal({
       <div className="modal" onClick={(e) => e.stopPropagation()}>
         <header>
           <h3>{action === "pause" ? "Pause reason" : "Stop reason"}</h3>
+          {count > 1 && <span className="meta" style={{ marginLeft: "auto" }}>{count} employees</span>}
         </header>
         <div className="body">
           <h4>Reason code</h4>
@@ -659,224 +704,1245 @@ function ReasonModal({
   );
 }
 
-/* ---------- App ---------- */
-function ConfirmModal({ open, title, body, confirmText = "Yes", cancelText = "Cancel", onCancel, onConfirm }: {
-  open: boolean;
-  title: string;
-  body: string;
-  confirmText?: string;
-  cancelText?: string;
-  onCancel: () => void;
-  onConfirm: () => void;
-}) {
-  if (!open) return null;
+/** A detected clock gap; the observer has to choose how to treat it before timing continues. */
+function ClockGapModal({ gap, timeZone, onDecide }: { gap: ClockGap; timeZone: string; onDecide: (decision: GapDecision) => void }) {
   return (
-    <div className="modal-backdrop" onClick={onCancel}>
-      <div className="modal" onClick={(e) => e.stopPropagation()}>
-        <header><h3>{title}</h3></header>
-        <div className="body"><p style={{ margin: 0 }}>{body}</p></div>
-        <footer>
-          <button className="btn" onClick={onCancel}>{cancelText}</button>
-          <button className="btn red" onClick={onConfirm}>{confirmText}</button>
-        </footer>
+    <div className="modal-backdrop">
+      <div className="modal" role="alertdialog" aria-labelledby="clock-gap-title">
+        <header>
+          <h3 id="clock-gap-title">{gap.kind === "suspend" ? "The app was paused" : "The device clock changed"}</h3>
+        </header>
+        <div className="body">
+          {gap.kind === "suspend" ? (
+            <p>
+              Nothing was timed for <b>{msToHMS(gap.ms)}</b> (from {fmtStamp(gap.from, true, timeZone)} to{" "}
+              {fmtStamp(gap.to, true, timeZone)}), probably because the device slept or the tab was suspended. Running
+              timers would count this time as it is.
+            </p>
+          ) : (
+            <p>
+              The device clock was {gap.ms > 0 ? "moved forward" : "set back"} by <b>{msToHMS(Math.abs(gap.ms))}</b> while
+              timers were running. The timers themselves weren't affected.
+            </p>
+          )}
+          <div style={{ display: "grid", gap: 8 }}>
+            {GAP_CHOICES[gap.kind].map((c, i) => (
+              <button key={c.decision} className={`btn ${i === 0 ? "blue" : "yellow"}`} style={{ textAlign: "left" }} onClick={() => onDecide(c.decision)}>
+                <b>{c.label}</b> — {c.hint}
+              </button>
+            ))}
+          </div>
+          <p className="meta" style={{ marginTop: 10 }}>The choice is recorded in the Time Log.</p>
+        </div>
       </div>
     </div>
   );
 }
 
-function UndoToast({ open, text, onUndo, onClose }: { open: boolean; text: string; onUndo?: () => void; onClose: () => void }) {
-  // Use theme from outer scope if available, else fallback to dark
-  // We'll use a prop if passed, but here, access theme via a context or prop if available
-  // For this app, we can access theme via a variable in parent component
-  // So we will forward isDarkMode as a prop in usage below
-  // For now, let's assume we can access window.document.documentElement.dataset.theme
-  let isDarkMode = false;
-  try {
-    isDarkMode = document?.documentElement?.dataset?.theme === "dark";
-  } catch {}
-  if (!open) return null;
+type RoundDraft = { state: SampleState | ""; reasonCode: string; comment: string };
+
+/** One work-sampling round: what each employee is doing right now. Mounted fresh for every round. */
+function SamplingRoundModal({
+  round,
+  scheduledAt,
+  timeZone,
+  employees,
+  options,
+  onSkip,
+  onSave,
+}: {
+  round: number;
+  scheduledAt: number | null;
+  timeZone: string;
+  employees: Employee[];
+  options: string[];
+  onSkip: () => void;
+  onSave: (rows: { employee: Employee; state: SampleState; reasonCode: string; comment: string }[]) => void;
+}) {
+  const [draft, setDraft] = useState<Record<number, RoundDraft>>({});
+  const row = (id: number): RoundDraft => draft[id] ?? { state: "", reasonCode: "", comment: "" };
+  const update = (id: number, patch: Partial<RoundDraft>) => setDraft((prev) => ({ ...prev, [id]: { ...row(id), ...patch } }));
+  const complete = employees.length > 0 && employees.every((e) => row(e.id).state);
   return (
-    <div style={{
-      position: "fixed", right: 16, bottom: 16, zIndex: 1000,
-      background: isDarkMode ? "#111a34" : "#f5f5f5",
-      color: isDarkMode ? "#fff" : "#000",
-      border: isDarkMode ? "1px solid #2a3560" : "1px solid #ccc",
-      borderRadius: 10, padding: "10px 12px", boxShadow: "0 6px 24px rgba(0,0,0,.15)",
-      display: "flex", gap: 8, alignItems: "center"
-    }}>
-      <span>{text}</span>
-      {onUndo && <button className="btn yellow" onClick={onUndo}>Undo</button>}
-      <button
-        className="btn ghost"
-        style={{
-          backgroundColor: isDarkMode ? "var(--dark-bg-color)" : "#f5f5f5",
-          color: isDarkMode ? "#fff" : "#000"
-        }}
-        onClick={onClose}
-      >
-        Dismiss
-      </button>
+    <div className="modal-backdrop">
+      <div className="modal" style={{ width: "min(860px,96vw)" }}>
+        <header>
+          <h3>Observation round {round}</h3>
+          <span className="meta" style={{ marginLeft: "auto" }}>
+            {scheduledAt != null ? `Scheduled ${fmtStamp(scheduledAt, false, timeZone)}` : "On demand"}
+          </span>
+        </header>
+        <div className="body">
+          <p style={{ marginTop: 0 }}>Record what each employee is doing at this moment.</p>
+          <datalist id="sampling-reasons">
+            {options.map((r) => (
+              <option key={r} value={r} />
+            ))}
+          </datalist>
+          <div className="table-wrap" style={{ maxHeight: "56vh" }}>
+            <table>
+              <thead>
+                <tr>
+                  <th>Employee</th>
+                  <th>Doing</th>
+                  <th>Reason</th>
+                  <th>Comment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {employees.map((emp) => {
+                  const r = row(emp.id);
+                  return (
+                    <tr key={emp.id}>
+                      <td style={{ fontWeight: 700 }}>{emp.name}</td>
+                      <td style={{ whiteSpace: "nowrap" }}>
+                        {SAMPLE_STATES.map((st) => (
+                          <button
+                            key={st}
+                            className={`btn ${r.state === st ? (st === "working" ? "green" : "yellow") : "ghost"}`}
+                            style={{ marginRight: 4 }}
+                            aria-pressed={r.state === st}
+                            onClick={() => update(emp.id, { state: st })}
+                          >
+                            {SAMPLE_STATE_LABELS[st]}
+                          </button>
+                        ))}
+                      </td>
+                      <td>
+                        <input
+                          list="sampling-reasons"
+                          value={r.reasonCode}
+                          onChange={(e) => update(emp.id, { reasonCode: e.target.value })}
+                          disabled={!r.state || r.state === "working"}
+                          placeholder={r.state && r.state !== "working" ? "Reason code" : ""}
+                        />
+                      </td>
+                      <td>
+                        <input value={r.comment} onChange={(e) => update(emp.id, { comment: e.target.value })} placeholder="Optional" />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <footer>
+          <button className="btn" onClick={onSkip}>{scheduledAt != null ? "Skip round" : "Cancel"}</button>
+          <button
+            className="btn blue"
+            disabled={!complete}
+            title={complete ? undefined : "Pick a state for every employee"}
+            onClick={() =>
+              onSave(
+                employees.map((employee) => {
+                  const r = row(employee.id);
+                  return {
+                    employee,
+                    state: r.state as SampleState,
+                    reasonCode: r.state === "working" ? "" : r.reasonCode.trim(),
+                    comment: r.comment.trim(),
+                  };
+                }),
+              )
+            }
+          >
+            Record round
+          </button>
+        </footer>
+      </div>
     </div>
   );
 }
 
-export default function WorkMeasurementApp() {
-  const loaded = safeLoad();
-  const [info, setInfo] = useState<AppInfo>(
-    loaded?.info ?? {
-      date: todayISO(),
-      endDate: "",
-      multiDay: false,
-      location: "",
-      procedure: "",
-      workOrder: "",
-      task: "",
-      type: "Routine",
-      workType: "Inspection",
-      assetId: "",
-      station: "",
-      supervisor: "",
-      observer: localStorage.getItem(LAST_OBSERVER_KEY) || "",
-      estimatedTime: "",
-      observationScope: "Full",
-      summary: "",
-    },
-  );
-  const [employees, setEmployees] = useState<Employee[]>(loaded?.employees ?? []);
-  const [taskLog, setTaskLog] = useState<TaskEntry[]>(loaded?.taskLog ?? []);
-  const [timeLog, setTimeLog] = useState<TimeLogEntry[]>(loaded?.timeLog ?? []);
-  const [photos, setPhotos] = useState<PhotoItem[]>(loaded?.photos ?? []);
-
-  // --- Theme (light/dark) ---
-  const [theme, setTheme] = useState<ThemeMode>(() => {
-    try {
-      const saved = localStorage.getItem(THEME_KEY) as ThemeMode | null;
-      if (saved === "light" || saved === "dark") return saved;
-    } catch {}
-    return getSystemTheme();
-  });
+function ReasonCatalogModal({
+  open,
+  reasons,
+  onSave,
+  onClose,
+}: {
+  open: boolean;
+  reasons: ReasonCode[];
+  onSave: (next: ReasonCode[]) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<ReasonCode[]>(reasons);
+  const [error, setError] = useState("");
 
   useEffect(() => {
-    // apply to <html data-theme="...">
-    try {
-      document.documentElement.dataset.theme = theme;
-      localStorage.setItem(THEME_KEY, theme);
-    } catch {}
-  }, [theme]);
-
-  const toggleTheme = () => setTheme((t) => (t === "light" ? "dark" : "light"));
-  // Memoized normalized photos for report export
-  const reportPhotos = React.useMemo(
-    () =>
-      photos.map((p) => ({
-        data: p.dataUrl,
-        // Use customName if available, else fallback to generated or original name
-        name: p.customName || p.name || "",
-        caption: p.caption || "",
-      })),
-    [photos]
-  );
-
-  // --- Photo rename UI state ---
-  const [editingPhotoId, setEditingPhotoId] = useState<number | null>(null);
-  const [tempPhotoName, setTempPhotoName] = useState("");
-
-  function beginRenamePhoto(p: PhotoItem) {
-    setEditingPhotoId(p.id);
-    setTempPhotoName(p.customName || p.name || "");
-  }
-  function cancelRenamePhoto() {
-    setEditingPhotoId(null);
-    setTempPhotoName("");
-  }
-  function confirmRenamePhoto() {
-    if (editingPhotoId == null) return;
-    const newName = tempPhotoName.trim();
-    setPhotos(prev =>
-      prev.map(ph => ph.id === editingPhotoId ? { ...ph, customName: newName || ph.customName || ph.name } : ph)
-    );
-    setEditingPhotoId(null);
-    setTempPhotoName("");
-  }
+    if (open) {
+      setDraft(reasons);
+      setError("");
+    }
+  }, [open, reasons]);
 
-  const [employeeName, setEmployeeName] = useState("");
-  const [note, setNote] = useState("");
+  if (!open) return null;
 
-  // --- Task Log editing state ---
-  const [editingEntry, setEditingEntry] = useState<{ id: number; at: number; text: string } | null>(null);
-  const startEditTaskNote = (entry: TaskEntry) => {
-    setEditingEntry({ id: entry.id, at: entry.at, text: entry.text });
-  };
-  const onEditTaskNoteChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    if (!editingEntry) return;
-    setEditingEntry({ ...editingEntry, text: e.target.value });
+  const update = (id: number, patch: Partial<ReasonCode>) => {
+    setDraft((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+    setError("");
   };
-  const saveTaskNoteEdit = () => {
-    if (!editingEntry) return;
-    setTaskLog(prev => prev.map(en => en.id === editingEntry.id ? { ...en, text: editingEntry.text } : en));
-    setEditingEntry(null);
+  const add = (kind: ReasonKind) => {
+    const id = Math.max(0, ...draft.map((r) => r.id)) + 1;
+    setDraft((prev) => [...prev, { id, code: "", kind, category: "Other", classification: "Waste", planned: false }]);
   };
-  // --- Time Log editing state ---
-const [editingTime, setEditingTime] =
-  useState<{ id: number; reason: string; comment: string } | null>(null);
-
-function startEditTimeEntry(t: TimeLogEntry) {
-  setEditingTime({
-    id: t.id,
-    reason: t.reasonCode || "",
-    comment: t.comment || "",
-  });
-}
-function onEditTimeChange(field: "reason" | "comment", value: string) {
-  if (!editingTime) return;
-  setEditingTime({ ...editingTime, [field]: value });
-}
-function saveTimeEdit() {
-  if (!editingTime) return;
-  setTimeLog(prev =>
-    prev.map(t =>
-      t.id === editingTime.id
-        ? {
-            ...t,
-            reasonCode: editingTime.reason.trim(),
-            comment: editingTime.comment.trim(),
-          }
-        : t
-    )
-  );
-  setEditingTime(null);
-}
-function cancelTimeEdit() {
-  setEditingTime(null);
-}
-  const cancelTaskNoteEdit = () => setEditingEntry(null);
-  // --- AI summary loading state ---
-  const [aiBusy, setAiBusy] = useState(false);
-
-  const [confirmBox, setConfirmBox] = useState<{
-    open: boolean; title: string; body: string; confirmText?: string; cancelText?: string; onConfirm: () => void;
-  } | null>(null);
-
-  const [toast, setToast] = useState<{ open: boolean; text: string; undo?: () => void } | null>(null);
-
-  function showToast(text: string, undo?: () => void) {
-    setToast({ open: true, text, undo });
-    setTimeout(() => setToast((t) => (t ? { ...t, open: false } : t)), 6000);
-  }
+  const remove = (id: number) => setDraft((prev) => prev.filter((r) => r.id !== id));
+  // Reorder within the same kind; the order is the order shown in the Pause/Stop picker.
+  const move = (id: number, dir: -1 | 1) =>
+    setDraft((prev) => {
+      const i = prev.findIndex((r) => r.id === id);
+      let j = i + dir;
+      while (j >= 0 && j < prev.length && prev[j].kind !== prev[i].kind) j += dir;
+      if (i < 0 || j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
 
-  // “Other…” reveal controls for General Info
-  const [typeOther, setTypeOther] = useState("");
-  const [workTypeOther, setWorkTypeOther] = useState("");
+  const save = () => {
+    const cleaned = draft.map((r) => ({ ...r, code: r.code.trim(), category: r.category.trim() || "Other" }));
+    if (cleaned.some((r) => !r.code)) return setError("Every reason needs a code.");
+    const seen = new Set<string>();
+    for (const r of cleaned) {
+      const key = `${r.kind}:${r.code.toLowerCase()}`;
+      if (seen.has(key)) return setError(`"${r.code}" is listed twice as a ${r.kind} reason.`);
+      seen.add(key);
+    }
+    if (!reasonsFor(cleaned, "pause").length || !reasonsFor(cleaned, "stop").length) {
+      return setError("Keep at least one pause reason and one stop reason.");
+    }
+    onSave(cleaned);
+  };
 
-  // Sorting toggles
-  const [sortNewestFirst, setSortNewestFirst] = useState(true);
+  const section = (kind: ReasonKind) => (
+    <>
+      <h4 style={{ marginTop: 10 }}>{kind === "pause" ? "Pause reasons" : "Stop reasons"}</h4>
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>Code</th>
+              <th>Category</th>
+              <th>Classification</th>
+              <th title="Counted as planned idle wherever it happens">Planned</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {reasonsFor(draft, kind).map((r) => (
+              <tr key={r.id}>
+                <td>
+                  <input type="text" value={r.code} onChange={(e) => update(r.id, { code: e.target.value })} placeholder="e.g., Waiting on parts" />
+                </td>
+                <td>
+                  <input type="text" list="reason-categories" value={r.category} onChange={(e) => update(r.id, { category: e.target.value })} />
+                </td>
+                <td>
+                  <select value={r.classification} onChange={(e) => update(r.id, { classification: e.target.value as ReasonClass })}>
+                    {(Object.keys(CLASS_LABELS) as ReasonClass[]).map((c) => (
+                      <option key={c} value={c}>
+                        {CLASS_LABELS[c]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <input type="checkbox" checked={r.planned} disabled={kind === "stop"} onChange={(e) => update(r.id, { planned: e.target.checked })} />
+                </td>
+                <td style={{ whiteSpace: "nowrap" }}>
+                  <button className="btn ghost" onClick={() => move(r.id, -1)} title="Move up">↑</button>
+                  <button className="btn ghost" style={{ marginLeft: 4 }} onClick={() => move(r.id, 1)} title="Move down">↓</button>
+                  <button className="btn red" style={{ marginLeft: 6 }} onClick={() => remove(r.id)}>Remove</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button className="btn ghost" style={{ marginTop: 6 }} onClick={() => add(kind)}>
+        + {kind === "pause" ? "Pause" : "Stop"} reason
+      </button>
+    </>
+  );
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" style={{ width: "min(900px,96vw)" }} onClick={(e) => e.stopPropagation()}>
+        <header>
+          <h3>Reason Codes</h3>
+          <span className="meta" style={{ marginLeft: "auto" }}>Saved on this device for all studies</span>
+        </header>
+        <div className="body" style={{ maxHeight: "65vh", overflow: "auto" }}>
+          <datalist id="reason-categories">
+            {REASON_CATEGORIES.map((c) => (
+              <option key={c} value={c} />
+            ))}
+          </datalist>
+          {section("pause")}
+          {section("stop")}
+          {error && <p className="save-warning">{error}</p>}
+        </div>
+        <footer>
+          <button className="btn ghost" onClick={() => setDraft(DEFAULT_REASONS)} title="Restore the built-in reason codes">
+            Reset to defaults
+          </button>
+          <button className="btn" onClick={onClose}>Cancel</button>
+          <button className="btn blue" onClick={save}>Save</button>
+        </footer>
+      </div>
+    </div>
+  );
+}
+
+function StudyLibraryModal({
+  open,
+  studies,
+  activeId,
+  onOpen,
+  onNew,
+  onImport,
+  onImportSheets,
+  onDuplicate,
+  onArchive,
+  onDelete,
+  onClose,
+}: {
+  open: boolean;
+  studies: StudyMeta[];
+  activeId: string;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onImport: (file: File) => void;
+  onImportSheets: (file: File) => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [showArchived, setShowArchived] = useState(false);
+  if (!open) return null;
+  const rows = [...studies]
+    .filter((m) => showArchived || !m.archived || m.id === activeId)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  const archivedCount = studies.filter((m) => m.archived).length;
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" style={{ width: "min(1000px,96vw)" }} onClick={(e) => e.stopPropagation()}>
+        <header>
+          <h3>Studies</h3>
+          <span className="meta" style={{ marginLeft: "auto" }}>{studies.length} saved</span>
+        </header>
+        <div className="body">
+          <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            <button className="btn blue" onClick={onNew}>New Study</button>
+            <label className="btn ghost" title="Load a study exported with Export → Study (.json)">
+              Import Study…
+              <input
+                type="file"
+                accept="application/json,.json"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  e.target.value = "";
+                  if (f) onImport(f);
+                }}
+              />
+            </label>
+            <label className="btn ghost" title="Rebuild a study from Export → Excel (Full) or Summary CSV">
+              Import Excel/CSV…
+              <input
+                type="file"
+                accept=".xlsx,.xls,.csv,text/csv"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  e.target.value = "";
+                  if (f) onImportSheets(f);
+                }}
+              />
+            </label>
+            <label className="switch" style={{ marginLeft: "auto" }}>
+              <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+              <span>Show archived ({archivedCount})</span>
+            </label>
+          </div>
+          <div className="table-wrap" style={{ maxHeight: "52vh" }}>
+            <table>
+              <thead>
+                <tr>
+                  <th>Study</th>
+                  <th>Date</th>
+                  <th>Location</th>
+                  <th>Observer</th>
+                  <th>Crew</th>
+                  <th>Actual</th>
+                  <th>Touch</th>
+                  <th>Utilization</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((m) => (
+                  <tr key={m.id}>
+                    <td>
+                      <div style={{ fontWeight: 700 }}>{studyTitle(m.info)}</div>
+                      <div className="meta">
+                        {[m.info.type, m.info.workType, m.info.station].filter(Boolean).join(" · ")}
+                        {m.id === activeId ? " · open" : ""}
+                        {m.archived ? " · archived" : ""}
+                      </div>
+                    </td>
+                    <td className="mono">
+                      {m.info.date}
+                      {m.info.multiDay && m.info.endDate ? ` → ${m.info.endDate}` : ""}
+                    </td>
+                    <td>{m.info.location || "—"}</td>
+                    <td>{m.info.observer || "—"}</td>
+                    <td className="mono">{m.kpis.employees}</td>
+                    <td className="mono">{msToHMS(m.kpis.actualMs)}</td>
+                    <td className="mono">{msToHMS(m.kpis.touchMs)}</td>
+                    <td className="mono">{(m.kpis.utilization * 100).toFixed(1)}%</td>
+                    <td style={{ whiteSpace: "nowrap" }}>
+                      <button className="btn blue" onClick={() => onOpen(m.id)} disabled={m.id === activeId}>
+                        Open
+                      </button>
+                      <button className="btn ghost" style={{ marginLeft: 6 }} onClick={() => onDuplicate(m.id)} title="New study with the same header and crew">
+                        Duplicate
+                      </button>
+                      <button className="btn ghost" style={{ marginLeft: 6 }} onClick={() => onArchive(m.id, !m.archived)}>
+                        {m.archived ? "Unarchive" : "Archive"}
+                      </button>
+                      <button className="btn red" style={{ marginLeft: 6 }} onClick={() => onDelete(m.id)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="meta">(no studies)</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <footer>
+          <button className="btn" onClick={onClose}>Close</button>
+        </footer>
+      </div>
+    </div>
+  );
+}
+
+const signedPctText = (v: number | null) => (v == null ? "—" : `${v < 0 ? "−" : "+"}${Math.abs(v * 100).toFixed(1)}%`);
+
+function DashboardModal({
+  open,
+  studies,
+  activeId,
+  theme,
+  onOpen,
+  onClose,
+}: {
+  open: boolean;
+  studies: StudyMeta[];
+  activeId: string;
+  theme: ThemeMode;
+  onOpen: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [filter, setFilter] = useState<DashboardFilter>(EMPTY_FILTER);
+  const [period, setPeriod] = useState<TrendPeriod>("week");
+  const [groupField, setGroupField] = useState<GroupField>("task");
+  const [focus, setFocus] = useState<{ key: string; label: string; rows: StudyRow[] } | null>(null);
+  const options = useMemo(() => filterOptions(studies), [studies]);
+  const rows = useMemo(() => filterStudies(studies, filter), [studies, filter]);
+  const points = useMemo(() => trend(rows, period), [rows, period]);
+  const groups = useMemo(() => groupBy(rows, groupField), [rows, groupField]);
+  if (!open) return null;
+  const totals = rollup(rows);
+  const setField = (key: keyof DashboardFilter, value: string | boolean) => {
+    setFocus(null);
+    setFilter((f) => ({ ...f, [key]: value }));
+  };
+  const pickPeriod = (p: TrendPoint) =>
+    setFocus(focus?.key === `p:${p.period}` ? null : { key: `p:${p.period}`, label: p.period, rows: p.rows });
+  const listed = focus?.rows ?? rows;
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" style={{ width: "min(1100px,96vw)" }} onClick={(e) => e.stopPropagation()}>
+        <header>
+          <h3>Dashboard</h3>
+          <span className="meta" style={{ marginLeft: "auto" }}>
+            {rows.length} of {studies.length} studies on this device
+          </span>
+        </header>
+        <div className="body">
+          <div style={{ display: "grid", gap: 8, gridTemplateColumns: "repeat(auto-fill,minmax(150px,1fr))", alignItems: "end" }}>
+            <label className="stack">
+              <span>From</span>
+              <input type="date" value={filter.from} onChange={(e) => setField("from", e.target.value)} />
+            </label>
+            <label className="stack">
+              <span>To</span>
+              <input type="date" value={filter.to} onChange={(e) => setField("to", e.target.value)} />
+            </label>
+            {FILTER_FIELDS.map(({ key, label }) => (
+              <label key={key} className="stack">
+                <span>{label}</span>
+                <select value={filter[key]} onChange={(e) => setField(key, e.target.value)}>
+                  <option value="">All</option>
+                  {options[key].map((v) => (
+                    <option key={v} value={v}>{v}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="stack">
+              <span>Trend by</span>
+              <select value={period} onChange={(e) => { setFocus(null); setPeriod(e.target.value as TrendPeriod); }}>
+                <option value="day">Day</option>
+                <option value="week">Week</option>
+                <option value="month">Month</option>
+              </select>
+            </label>
+            <label className="switch">
+              <input type="checkbox" checked={filter.archived} onChange={(e) => setField("archived", e.target.checked)} />
+              <span>Include archived</span>
+            </label>
+            <button className="btn ghost" onClick={() => { setFocus(null); setFilter(EMPTY_FILTER); }}>Reset filters</button>
+          </div>
+
+          <div className="kpis">
+            <div className="kpi">
+              <div className="label">Studies</div>
+              <div className="num">{totals.studies}</div>
+            </div>
+            <div className="kpi">
+              <div className="label">Avg Utilization</div>
+              <div className="num">{(totals.utilization * 100).toFixed(1)}%</div>
+            </div>
+            <div className="kpi">
+              <div className="label">Avg Idle Ratio</div>
+              <div className="num">{(totals.idleRatio * 100).toFixed(1)}%</div>
+            </div>
+            <div className="kpi">
+              <div className="label">Crew-hours</div>
+              <div className="num">{totals.crewHours.toFixed(2)}</div>
+            </div>
+            <div className="kpi" title={`${totals.estimated} of ${totals.studies} studies have an Estimated Time`}>
+              <div className="label">Avg vs Estimate</div>
+              <div className="num">{signedPctText(totals.estimatePct)}</div>
+            </div>
+          </div>
+
+          {points.length === 0 ? (
+            <p className="meta">No studies match these filters.</p>
+          ) : (
+            <div style={{ display: "grid", gap: 10, gridTemplateColumns: "repeat(auto-fit,minmax(230px,1fr))", marginTop: 10 }}>
+              <TrendChart title="Utilization" points={points} value={(p) => p.utilization * 100} format={(v) => `${v.toFixed(1)}%`} color="#64b5ff" selected={focus?.label} onPick={pickPeriod} theme={theme} />
+              <TrendChart title="Idle Ratio" points={points} value={(p) => p.idleRatio * 100} format={(v) => `${v.toFixed(1)}%`} color="#ffd166" selected={focus?.label} onPick={pickPeriod} theme={theme} />
+              <TrendChart title="Crew-hours" points={points} value={(p) => p.crewHours} format={(v) => v.toFixed(2)} color="#35c98e" selected={focus?.label} onPick={pickPeriod} theme={theme} />
+              <TrendChart title="Actual vs Estimate" points={points} value={(p) => (p.estimatePct != null ? p.estimatePct * 100 : null)} format={(v) => signedPctText(v / 100)} color="#ef6b73" selected={focus?.label} onPick={pickPeriod} theme={theme} />
+            </div>
+          )}
+
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 14 }}>
+            <h4 style={{ margin: 0 }}>By</h4>
+            <select value={groupField} onChange={(e) => setGroupField(e.target.value as GroupField)}>
+              {GROUP_FIELDS.map(({ key, label }) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="table-wrap" style={{ maxHeight: "30vh" }}>
+            <table>
+              <thead>
+                <tr>
+                  <th>{GROUP_FIELDS.find((g) => g.key === groupField)?.label}</th>
+                  <th>Studies</th>
+                  <th>Utilization</th>
+                  <th>Idle Ratio</th>
+                  <th>Crew-hours</th>
+                  <th>vs Estimate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map((g) => (
+                  <tr
+                    key={g.name}
+                    style={{ cursor: "pointer", fontWeight: focus?.key === `g:${g.name}` ? 700 : undefined }}
+                    onClick={() => setFocus(focus?.key === `g:${g.name}` ? null : { key: `g:${g.name}`, label: g.name, rows: g.rows })}
+                    title="Show these studies below"
+                  >
+                    <td>{g.name}</td>
+                    <td className="mono">{g.studies}</td>
+                    <td className="mono">{(g.utilization * 100).toFixed(1)}%</td>
+                    <td className="mono">{(g.idleRatio * 100).toFixed(1)}%</td>
+                    <td className="mono">{g.crewHours.toFixed(2)}</td>
+                    <td className="mono">{signedPctText(g.estimatePct)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 14 }}>
+            <h4 style={{ margin: 0 }}>Studies{focus ? ` — ${focus.label}` : ""}</h4>
+            {focus && <button className="btn ghost" onClick={() => setFocus(null)}>Show all</button>}
+          </div>
+          <div className="table-wrap" style={{ maxHeight: "36vh" }}>
+            <table>
+              <thead>
+                <tr>
+                  <th>Study</th>
+                  <th>Date</th>
+                  <th>Station</th>
+                  <th>Observer</th>
+                  <th>Utilization</th>
+                  <th>Idle Ratio</th>
+                  <th>Crew-hours</th>
+                  <th>vs Estimate</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {listed.map(({ meta: m, estimate }) => (
+                  <tr key={m.id}>
+                    <td>
+                      <div style={{ fontWeight: 700 }}>{studyTitle(m.info)}</div>
+                      <div className="meta">{[m.info.location, m.info.workType].filter(Boolean).join(" · ")}</div>
+                    </td>
+                    <td className="mono">{m.info.date}</td>
+                    <td>{m.info.station || "—"}</td>
+                    <td>{m.info.observer || "—"}</td>
+                    <td className="mono">{(m.kpis.utilization * 100).toFixed(1)}%</td>
+                    <td className="mono">{(m.kpis.idleRatio * 100).toFixed(1)}%</td>
+                    <td className="mono">{m.kpis.crewHours.toFixed(2)}</td>
+                    <td className="mono">{signedPctText(estimate?.pct ?? null)}</td>
+                    <td>
+                      <button className="btn blue" onClick={() => onOpen(m.id)} disabled={m.id === activeId}>
+                        {m.id === activeId ? "Open now" : "Open"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {listed.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="meta">(no studies)</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <footer>
+          <button className="btn" onClick={onClose}>Close</button>
+        </footer>
+      </div>
+    </div>
+  );
+}
+
+function SampleSizeModal({
+  open,
+  studies,
+  info,
+  activeId,
+  onClose,
+}: {
+  open: boolean;
+  studies: StudyMeta[];
+  info: AppInfo;
+  activeId: string;
+  onClose: () => void;
+}) {
+  const groups = useMemo(() => studyGroups(studies), [studies]);
+  const [picked, setPicked] = useState("");
+  const [accuracyPct, setAccuracyPct] = useState(5);
+  const [confidence, setConfidence] = useState<ConfidenceLevel>(0.95);
+  if (!open) return null;
+  const group = groups.find((g) => g.key === (picked || groupKey(info))) ?? groups[0];
+  const result = group ? sampleSize(group.studies.map((m) => m.kpis.touchMs), accuracyPct / 100, confidence) : null;
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" style={{ width: "min(900px,96vw)" }} onClick={(e) => e.stopPropagation()}>
+        <header>
+          <h3>Sample Size</h3>
+          <span className="meta" style={{ marginLeft: "auto" }}>Touch time across studies of the same procedure + task</span>
+        </header>
+        <div className="body">
+          {!group || !result ? (
+            <p className="meta">No saved studies with a procedure or task and recorded touch time yet.</p>
+          ) : (
+            <>
+              <div style={{ display: "flex", gap: 8, alignItems: "end", flexWrap: "wrap" }}>
+                <label className="stack" style={{ flex: "1 1 320px" }}>
+                  <span>Procedure / Task</span>
+                  <select value={group.key} onChange={(e) => setPicked(e.target.value)}>
+                    {groups.map((g) => (
+                      <option key={g.key} value={g.key}>
+                        {[g.procedure, g.task].filter(Boolean).join(" — ")} ({g.studies.length})
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="stack" style={{ width: 120 }}>
+                  <span>Accuracy (±%)</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={50}
+                    step={1}
+                    value={accuracyPct}
+                    onChange={(e) => {
+                      const n = Number(e.target.value);
+                      if (Number.isFinite(n) && n > 0 && n <= 50) setAccuracyPct(n);
+                    }}
+                  />
+                </label>
+                <label className="stack" style={{ width: 120 }}>
+                  <span>Confidence</span>
+                  <select value={confidence} onChange={(e) => setConfidence(Number(e.target.value) as ConfidenceLevel)}>
+                    {CONFIDENCE_LEVELS.map((c) => (
+                      <option key={c} value={c}>{c * 100}%</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div className="kpis">
+                <div className="kpi">
+                  <div className="label">Observations</div>
+                  <div className="num">{result.count}</div>
+                </div>
+                <div className="kpi">
+                  <div className="label">Mean Touch</div>
+                  <div className="num">{msToHMS(result.meanMs)}</div>
+                </div>
+                <div className="kpi" title={`Coefficient of variation ${(result.cv * 100).toFixed(1)}%`}>
+                  <div className="label">Std Dev</div>
+                  <div className="num">{result.count > 1 ? msToHMS(result.sdMs) : "—"}</div>
+                </div>
+                <div className="kpi" title={result.count > 1 ? `t = ${result.t.toFixed(3)}` : undefined}>
+                  <div className="label">{confidence * 100}% Interval</div>
+                  <div className="num" style={{ fontSize: 14 }}>
+                    {result.count > 1 ? `${msToHMS(result.lowMs)} – ${msToHMS(result.highMs)}` : "—"}
+                  </div>
+                </div>
+                <div className="kpi">
+                  <div className="label">Accuracy Now</div>
+                  <div className="num">{result.accuracy != null ? `±${(result.accuracy * 100).toFixed(1)}%` : "—"}</div>
+                </div>
+                <div className="kpi" title={result.required != null ? `${result.required} observations needed in total` : undefined}>
+                  <div className="label">More Needed</div>
+                  <div className="num">{result.additional ?? "—"}</div>
+                </div>
+              </div>
+
+              <p style={{ margin: "10px 0" }}>
+                {result.additional == null
+                  ? "At least two studies are needed to estimate the variation."
+                  : result.additional === 0
+                    ? `Enough observations: the mean is within ±${accuracyPct}% at ${confidence * 100}% confidence.`
+                    : `Time ${result.additional} more ${result.additional === 1 ? "study" : "studies"} (${result.required} in total) to reach ±${accuracyPct}% at ${confidence * 100}% confidence.`}
+              </p>
+
+              <div className="table-wrap" style={{ maxHeight: "40vh" }}>
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Date</th>
+                      <th>Location</th>
+                      <th>Observer</th>
+                      <th>Crew</th>
+                      <th>Touch</th>
+                      <th>vs Mean</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.studies.map((m) => (
+                      <tr key={m.id}>
+                        <td className="mono">
+                          {m.info.date}
+                          {m.id === activeId ? " (open)" : ""}
+                        </td>
+                        <td>{m.info.location || "—"}</td>
+                        <td>{m.info.observer || "—"}</td>
+                        <td className="mono">{m.kpis.employees}</td>
+                        <td className="mono">{msToHMS(m.kpis.touchMs)}</td>
+                        <td className="mono">{signedHMS(m.kpis.touchMs - result.meanMs)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+        <footer>
+          <button className="btn" onClick={onClose}>Close</button>
+        </footer>
+      </div>
+    </div>
+  );
+}
+
+/* ---------- App ---------- */
+function SyncModal({
+  open,
+  rows,
+  activeId,
+  viewOnly,
+  canPush,
+  checkedAt,
+  error,
+  busy,
+  onRefresh,
+  onPush,
+  onPull,
+  onPushAll,
+  onPullAll,
+  onClose,
+}: {
+  open: boolean;
+  rows: SyncRow[];
+  activeId: string;
+  viewOnly: boolean;
+  canPush: boolean; // observer or admin role
+  checkedAt: number | null;
+  error: string | null;
+  busy: boolean;
+  onRefresh: () => void;
+  onPush: (row: SyncRow, force: boolean) => void;
+  onPull: (row: SyncRow) => void;
+  onPushAll: () => void;
+  onPullAll: () => void;
+  onClose: () => void;
+}) {
+  if (!open) return null;
+  const toPush = rows.filter((r) => r.status === "local" || r.status === "ahead").length;
+  const toPull = rows.filter((r) => (r.status === "remote" || r.status === "behind") && !(viewOnly && r.id === activeId)).length;
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" style={{ width: "min(1000px,96vw)" }} onClick={(e) => e.stopPropagation()}>
+        <header>
+          <h3>Sync with team server</h3>
+          <span className="meta" style={{ marginLeft: "auto" }}>
+            {checkedAt ? `Checked ${fmtStamp(checkedAt, false)}` : "Not checked yet"}
+          </span>
+        </header>
+        <div className="body">
+          <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            <button className="btn" onClick={onRefresh} disabled={busy}>Refresh</button>
+            <button className="btn blue" onClick={onPushAll} disabled={busy || !!error || !canPush || !toPush} title="Upload every study that is new or changed on this device">
+              Push all ({toPush})
+            </button>
+            <button className="btn green" onClick={onPullAll} disabled={busy || !!error || !toPull} title="Download every study that is new or newer on the server">
+              Pull all ({toPull})
+            </button>
+            <span className="meta" style={{ marginLeft: "auto" }}>Conflicts are left for you to resolve one by one.</span>
+          </div>
+          {error && (
+            <p className="save-warning" role="alert" style={{ margin: 0 }}>
+              <b>Sync unavailable.</b> {error} Studies stay on this device.
+            </p>
+          )}
+          <div className="table-wrap" style={{ maxHeight: "52vh" }}>
+            <table>
+              <thead>
+                <tr>
+                  <th>Study</th>
+                  <th>Date</th>
+                  <th>Saved here</th>
+                  <th>On server</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => {
+                  const lockedHere = viewOnly && r.id === activeId;
+                  return (
+                    <tr key={r.id}>
+                      <td>
+                        <div style={{ fontWeight: 700 }}>{studyTitle(r.info)}</div>
+                        <div className="meta">
+                          {r.info.observer || "—"}
+                          {r.id === activeId ? " · open" : ""}
+                        </div>
+                      </td>
+                      <td className="mono">{r.info.date}</td>
+                      <td className="mono">{r.local ? fmtStamp(r.local.updatedAt, true) : "—"}</td>
+                      <td className="mono">{r.remote ? `rev ${r.remote.rev} · ${fmtStamp(r.remote.updatedAt, true)}` : "—"}</td>
+                      <td>
+                        <span className="sync-state" data-status={r.status}>{SYNC_STATUS_LABELS[r.status]}</span>
+                      </td>
+                      <td style={{ whiteSpace: "nowrap" }}>
+                        {(r.status === "local" || r.status === "ahead") && (
+                          <button className="btn blue" onClick={() => onPush(r, false)} disabled={busy || !!error || !canPush}>Push</button>
+                        )}
+                        {(r.status === "remote" || r.status === "behind") && (
+                          <button className="btn green" onClick={() => onPull(r)} disabled={busy || !!error || lockedHere}>Pull</button>
+                        )}
+                        {r.status === "conflict" && (
+                          <>
+                            <button className="btn yellow" onClick={() => onPush(r, true)} disabled={busy || !!error || !canPush} title="Replace the server copy with this device's copy">
+                              Keep mine
+                            </button>
+                            <button className="btn ghost" style={{ marginLeft: 6 }} onClick={() => onPull(r)} disabled={busy || !!error || lockedHere} title="Replace this device's copy with the server copy">
+                              Take server's
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="meta">(no studies)</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <footer>
+          <button className="btn" onClick={onClose}>Close</button>
+        </footer>
+      </div>
+    </div>
+  );
+}
+
+function ImportIssuesModal({ open, fileName, issues, onClose }: { open: boolean; fileName: string; issues: ImportIssue[]; onClose: () => void }) {
+  if (!open) return null;
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" style={{ width: "min(760px,96vw)" }} onClick={(e) => e.stopPropagation()}>
+        <header>
+          <h3>Import warnings</h3>
+          <span className="meta" style={{ marginLeft: "auto" }}>{fileName}</span>
+        </header>
+        <div className="body">
+          <p style={{ marginTop: 0 }}>
+            The study was imported, but {issues.length} {issues.length === 1 ? "row was" : "rows were"} skipped or need a look.
+          </p>
+          <div className="table-wrap" style={{ maxHeight: "50vh" }}>
+            <table>
+              <thead>
+                <tr>
+                  <th>Sheet</th>
+                  <th>Row</th>
+                  <th>Problem</th>
+                </tr>
+              </thead>
+              <tbody>
+                {issues.map((iss, i) => (
+                  <tr key={i}>
+                    <td>{iss.sheet}</td>
+                    <td className="mono">{iss.row || "—"}</td>
+                    <td>{iss.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <footer>
+          <button className="btn" onClick={onClose}>Close</button>
+        </footer>
+      </div>
+    </div>
+  );
+}
+
+function ConfirmModal({ open, title, body, confirmText = "Yes", cancelText = "Cancel", onCancel, onConfirm }: {
+  open: boolean;
+  title: string;
+  body: string;
+  confirmText?: string;
+  cancelText?: string;
+  onCancel: () => void;
+  onConfirm: () => void;
+}) {
+  if (!open) return null;
+  return (
+    <div className="modal-backdrop" onClick={onCancel}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <header><h3>{title}</h3></header>
+        <div className="body"><p style={{ margin: 0 }}>{body}</p></div>
+        <footer>
+          <button className="btn" onClick={onCancel}>{cancelText}</button>
+          <button className="btn red" onClick={onConfirm}>{confirmText}</button>
+        </footer>
+      </div>
+    </div>
+  );
+}
+
+function UndoToast({ open, text, onUndo, onClose }: { open: boolean; text: string; onUndo?: () => void; onClose: () => void }) {
+  // Use theme from outer scope if available, else fallback to dark
+  // We'll use a prop if passed, but here, access theme via a context or prop if available
+  // For this app, we can access theme via a variable in parent component
+  // So we will forward isDarkMode as a prop in usage below
+  // For now, let's assume we can access window.document.documentElement.dataset.theme
+  let isDarkMode = false;
+  try {
+    isDarkMode = document?.documentElement?.dataset?.theme === "dark";
+  } catch {}
+  if (!open) return null;
+  return (
+    <div style={{
+      position: "fixed", right: 16, bottom: 16, zIndex: 1000,
+      background: isDarkMode ? "#111a34" : "#f5f5f5",
+      color: isDarkMode ? "#fff" : "#000",
+      border: isDarkMode ? "1px solid #2a3560" : "1px solid #ccc",
+      borderRadius: 10, padding: "10px 12px", boxShadow: "0 6px 24px rgba(0,0,0,.15)",
+      display: "flex", gap: 8, alignItems: "center"
+    }}>
+      <span>{text}</span>
+      {onUndo && <button className="btn yellow" onClick={onUndo}>Undo</button>}
+      <button
+        className="btn ghost"
+        style={{
+          backgroundColor: isDarkMode ? "var(--dark-bg-color)" : "#f5f5f5",
+          color: isDarkMode ? "#fff" : "#000"
+        }}
+        onClick={onClose}
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
+
+export default function WorkMeasurementApp({ initial }: { initial: InitialStudy }) {
+  const [studyId, setStudyId] = useState(initial.id);
+  const [info, setInfo] = useState<AppInfo>(initial.state.info);
+  const [employees, setEmployees] = useState<Employee[]>(initial.state.employees);
+  const [taskLog, setTaskLog] = useState<TaskEntry[]>(initial.state.taskLog);
+  const [timeLog, setTimeLog] = useState<TimeLogEntry[]>(initial.state.timeLog);
+  const [photos, setPhotos] = useState<PhotoItem[]>(initial.state.photos);
+  const [samples, setSamples] = useState<SampleObservation[]>(initial.state.samples);
+
+  // --- Theme (light/dark) ---
+  const [theme, setTheme] = useState<ThemeMode>(() => {
+    try {
+      const saved = localStorage.getItem(THEME_KEY) as ThemeMode | null;
+      if (saved === "light" || saved === "dark") return saved;
+    } catch {}
+    return getSystemTheme();
+  });
+
+  useEffect(() => {
+    // apply to <html data-theme="...">
+    try {
+      document.documentElement.dataset.theme = theme;
+      localStorage.setItem(THEME_KEY, theme);
+    } catch {}
+  }, [theme]);
+
+  const toggleTheme = () => setTheme((t) => (t === "light" ? "dark" : "light"));
+  // Memoized normalized photos for report export
+  const reportPhotos = React.useMemo(
+    () =>
+      photos.map((p) => ({
+        data: p.dataUrl,
+        // Use customName if available, else fallback to generated or original name
+        name: p.customName || p.name || "",
+        caption: p.caption || "",
+      })),
+    [photos]
+  );
+
+  // --- Photo rename UI state ---
+  const [editingPhotoId, setEditingPhotoId] = useState<number | null>(null);
+  const [tempPhotoName, setTempPhotoName] = useState("");
+
+  function beginRenamePhoto(p: PhotoItem) {
+    setEditingPhotoId(p.id);
+    setTempPhotoName(p.customName || p.name || "");
+  }
+  function cancelRenamePhoto() {
+    setEditingPhotoId(null);
+    setTempPhotoName("");
+  }
+  function confirmRenamePhoto() {
+    if (editingPhotoId == null) return;
+    const newName = tempPhotoName.trim();
+    setPhotos(prev =>
+      prev.map(ph => ph.id === editingPhotoId ? { ...ph, customName: newName || ph.customName || ph.name } : ph)
+    );
+    setEditingPhotoId(null);
+    setTempPhotoName("");
+  }
+
+  const [employeeName, setEmployeeName] = useState("");
+  const [note, setNote] = useState("");
+
+  // --- Task Log editing state ---
+  const [editingEntry, setEditingEntry] = useState<{ id: number; at: number; text: string } | null>(null);
+  const startEditTaskNote = (entry: TaskEntry) => {
+    setEditingEntry({ id: entry.id, at: entry.at, text: entry.text });
+  };
+  const onEditTaskNoteChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    if (!editingEntry) return;
+    setEditingEntry({ ...editingEntry, text: e.target.value });
+  };
+  const saveTaskNoteEdit = () => {
+    if (!editingEntry) return;
+    setTaskLog(prev => prev.map(en => en.id === editingEntry.id ? { ...en, text: editingEntry.text } : en));
+    setEditingEntry(null);
+  };
+  // --- Time Log editing state (id null = inserting a missing event) ---
+  const [editingTime, setEditingTime] = useState<{
+    id: number | null;
+    employeeId: number | null;
+    event: TimeEvent;
+    when: string; // datetime-local value
+    reason: string;
+    comment: string;
+    elementId?: number; // "element" events
+    error: string;
+  } | null>(null);
+
+  function startEditTimeEntry(t: TimeLogEntry) {
+    setEditingTime({
+      id: t.id,
+      employeeId: t.employeeId,
+      event: t.event,
+      when: toLocalInput(t.at, info.timeZone),
+      reason: t.reasonCode || "",
+      comment: t.comment || "",
+      elementId: t.elementId,
+      error: "",
+    });
+  }
+  function startInsertTimeEntry() {
+    setEditingTime({
+      id: null,
+      employeeId: employees[0]?.id ?? null,
+      event: "start",
+      when: toLocalInput(clockNow(), info.timeZone),
+      reason: "",
+      comment: "",
+      error: "",
+    });
+  }
+  function onEditTimeChange(field: "reason" | "comment" | "when", value: string) {
+    if (!editingTime) return;
+    setEditingTime({ ...editingTime, [field]: value, error: "" });
+  }
+  function saveTimeEdit() {
+    if (!editingTime) return;
+    // The input only holds whole seconds: keep the exact recorded time unless "When" was changed.
+    const original = editingTime.id != null ? timeLog.find((t) => t.id === editingTime.id) : undefined;
+    const unchanged = original != null && editingTime.when === toLocalInput(original.at, info.timeZone);
+    const at = unchanged ? original.at : fromLocalInput(editingTime.when, info.timeZone);
+    if (at == null) return setEditingTime({ ...editingTime, error: "Enter a valid date and time." });
+    if (!unchanged && at > clockNow()) return setEditingTime({ ...editingTime, error: "The time can't be in the future." });
+
+    let next: TimeLogEntry[];
+    if (editingTime.id == null) {
+      const emp = employees.find((e) => e.id === editingTime.employeeId);
+      if (!emp) return setEditingTime({ ...editingTime, error: "Choose an employee." });
+      let id = Date.now();
+      while (timeLog.some((t) => t.id === id)) id++;
+      next = [
+        ...timeLog,
+        {
+          id,
+          at,
+          employeeId: emp.id,
+          employeeName: emp.name,
+          event: editingTime.event,
+          reasonCode: editingTime.event === "pause" || editingTime.event === "stop" ? editingTime.reason.trim() || undefined : undefined,
+          comment: editingTime.comment.trim() || undefined,
+          elementId: editingTime.event === "element" ? editingTime.elementId : undefined,
+        },
+      ].sort((a, b) => a.at - b.at);
+    } else {
+      next = timeLog.map((t) =>
+        t.id === editingTime.id
+          ? t.event === "element"
+            ? { ...t, at, elementId: editingTime.elementId, comment: editingTime.comment.trim() }
+            : { ...t, at, reasonCode: editingTime.reason.trim(), comment: editingTime.comment.trim() }
+          : t,
+      );
+    }
+
+    // Only the affected employee's sequence has to hold; entries without an id aren't replayed.
+    if (editingTime.employeeId != null) {
+      const issues = timeLogIssues(next, [editingTime.employeeId]);
+      if (issues.length) {
+        const list = issues.map((i) => `${fmtStamp(i.entry.at, true, info.timeZone)} — ${i.message}`).join("; ");
+        return setEditingTime({ ...editingTime, error: `This change would leave an invalid sequence: ${list}.` });
+      }
+    }
+    setNowMs(clockNow());
+    setTimeLog(next);
+    setEditingTime(null);
+  }
+  function cancelTimeEdit() {
+    setEditingTime(null);
+  }
+  const cancelTaskNoteEdit = () => setEditingEntry(null);
+  // --- AI summary loading state ---
+  const [aiBusy, setAiBusy] = useState(false);
+  // AI summary requested without a connection; retried when the browser is back online.
+  const [aiQueued, setAiQueued] = useState(false);
+  // Signed-in user (Static Web Apps auth, see Auth.ts); checked again whenever the connection returns.
+  const [principal, setPrincipal] = useState<Principal | null>(currentPrincipal);
+  const [online, setOnline] = useState(() => !isOffline());
+  useEffect(() => {
+    const update = () => {
+      setOnline(!isOffline());
+      if (!isOffline()) loadPrincipal().then(setPrincipal);
+    };
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+  const canSummarize = hasRole(principal, "observer", "analyst", "admin");
+
+  const [confirmBox, setConfirmBox] = useState<{
+    open: boolean; title: string; body: string; confirmText?: string; cancelText?: string; onConfirm: () => void;
+  } | null>(null);
+
+  const [toast, setToast] = useState<{ open: boolean; text: string; undo?: () => void } | null>(null);
+
+  function showToast(text: string, undo?: () => void) {
+    setToast({ open: true, text, undo });
+    setTimeout(() => setToast((t) => (t ? { ...t, open: false } : t)), 6000);
+  }
+
+  // “Other…” reveal controls for General Info
+  const [typeOther, setTypeOther] = useState("");
+  const [workTypeOther, setWorkTypeOther] = useState("");
+
+  // Sorting toggles
+  const [sortNewestFirst, setSortNewestFirst] = useState(true);
   const [sortTimeNewestFirst] = useState(true);
 
   // Help + reason modal state
   const [showHelp, setShowHelp] = useState(false);
   const [exportOpen, setExportOpen] = useState(false);
   const toggleExport = () => setExportOpen((v) => !v);
-  const [pendingReason, setPendingReason] = useState<{ action: "pause" | "stop"; id: number } | null>(null);
+  const [pendingReason, setPendingReason] = useState<{ action: "pause" | "stop"; ids: number[] } | null>(null);
+  // Reason catalog (per device, shared by every study)
+  const [reasons, setReasons] = useState<ReasonCode[]>(loadReasons);
+  const [reasonsOpen, setReasonsOpen] = useState(false);
+  const saveReasonCatalog = (next: ReasonCode[]) => {
+    setReasons(next);
+    saveReasons(next);
+    setReasonsOpen(false);
+  };
   const menuRef = useRef<HTMLDivElement | null>(null);
   useEffect(() => {
     if (!exportOpen) return;
@@ -889,10 +1955,64 @@ function cancelTimeEdit() {
     return () => document.removeEventListener("mousedown", onDocClick);
   }, [exportOpen]);
   
-  // Persist
+  // Persist (KPIs are read through a ref so the ticking clock doesn't trigger saves). Only the tab
+  // that owns the study saves; see TabSync.ts. The role is kept with the study it was granted for, so
+  // a switched-to study is "pending" in the same render that loads it and nothing saves into it early.
+  const [lockRole, setLockRole] = useState<{ studyId: string; role: TabRole }>({ studyId: initial.id, role: "pending" });
+  const tabRole = lockRole.studyId === studyId ? lockRole.role : "pending";
+  const viewOnly = tabRole === "viewer";
+  const kpiRef = useRef<StudyKPIs | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(initial.error ?? null);
+  const afterSaveRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    if (tabRole !== "owner") return;
+    let cancelled = false;
+    saveStudy(studyId, { schemaVersion: SCHEMA_VERSION, info, employees, taskLog, timeLog, photos, samples }, kpiRef.current ?? {
+      actualMs: 0, touchMs: 0, idleMs: 0, utilization: 0, crewHours: 0, idleRatio: 0, employees: employees.length,
+    })
+      .then(() => {
+        announceSave(studyId);
+        afterSaveRef.current();
+        if (!cancelled) setSaveError(null);
+      })
+      .catch((err) => {
+        console.error("Save failed", err);
+        if (!cancelled) setSaveError(describeSaveError(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tabRole, studyId, info, employees, taskLog, timeLog, photos, samples]);
+
+  // Another tab owning the study makes this one a viewer that follows its saves. Becoming the owner
+  // (the other tab closed, or Take over) reloads first so nothing saved there is overwritten.
+  const reloadRef = useRef<(role?: TabRole) => void>(() => {});
+  reloadRef.current = (role) => {
+    const id = studyId;
+    loadStudy(id)
+      .then((state) => {
+        if (state) applyState(state);
+      })
+      .catch((err) => console.error("Could not reload study", err))
+      .finally(() => role && setLockRole({ studyId: id, role }));
+  };
+  const takeOverRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    let wasViewer = false;
+    const lock = lockStudy(studyId, (role) => {
+      if (role === "owner" && wasViewer) reloadRef.current("owner");
+      else setLockRole({ studyId, role });
+      wasViewer = role === "viewer";
+    });
+    takeOverRef.current = lock.takeOver;
+    return lock.release;
+  }, [studyId]);
   useEffect(() => {
-    safeSave({ info, employees, taskLog, timeLog, photos });
-  }, [info, employees, taskLog, timeLog, photos]);
+    if (!viewOnly) return;
+    return onStudySaved((id) => {
+      if (id === studyId) reloadRef.current();
+    });
+  }, [viewOnly, studyId]);
   // --- Photos: handlers ---
   // Optionally allow user to provide a mapping of filenames to custom names (future extensibility)
   // For now, generate sequential names: "Audit_Photo_1.png", etc.
@@ -950,38 +2070,115 @@ function cancelTimeEdit() {
   }
   useEffect(() => {
   try {
-    if (info.observer && info.observer.trim()) {
+    if (!principal && info.observer && info.observer.trim()) {
       localStorage.setItem(LAST_OBSERVER_KEY, info.observer.trim());
     }
   } catch {}
-}, [info.observer]);
+}, [principal, info.observer]);
+  // Signed in: an open study without an observer gets the user's name (new studies start with it).
+  useEffect(() => {
+    if (principal?.userDetails && tabRole === "owner") {
+      setInfo((prev) => ((prev.observer || "").trim() ? prev : { ...prev, observer: principal.userDetails }));
+    }
+  }, [principal, tabRole, studyId]);
 
   // Ticking
-  const [nowMs, setNowMs] = useState(() => Date.now());
-  const anyRunningOrPaused = useMemo(
-    () => employees.some((e) => e.status === "active" || e.status === "paused"),
-    [employees],
-  );
+  const [nowMs, setNowMs] = useState(() => clockNow());
+
+  // Time math (replayed from the time log by the shared metrics engine)
+  const metrics = useMemo(() => computeMetrics({ employees, timeLog, info, reasons }, nowMs), [employees, timeLog, info, reasons, nowMs]);
+  const anyRunningOrPaused = metrics.anyEngaged;
+  // Work sampling keeps the clock ticking while prompts are still to come.
+  const samplingOn = info.mode === "sampling";
+  const promptsAhead = samplingOn && info.sampling.times.some((t) => t > nowMs);
   useEffect(() => {
-    if (!anyRunningOrPaused) return;
-    const t = setInterval(() => setNowMs(Date.now()), 1000);
+    if (!anyRunningOrPaused && !promptsAhead) return;
+    const t = setInterval(() => setNowMs(clockNow()), 1000);
     return () => clearInterval(t);
-  }, [anyRunningOrPaused]);
-
-  // Time math
-  const liveTimes = (e: Employee) => {
-    const active = e.status === "active" && e.startTime ? e.elapsedTime + (nowMs - e.startTime) : e.elapsedTime;
-    const idle = e.status === "paused" && e.lastPausedAt ? e.pausedAccum + (nowMs - e.lastPausedAt) : e.pausedAccum;
-    return { active, idle, total: active + idle };
-  };
+  }, [anyRunningOrPaused, promptsAhead]);
+  const cycleByLap = useMemo(() => new Map(metrics.cycles.map((c) => [c.lapId, c])), [metrics.cycles]);
+  const liveTimes = (e: Employee): EmployeeMetrics =>
+    metrics.employees.find((m) => m.id === e.id) ?? { id: e.id, name: e.name, ...NO_TIMES, plannedIdle: 0, unplannedIdle: 0, rating: e.rating ?? 100, normal: 0, sessions: 0, cycles: EMPTY_STATS };
 
   const appendTimeLog = (entry: Omit<TimeLogEntry, "id" | "at"> & { at?: number }) => {
+    setNowMs(clockNow());
     setTimeLog((prev) => {
-      const at = entry.at ?? Date.now();
+      const at = entry.at ?? clockNow();
       const last = prev[prev.length - 1];
       if (last && last.employeeId === entry.employeeId && last.event === entry.event && at - last.at <= 400) return prev;
-      const { employeeId, employeeName, event, reasonCode, comment } = entry;
-      return [...prev, { id: at, at, employeeId, employeeName, event, reasonCode, comment }];
+      const { employeeId, employeeName, event, reasonCode, comment, elementId, gapKind, gapMs, gapDecision } = entry;
+      // Crew-wide actions log several entries at the same instant; ids stay unique.
+      let id = at;
+      while (prev.some((t) => t.id === id)) id++;
+      return [...prev, { id, at, employeeId, employeeName, event, reasonCode, comment, elementId, gapKind, gapMs, gapDecision }];
+    });
+  };
+
+  /* ---------- Clock gaps (sleep, frozen tab, device clock changes) ---------- */
+  // Watched only while someone is Active/Paused; nothing else depends on elapsed time.
+  const [clockGap, setClockGap] = useState<ClockGap | null>(null);
+  useEffect(() => {
+    if (!anyRunningOrPaused || clockGap || tabRole !== "owner") return;
+    watchClock();
+    let hidden = document.hidden;
+    const check = () => {
+      const gap = checkClock(hidden);
+      hidden = document.hidden;
+      if (gap) setClockGap(gap);
+    };
+    const onVisibility = () => {
+      if (document.hidden) hidden = true;
+      else check();
+    };
+    const t = setInterval(check, 1000);
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      clearInterval(t);
+      document.removeEventListener("visibilitychange", onVisibility);
+    };
+  }, [anyRunningOrPaused, clockGap, tabRole]);
+
+  const resolveClockGap = (decision: GapDecision) => {
+    const gap = clockGap;
+    if (!gap) return;
+    setClockGap(null);
+    let at = gap.to;
+    if (decision === "shifted") {
+      // The sampling plan isn't moved; see shiftTimes.
+      const moved = shiftTimes({ timeLog, taskLog, samples }, gap.to - gap.from);
+      setTimeLog(moved.timeLog);
+      setTaskLog(moved.taskLog);
+      setSamples(moved.samples);
+      adoptDeviceClock();
+    } else if (decision === "kept") {
+      acceptDrift();
+      at = gap.from;
+    } else {
+      resync();
+    }
+    // Nothing was logged during the gap, so whoever is Active now was Active when it began.
+    if (decision === "paused") {
+      metrics.employees
+        .filter((m) => m.status === "active")
+        .forEach((m) => {
+          appendTimeLog({ employeeId: m.id, employeeName: m.name, event: "pause", reasonCode: GAP_REASON, at: gap.from });
+          appendTimeLog({ employeeId: m.id, employeeName: m.name, event: "start", at: gap.to });
+        });
+    }
+    const what =
+      gap.kind === "suspend"
+        ? `App not running for ${msToHMS(gap.ms)}`
+        : `Device clock ${gap.ms > 0 ? "moved forward" : "set back"} ${msToHMS(Math.abs(gap.ms))}`;
+    const how = GAP_CHOICES[gap.kind].find((c) => c.decision === decision)?.label ?? decision;
+    appendTimeLog({
+      employeeId: null,
+      employeeName: "Crew",
+      event: "gap",
+      comment: `${what} — ${how}`,
+      gapKind: gap.kind,
+      gapMs: gap.ms,
+      gapDecision: decision,
+      at,
     });
   };
 
@@ -993,13 +2190,87 @@ function cancelTimeEdit() {
         ...prev,
         multiDay: checked,
         // When turning multi‑day on, if endDate is empty, seed it with start date (or today)
-        endDate: checked ? (prev.endDate || prev.date || todayISO()) : prev.endDate,
+        endDate: checked ? (prev.endDate || prev.date || todayISO(prev.timeZone)) : prev.endDate,
       }));
       return;
     }
     setInfo((prev) => ({ ...prev, [name]: value }));
   };
 
+  const addShiftBreak = () =>
+    setInfo((prev) => ({
+      ...prev,
+      shift: { ...prev.shift, breaks: [...prev.shift.breaks, { id: Date.now(), label: "Break", start: "", end: "" }] },
+    }));
+  const updateShiftBreak = (id: number, patch: Partial<ShiftBreak>) =>
+    setInfo((prev) => ({
+      ...prev,
+      shift: { ...prev.shift, breaks: prev.shift.breaks.map((b) => (b.id === id ? { ...b, ...patch } : b)) },
+    }));
+  const removeShiftBreak = (id: number) =>
+    setInfo((prev) => ({ ...prev, shift: { ...prev.shift, breaks: prev.shift.breaks.filter((b) => b.id !== id) } }));
+
+  /* ---------- Work elements ---------- */
+  const [newElementName, setNewElementName] = useState("");
+  const elementById = useMemo(() => new Map(info.elements.map((el) => [el.id, el])), [info.elements]);
+  const elementNow = useMemo(() => currentElements(timeLog), [timeLog]);
+  const elementLabel = (id: number | undefined) => (id == null ? "(none)" : (elementById.get(id)?.name ?? "(removed element)"));
+
+  const addElement = () => {
+    const name = newElementName.trim();
+    if (!name) return;
+    setInfo((prev) => ({
+      ...prev,
+      elements: [...prev.elements, { id: Math.max(0, ...prev.elements.map((el) => el.id)) + 1, name }],
+    }));
+    setNewElementName("");
+  };
+  const renameElement = (id: number, name: string) =>
+    setInfo((prev) => ({ ...prev, elements: prev.elements.map((el) => (el.id === id ? { ...el, name } : el)) }));
+  const rateElement = (id: number, value: string) => {
+    const n = Number(value);
+    const rating = value !== "" && Number.isFinite(n) && n >= 1 && n <= 300 ? n : undefined;
+    setInfo((prev) => ({ ...prev, elements: prev.elements.map((el) => (el.id === id ? { ...el, rating } : el)) }));
+  };
+  const moveElement = (id: number, dir: -1 | 1) =>
+    setInfo((prev) => {
+      const i = prev.elements.findIndex((el) => el.id === id);
+      const j = i + dir;
+      if (i < 0 || j < 0 || j >= prev.elements.length) return prev;
+      const elements = [...prev.elements];
+      [elements[i], elements[j]] = [elements[j], elements[i]];
+      return { ...prev, elements };
+    });
+  const removeElement = (id: number) => {
+    const el = info.elements.find((x) => x.id === id);
+    if (!el) return;
+    const remove = () => setInfo((prev) => ({ ...prev, elements: prev.elements.filter((x) => x.id !== id) }));
+    if (!timeLog.some((t) => t.event === "element" && t.elementId === id)) return remove();
+    setConfirmBox({
+      open: true,
+      title: "Remove work element",
+      body: `"${el.name}" has been timed. Removing it drops its time from the element breakdown.`,
+      confirmText: "Remove",
+      cancelText: "Cancel",
+      onConfirm: () => {
+        remove();
+        setConfirmBox(null);
+      },
+    });
+  };
+
+  // Move an employee onto a work element; time counts toward it while they are Active.
+  const switchElement = (empId: number, elementId: number | undefined) => {
+    const emp = employees.find((e) => e.id === empId);
+    if (!emp || elementNow.get(emp.id) === elementId) return;
+    appendTimeLog({ employeeId: emp.id, employeeName: emp.name, event: "element", elementId });
+    setEmployees((prev) =>
+      prev.map((e) =>
+        e.id === empId ? { ...e, logs: [...e.logs, `Element "${elementLabel(elementId)}" at ${new Date().toLocaleTimeString()}`] } : e,
+      ),
+    );
+  };
+
   /* ---------- Employees ---------- */
   const addEmployee = () => {
     const name = employeeName.trim();
@@ -1009,11 +2280,6 @@ function cancelTimeEdit() {
       {
         id: Date.now(),
         name,
-        status: "idle",
-        startTime: null,
-        elapsedTime: 0,
-        pausedAccum: 0,
-        lastPausedAt: null,
         logs: [],
         role: "Mechanic",
         skill: "A&P",
@@ -1037,113 +2303,159 @@ function cancelTimeEdit() {
       appendTimeLog({ employeeId: emp.id, employeeName: emp.name, event: "deleted" });
       setEmployees((prev) => prev.filter((e) => e.id !== id));
       setConfirmBox(null);
-      showToast(`Removed ${emp.name}`, () => setEmployees(prevEmployees));
+      showToast(`Removed ${emp.name}`, () => {
+        setEmployees(prevEmployees);
+        setTimeLog((p) => p.filter((t) => !(t.employeeId === emp.id && t.event === "deleted")));
+      });
     }
   });
 };
 
-  const startTimer = (id: number) => {
+  // One shared timestamp for every employee started together.
+  const startTimers = (ids: number[]) => {
+    const crew = employees.filter((e) => ids.includes(e.id) && liveTimes(e).status !== "active");
+    if (!crew.length) return;
+    const at = clockNow();
+    crew.forEach((emp) => appendTimeLog({ employeeId: emp.id, employeeName: emp.name, event: "start", at }));
+    setEmployees((prev) =>
+      prev.map((e) => (crew.some((c) => c.id === e.id) ? { ...e, logs: [...e.logs, `Started at ${new Date(at).toLocaleTimeString()}`] } : e)),
+    );
+    if (crew.length > 1) showToast(`Started ${crew.length} employees`);
+  };
+  const startTimer = (id: number) => startTimers([id]);
+
+  // Cycle boundary for repetitive work: closes the current cycle without pausing the employee.
+  const lapTimer = (id: number) => {
     const emp = employees.find((e) => e.id === id);
-    if (!emp || emp.status === "active") return;
-    appendTimeLog({ employeeId: emp.id, employeeName: emp.name, event: "start" });
+    if (!emp || liveTimes(emp).status !== "active") return;
+    appendTimeLog({ employeeId: emp.id, employeeName: emp.name, event: "lap" });
     setEmployees((prev) =>
-      prev.map((e) => {
-        if (e.id !== id) return e;
-        let pausedAccum = e.pausedAccum;
-        if (e.status === "paused" && e.lastPausedAt) pausedAccum += Date.now() - e.lastPausedAt;
-        return {
-          ...e,
-          status: "active",
-          startTime: Date.now(),
-          lastPausedAt: null,
-          pausedAccum,
-          logs: [...e.logs, `Started at ${new Date().toLocaleTimeString()}`],
-        };
-      }),
+      prev.map((e) => (e.id === id ? { ...e, logs: [...e.logs, `Lap at ${new Date().toLocaleTimeString()}`] } : e)),
     );
   };
 
-  const requestPause = (id: number) => setPendingReason({ action: "pause", id });
-  const requestStop = (id: number) => setPendingReason({ action: "stop", id });
+  // Employees a Pause / Stop would apply to right now (Pause needs Active, Stop needs Active or Paused).
+  const eligibleFor = (action: "pause" | "stop", ids: number[]) =>
+    employees.filter((e) => ids.includes(e.id) && (action === "pause" ? liveTimes(e).status === "active" : liveTimes(e).status !== "idle"));
+
+  const requestPause = (id: number) => setPendingReason({ action: "pause", ids: [id] });
+  const requestStop = (id: number) => setPendingReason({ action: "stop", ids: [id] });
+  const requestBulk = (action: "pause" | "stop", ids: number[]) => {
+    const crew = eligibleFor(action, ids);
+    if (crew.length) setPendingReason({ action, ids: crew.map((e) => e.id) });
+  };
 
+  // One reason, comment and timestamp shared by every employee in the request.
   const confirmReason = (reasonCode: string, comment: string) => {
     if (!pendingReason) return;
-    const { action, id } = pendingReason;
-    const emp = employees.find((e) => e.id === id);
-    if (!emp) {
-      setPendingReason(null);
-      return;
-    }
-    if (action === "pause") {
-      if (emp.status !== "active" || !emp.startTime) {
-        setPendingReason(null);
-        return;
-      }
-      appendTimeLog({ employeeId: emp.id, employeeName: emp.name, event: "pause", reasonCode, comment });
-      setEmployees((prev) =>
-        prev.map((e) =>
-          e.id === id
-            ? {
-                ...e,
-                status: "paused",
-                elapsedTime: e.elapsedTime + (Date.now() - e.startTime!),
-                startTime: null,
-                lastPausedAt: Date.now(),
-                logs: [
-                  ...e.logs,
-                  `Paused at ${new Date().toLocaleTimeString()} — ${reasonCode}${comment ? ` (${comment})` : ""}`,
-                ],
-              }
-            : e,
-        ),
-      );
-    } else {
-      if (emp.status !== "active" && emp.status !== "paused") {
-        setPendingReason(null);
-        return;
-      }
-      appendTimeLog({ employeeId: emp.id, employeeName: emp.name, event: "stop", reasonCode, comment });
-      setEmployees((prev) =>
-        prev.map((e) => {
-          if (e.id !== id) return e;
-          if (e.status === "active" && e.startTime) {
-            return {
-              ...e,
-              status: "idle",
-              elapsedTime: e.elapsedTime + (Date.now() - e.startTime),
-              startTime: null,
-              logs: [
-                ...e.logs,
-                `Stopped at ${new Date().toLocaleTimeString()} — ${reasonCode}${comment ? ` (${comment})` : ""}`,
-              ],
-            };
-          }
-          if (e.status === "paused" && e.lastPausedAt) {
-            return {
-              ...e,
-              status: "idle",
-              pausedAccum: e.pausedAccum + (Date.now() - e.lastPausedAt),
-              lastPausedAt: null,
-              logs: [
-                ...e.logs,
-                `Stopped at ${new Date().toLocaleTimeString()} — ${reasonCode}${comment ? ` (${comment})` : ""}`,
-              ],
-            };
-          }
-          return e;
-        }),
-      );
-    }
+    const { action, ids } = pendingReason;
+    const crew = eligibleFor(action, ids);
     setPendingReason(null);
+    if (!crew.length) return;
+    const at = clockNow();
+    crew.forEach((emp) => appendTimeLog({ employeeId: emp.id, employeeName: emp.name, event: action, reasonCode, comment, at }));
+    const verb = action === "pause" ? "Paused" : "Stopped";
+    setEmployees((prev) =>
+      prev.map((e) =>
+        crew.some((c) => c.id === e.id)
+          ? {
+              ...e,
+              logs: [...e.logs, `${verb} at ${new Date(at).toLocaleTimeString()} — ${reasonCode}${comment ? ` (${comment})` : ""}`],
+            }
+          : e,
+      ),
+    );
+    if (crew.length > 1) showToast(`${verb} ${crew.length} employees`);
   };
 
+  /* ---------- Crew selection (bulk Start / Pause / Stop) ---------- */
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const selected = selectedIds.filter((id) => employees.some((e) => e.id === id));
+  const toggleSelected = (id: number) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  const activeIds = metrics.employees.filter((m) => m.status === "active").map((m) => m.id);
+
   const cancelReason = () => setPendingReason(null);
 
+  /* ---------- Work sampling ---------- */
+  const samplingSummary = useMemo(() => summarizeSamples(samples, reasons), [samples, reasons]);
+  const promptDue = samplingOn ? duePrompt(info.sampling, samples, nowMs) : null;
+  const [samplingRound, setSamplingRound] = useState<{ scheduledAt: number | null } | null>(null);
+  const [skippedPrompt, setSkippedPrompt] = useState<number | null>(null);
+  useEffect(() => {
+    if (promptDue == null || promptDue === skippedPrompt || samplingRound || !employees.length || tabRole !== "owner") return;
+    setSamplingRound({ scheduledAt: promptDue });
+    navigator.vibrate?.(300);
+  }, [promptDue, skippedPrompt, samplingRound, employees.length, tabRole]);
+
+  const setSamplingPlan = (patch: Partial<AppInfo["sampling"]>) =>
+    setInfo((prev) => ({ ...prev, sampling: { ...prev.sampling, ...patch } }));
+
+  // Past prompt times stay in the schedule so missed rounds are still counted.
+  const generateSchedule = () => {
+    const now = clockNow();
+    const fresh = samplingTimes(info.sampling, todayISO(info.timeZone), info.timeZone, now);
+    if (!fresh.length) {
+      alert("Set a sampling window (start and end) that hasn't ended yet today.");
+      return;
+    }
+    setSamplingPlan({ times: [...info.sampling.times.filter((t) => t <= now), ...fresh] });
+    setSkippedPrompt(null);
+    setNowMs(now);
+    showToast(`${fresh.length} observation ${fresh.length === 1 ? "round" : "rounds"} scheduled`);
+  };
+  const clearUpcoming = () => {
+    const now = clockNow();
+    setSamplingPlan({ times: info.sampling.times.filter((t) => t <= now) });
+  };
+
+  const recordRound = (rows: { employee: Employee; state: SampleState; reasonCode: string; comment: string }[]) => {
+    const at = clockNow();
+    const round = nextRound(samples);
+    const scheduledAt = samplingRound?.scheduledAt ?? undefined;
+    setSamples((prev) => [
+      ...prev,
+      ...rows.map((r, i) => ({
+        id: at + i,
+        at,
+        round,
+        scheduledAt,
+        employeeId: r.employee.id,
+        employeeName: r.employee.name,
+        state: r.state,
+        reasonCode: r.reasonCode || undefined,
+        comment: r.comment || undefined,
+      })),
+    ]);
+    setSamplingRound(null);
+    setNowMs(at);
+    showToast(`Round ${round} recorded`);
+  };
+  const skipRound = () => {
+    if (samplingRound?.scheduledAt != null) setSkippedPrompt(samplingRound.scheduledAt);
+    setSamplingRound(null);
+  };
+  const deleteRound = (round: number) => {
+    const prev = samples;
+    setConfirmBox({
+      open: true,
+      title: "Delete observation round",
+      body: `Delete round ${round} and its ${samples.filter((x) => x.round === round).length} observations? You can Undo right after.`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      onConfirm: () => {
+        setSamples((list) => list.filter((x) => x.round !== round));
+        setConfirmBox(null);
+        showToast(`Round ${round} deleted`, () => setSamples(prev));
+      },
+    });
+  };
+
   /* ---------- Notes / Logs ---------- */
   const addTaskNote = () => {
     const t = note.trim();
     if (!t) return;
-    const at = Date.now();
+    const at = clockNow();
     setTaskLog((prev) => [...prev, { id: at, at, text: t }]);
     setNote("");
   };
@@ -1200,71 +2512,323 @@ function cancelTimeEdit() {
   };
 
   const clearSaved = () => {
-  const snapshot = { info, employees, taskLog, timeLog, photos };
+  if (viewOnly) return showToast("This study is open in another tab; take over to change it");
+  const snapshot: AppState = { schemaVersion: SCHEMA_VERSION, info, employees, taskLog, timeLog, photos, samples };
 
   setConfirmBox({
     open: true,
     title: "Clear Saved Data",
-    body: "This wipes everything stored in this browser for this app. You can Undo right after if clicked by mistake.",
+    body: "This wipes everything recorded in the current study (other studies in the library are kept). You can Undo right after if clicked by mistake.",
     confirmText: "Clear all",
     cancelText: "Cancel",
     onConfirm: () => {
-      try { localStorage.removeItem(STORAGE_KEY); } catch {}
-      setInfo({
-        date: todayISO(),
-        endDate: "",
-        multiDay: false,
-        location: "",
-        procedure: "",
-        workOrder: "",
-        task: "",
-        type: "Routine",
-        workType: "Inspection",
-        assetId: "",
-        station: "",
-        supervisor: "",
-        estimatedTime: "",
-        observer: localStorage.getItem(LAST_OBSERVER_KEY) || "",
-        summary: "",
-        observationScope: "Full",
-      });
-      setEmployees([]);
-      setTaskLog([]);
-      setTimeLog([]);
-      setPhotos([]);
+      applyState(blankState(lastObserver()));
       setConfirmBox(null);
 
-      showToast("All data cleared", () => {
-        setInfo(snapshot.info);
-        setEmployees(snapshot.employees);
-        setTaskLog(snapshot.taskLog);
-        setTimeLog(snapshot.timeLog);
-        setPhotos(snapshot.photos);
-        try { localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot)); } catch {}
-      });
+      showToast("All data cleared", () => applyState(snapshot));
     }
   });
 };
 
+  /* ---------- Study library ---------- */
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [studies, setStudies] = useState<StudyMeta[]>([]);
+  const [importIssues, setImportIssues] = useState<{ fileName: string; issues: ImportIssue[] } | null>(null);
+  const refreshStudies = async () => {
+    try {
+      setStudies(await listStudies());
+    } catch (err) {
+      console.error("Could not list studies", err);
+      setSaveError(describeSaveError(err));
+    }
+  };
+  const openLibrary = () => {
+    refreshStudies();
+    setLibraryOpen(true);
+  };
+  const [dashboardOpen, setDashboardOpen] = useState(false);
+  const openDashboard = () => {
+    refreshStudies();
+    setDashboardOpen(true);
+  };
+  const [sampleSizeOpen, setSampleSizeOpen] = useState(false);
+  const openSampleSize = () => {
+    refreshStudies();
+    setSampleSizeOpen(true);
+  };
+
+  function applyState(s: AppState) {
+    restoreClock(s.timeLog);
+    setInfo(s.info);
+    setEmployees(s.employees);
+    setTaskLog(s.taskLog);
+    setTimeLog(s.timeLog);
+    setPhotos(s.photos);
+    setSamples(s.samples);
+    setTypeOther(s.info.type && !(TYPE_OPTIONS as readonly string[]).includes(s.info.type) ? s.info.type : "");
+    setWorkTypeOther(s.info.workType && !(WORKTYPE_OPTIONS as readonly string[]).includes(s.info.workType) ? s.info.workType : "");
+    setEditingEntry(null);
+    setEditingTime(null);
+    setPendingReason(null);
+    setAiQueued(false);
+  }
+
+  function switchStudy(id: string, state: AppState) {
+    setActiveStudyId(id);
+    // Its lock (the effect on studyId) decides the role; a role left from an earlier visit doesn't count.
+    if (id !== studyId) setLockRole({ studyId: id, role: "pending" });
+    setStudyId(id);
+    applyState(state);
+  }
+
+  const openStudy = async (id: string) => {
+    let state: AppState | null = null;
+    try {
+      state = await loadStudy(id);
+    } catch (err) {
+      console.error("Could not open study", err);
+      alert(`Could not open this study. ${err instanceof Error ? err.message : ""}`);
+      return;
+    }
+    if (!state) {
+      alert("Could not open this study.");
+      return;
+    }
+    switchStudy(id, state);
+    setLibraryOpen(false);
+    setDashboardOpen(false);
+  };
+
+  const newStudy = async () => {
+    try {
+      const state = blankState(lastObserver());
+      switchStudy(await createStudy(state), state);
+      setLibraryOpen(false);
+      showToast("New study started");
+    } catch (err) {
+      console.error("Could not create study", err);
+      setSaveError(describeSaveError(err));
+    }
+  };
+
+  const importStudy = async (file: File) => {
+    let state: AppState;
+    try {
+      state = parseStudyBundle(await file.text(), lastObserver());
+    } catch (err) {
+      alert(`Could not import "${file.name}". ${err instanceof Error ? err.message : ""}`);
+      return;
+    }
+    try {
+      switchStudy(await createStudy(state), state);
+      setLibraryOpen(false);
+      showToast(`Imported ${studyTitle(state.info)}`);
+    } catch (err) {
+      console.error("Could not save imported study", err);
+      setSaveError(describeSaveError(err));
+    }
+  };
+
+  const importSheets = async (file: File) => {
+    let result: SheetImportResult;
+    try {
+      result = importSheetFile(await file.arrayBuffer(), file.name, lastObserver());
+    } catch (err) {
+      alert(`Could not import "${file.name}". ${err instanceof Error ? err.message : ""}`);
+      return;
+    }
+    try {
+      switchStudy(await createStudy(result.state), result.state);
+      setLibraryOpen(false);
+      if (result.issues.length) setImportIssues({ fileName: file.name, issues: result.issues });
+      else showToast(`Imported ${studyTitle(result.state.info)}`);
+    } catch (err) {
+      console.error("Could not save imported study", err);
+      setSaveError(describeSaveError(err));
+    }
+  };
+
+  const duplicateStudyById = async (id: string) => {
+    try {
+      const nextId = await duplicateStudy(id, info.observer || lastObserver());
+      if (nextId) await openStudy(nextId);
+    } catch (err) {
+      console.error("Could not duplicate study", err);
+      setSaveError(describeSaveError(err));
+    }
+  };
+
+  const archiveStudy = async (id: string, archived: boolean) => {
+    await setStudyArchived(id, archived).catch((err) => setSaveError(describeSaveError(err)));
+    refreshStudies();
+  };
+
+  const deleteStudyById = (id: string) => {
+    const meta = studies.find((m) => m.id === id);
+    setConfirmBox({
+      open: true,
+      title: "Delete study",
+      body: `Delete "${meta ? studyTitle(meta.info) : "this study"}" and all of its data? This cannot be undone.`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      onConfirm: async () => {
+        setConfirmBox(null);
+        try {
+          await deleteStudy(id);
+          if (id === studyId) {
+            const next = (await listStudies())
+              .filter((m) => !m.archived)
+              .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+            const nextState = next ? await loadStudy(next.id) : null;
+            if (next && nextState) {
+              switchStudy(next.id, nextState);
+            } else {
+              const state = blankState(lastObserver());
+              switchStudy(await createStudy(state), state);
+            }
+          }
+        } catch (err) {
+          console.error("Could not delete study", err);
+          setSaveError(describeSaveError(err));
+        }
+        refreshStudies();
+      },
+    });
+  };
+
+  /* ---------- Team sync (optional server, see Sync.ts) ---------- */
+  const [syncOpen, setSyncOpen] = useState(false);
+  const [remoteStudies, setRemoteStudies] = useState<RemoteStudy[] | null>(null); // null: not checked
+  const [syncCheckedAt, setSyncCheckedAt] = useState<number | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncBusy, setSyncBusy] = useState(false);
+  const syncRows = useMemo(() => compareStudies(studies, remoteStudies ?? []), [studies, remoteStudies]);
+  const currentSync: SyncStatus | null = remoteStudies && syncRows.find((r) => r.id === studyId)?.status || null;
+  const refreshRemote = async () => {
+    try {
+      setRemoteStudies(await fetchRemote());
+      setSyncError(null);
+    } catch (err) {
+      if (!(err instanceof SyncUnavailableError)) console.error("Could not list server studies", err);
+      setRemoteStudies(null);
+      setSyncError(err instanceof Error ? err.message : "The sync server can't be reached.");
+    }
+    setSyncCheckedAt(Date.now());
+  };
+  const refreshSync = () => Promise.all([refreshStudies(), refreshRemote()]);
+  const openSync = () => {
+    refreshSync();
+    setSyncOpen(true);
+  };
+  // Once, so the header shows where the open study stands; silent when there is no server.
+  useEffect(() => {
+    refreshSync();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  // Keep the open study's status current as it is edited (only once a server has answered).
+  afterSaveRef.current = () => {
+    if (remoteStudies) refreshStudies();
+  };
+
+  const runSync = async (work: () => Promise<string | null>) => {
+    setSyncBusy(true);
+    try {
+      const note = await work();
+      if (note) showToast(note);
+    } catch (err) {
+      console.error("Sync failed", err);
+      alert(`Sync failed. ${err instanceof Error ? err.message : ""}`);
+    } finally {
+      await refreshSync();
+      setSyncBusy(false);
+    }
+  };
+  const pushOne = async (row: SyncRow, force: boolean) => {
+    const result = await pushStudy(row, force);
+    return result.ok ? null : studyTitle(row.info);
+  };
+  const pullOne = async (row: SyncRow) => {
+    const state = await pullStudy(row.id);
+    if (row.id === studyId) applyState(state);
+    announceSave(row.id);
+  };
+  const pushRow = (row: SyncRow, force: boolean) => {
+    const go = () =>
+      runSync(async () => {
+        const conflict = await pushOne(row, force);
+        return conflict ? `${conflict} was changed on the server meanwhile; it is now marked as a conflict` : `Pushed ${studyTitle(row.info)}`;
+      });
+    if (!force) return go();
+    setConfirmBox({
+      open: true,
+      title: "Keep this device's copy",
+      body: `Replace the server copy of "${studyTitle(row.info)}" with the one on this device? Changes pushed from other devices since your last sync are lost.`,
+      confirmText: "Replace server copy",
+      cancelText: "Cancel",
+      onConfirm: () => {
+        setConfirmBox(null);
+        go();
+      },
+    });
+  };
+  const pullRow = (row: SyncRow) => {
+    const go = () =>
+      runSync(async () => {
+        await pullOne(row);
+        return `Pulled ${studyTitle(row.info)}`;
+      });
+    if (row.status !== "conflict") return go();
+    setConfirmBox({
+      open: true,
+      title: "Take the server's copy",
+      body: `Replace "${studyTitle(row.info)}" on this device with the server copy? Changes made here since your last sync are lost.`,
+      confirmText: "Replace my copy",
+      cancelText: "Cancel",
+      onConfirm: () => {
+        setConfirmBox(null);
+        go();
+      },
+    });
+  };
+  const pushAll = () =>
+    runSync(async () => {
+      const rows = syncRows.filter((r) => r.status === "local" || r.status === "ahead");
+      const conflicts: string[] = [];
+      for (const r of rows) {
+        const conflict = await pushOne(r, false);
+        if (conflict) conflicts.push(conflict);
+      }
+      return conflicts.length
+        ? `Pushed ${rows.length - conflicts.length}; ${conflicts.length} changed on the server meanwhile (${conflicts.join(", ")})`
+        : `Pushed ${rows.length} ${rows.length === 1 ? "study" : "studies"}`;
+    });
+  const pullAll = () =>
+    runSync(async () => {
+      const rows = syncRows.filter((r) => (r.status === "remote" || r.status === "behind") && !(viewOnly && r.id === studyId));
+      for (const r of rows) await pullOne(r);
+      return `Pulled ${rows.length} ${rows.length === 1 ? "study" : "studies"}`;
+    });
+
   /* ---------- Totals / KPIs ---------- */
-  const totalActive = useMemo(
-    () =>
-      employees.reduce(
-        (sum, e) => sum + (e.status === "active" && e.startTime ? e.elapsedTime + (nowMs - e.startTime) : e.elapsedTime),
-        0,
-      ),
-    [employees, nowMs],
-  );
-  const totalIdle = useMemo(
-    () =>
-      employees.reduce(
-        (sum, e) =>
-          sum + (e.status === "paused" && e.lastPausedAt ? e.pausedAccum + (nowMs - e.lastPausedAt) : e.pausedAccum),
-        0,
-      ),
-    [employees, nowMs],
-  );
-  const totalAll = totalActive + totalIdle;
+  const {
+    touchMs: totalActive,
+    idleMs: totalIdle,
+    totalMs: totalAll,
+    actualMs: actualClockMs,
+    utilization,
+    crewHours,
+    idleRatio,
+    daily: dailyBreakdown,
+  } = metrics;
+  kpiRef.current = {
+    actualMs: actualClockMs,
+    touchMs: totalActive,
+    idleMs: totalIdle,
+    utilization,
+    crewHours,
+    idleRatio,
+    employees: employees.length,
+  };
 
   const sortedTaskLog = useMemo(
     () => [...taskLog].sort((a, b) => (sortNewestFirst ? b.at - a.at : a.at - b.at)),
@@ -1275,95 +2839,21 @@ function cancelTimeEdit() {
     [timeLog, sortTimeNewestFirst],
   );
 
-  const firstStartAt = useMemo(() => {
-    const starts = timeLog.filter((t) => t.event === "start").map((t) => t.at);
-    return starts.length ? Math.min(...starts) : null;
-  }, [timeLog]);
-  const lastStopAt = useMemo(() => {
-    const ends = timeLog.filter((t) => t.event === "stop" || t.event === "deleted").map((t) => t.at);
-    return ends.length ? Math.max(...ends) : null;
-  }, [timeLog]);
-
-  const anyEngaged = useMemo(
-    () => employees.some((e) => e.status === "active" || e.status === "paused"),
-    [employees],
-  );
-  const actualClockMs = useMemo(() => {
-    if (!firstStartAt) return 0;
-    const end = anyEngaged ? nowMs : (lastStopAt ?? nowMs);
-    return Math.max(0, end - firstStartAt);
-  }, [firstStartAt, lastStopAt, nowMs, anyEngaged]);
-
-  const utilization = useMemo(() => (actualClockMs ? totalActive / actualClockMs : 0), [totalActive, actualClockMs]);
-  const crewHours = useMemo(() => totalActive / 3_600_000, [totalActive]);
-  const idleRatio = useMemo(() => (totalAll ? totalIdle / totalAll : 0), [totalIdle, totalAll]);
-
-  // Daily breakdown
-  const dailyBreakdown = useMemo(() => {
-    const rows: Record<string, { actualMs: number; touchMs: number; idleMs: number }> = {};
-    const events = [...timeLog].sort((a, b) => a.at - b.at);
-    if (!events.length) return rows;
-
-    const snapshot: Record<number, EmpStatus> = {};
-    const empSet = new Set(events.map((e) => e.employeeId).filter((x): x is number => typeof x === "number"));
-    empSet.forEach((id) => (snapshot[id] = "idle"));
-
-    let tPrev = events[0].at;
-    const addSpan = (t0: number, t1: number) => {
-      if (t1 <= t0) return;
-      const activeCnt = Object.values(snapshot).filter((s) => s === "active").length;
-      const pausedCnt = Object.values(snapshot).filter((s) => s === "paused").length;
-
-      let a = t0;
-      while (a < t1) {
-        const dayEnd = new Date(new Date(a).toDateString()).getTime() + 24 * 3600 * 1000;
-        const b = Math.min(t1, dayEnd);
-        const key = new Date(a).toISOString().slice(0, 10);
-        const dur = b - a;
-        if (!rows[key]) rows[key] = { actualMs: 0, touchMs: 0, idleMs: 0 };
-        rows[key].actualMs += dur;
-        rows[key].touchMs += dur * activeCnt;
-        rows[key].idleMs += dur * pausedCnt;
-        a = b;
-      }
-    };
-
-    for (const ev of events) {
-      addSpan(tPrev, ev.at);
-      if (typeof ev.employeeId === "number") {
-        if (ev.event === "start") snapshot[ev.employeeId] = "active";
-        if (ev.event === "pause") snapshot[ev.employeeId] = "paused";
-        if (ev.event === "stop" || ev.event === "deleted") snapshot[ev.employeeId] = "idle";
-      }
-      tPrev = ev.at;
-    }
-    if (lastStopAt == null) addSpan(tPrev, nowMs);
-    return rows;
-  }, [timeLog, lastStopAt, nowMs]);
-
   // --- AI Summary generation ---
   async function generateSummaryWithAI() {
-    if (aiBusy) return;
+    if (aiBusy || !canSummarize) return;
     try {
       setAiBusy(true);
 
       // --- Build a local DRAFT summary (hybrid approach) ---
-      // Helper: top pause reasons (up to 2)
-      const pauseCounts = new Map<string, number>();
-      for (const t of sortedTimeLog) {
-        if (t.event === "pause" && t.reasonCode) {
-          const key = t.reasonCode.trim();
-          pauseCounts.set(key, (pauseCounts.get(key) || 0) + 1);
-        }
-      }
-      const topPauses = Array.from(pauseCounts.entries())
-        .sort((a,b) => b[1]-a[1])
+      // Helper: longest delays from the Pareto (up to 2)
+      const topPauses = metrics.pareto
         .slice(0,2)
-        .map(([k,v]) => `${k}${v>1?` (x${v})`:""}`)
+        .map((p) => `${p.reason} (${msToHM(p.ms)}${p.count>1?`, x${p.count}`:""})`)
         .join(", ");
 
       const crewSize = employees.length;
-      const sessionCount = timeLog.filter(t=>t.event!=="deleted").length;
+      const sessionCount = metrics.employees.reduce((n, e) => n + e.sessions, 0);
 
       const draftLines: string[] = [];
       draftLines.push(
@@ -1372,17 +2862,50 @@ function cancelTimeEdit() {
         `Actual ${msToHM(actualClockMs)}; Touch ${msToHM(totalActive)}; Idle ${msToHM(totalIdle)}.`);
       draftLines.push(
         `Crew size ${crewSize} across ${sessionCount} sessions. Utilization ${(utilization*100).toFixed(1)}%, Crew-hours ${crewHours.toFixed(2)}, Idle Ratio ${(idleRatio*100).toFixed(1)}%.`);
-      if (info.estimatedTime) draftLines.push(`Estimated time ${info.estimatedTime}.`);
+      if (info.estimatedTime) {
+        const overUnder = (v: Variance) =>
+          `${msToHM(Math.abs(v.ms))} (${Math.abs(v.pct * 100).toFixed(1)}%) ${v.ms > 0 ? "over" : "under"}`;
+        draftLines.push(
+          `Estimated time ${info.estimatedTime}` +
+          (metrics.actualVsEstimate && metrics.crewVsEstimate
+            ? `; actual time ran ${overUnder(metrics.actualVsEstimate)} and crew-hours ${overUnder(metrics.crewVsEstimate)} the estimate.`
+            : "."));
+      }
+      if (metrics.normalMs > 0) {
+        draftLines.push(
+          `Normal time ${msToHM(metrics.normalMs)}; standard time ${msToHM(metrics.standardMs)} with ${metrics.allowancePct}% PF&D allowance` +
+          (metrics.standardVsEstimateMs != null
+            ? `, ${msToHM(Math.abs(metrics.standardVsEstimateMs))} ${metrics.standardVsEstimateMs > 0 ? "over" : "under"} the estimate.`
+            : "."));
+      }
       if (info.observationScope) draftLines.push(`Observation scope: ${info.observationScope}.`);
-      if (topPauses) draftLines.push(`Most common pauses: ${topPauses}.`);
+      if (topPauses) draftLines.push(`Longest delays: ${topPauses}.`);
+      if (samplingSummary.observations) {
+        draftLines.push(
+          `Work sampling: ${samplingSummary.observations} observations over ${samplingSummary.rounds} rounds; ` +
+          samplingSummary.states
+            .map((st) => `${SAMPLE_STATE_LABELS[st.state]} ${(st.share * 100).toFixed(1)}% (±${(((st.high - st.low) / 2) * 100).toFixed(1)})`)
+            .join(", ") + ".");
+      }
 
       const draft = draftLines.join(" ");
 
+      // No connection: keep the local draft as the summary for now and try again once back online.
+      const queue = () => {
+        if (!(info.summary || "").trim()) setInfo((prev) => ({ ...prev, summary: draft }));
+        if (!aiQueued) showToast("Offline — using the local draft; the AI summary will be generated when the connection returns");
+        setAiQueued(true);
+      };
+      if (isOffline()) {
+        queue();
+        return;
+      }
+
       const payload = {
         info,
         employees: employees.map(e => ({
           id: e.id, name: e.name, role: e.role || "", skill: e.skill || "",
-          status: e.status, elapsedTime: e.elapsedTime, pausedAccum: e.pausedAccum
+          status: liveTimes(e).status, elapsedTime: liveTimes(e).active, pausedAccum: liveTimes(e).idle
         })),
         taskLog: sortedTaskLog.map(t => ({ at: t.at, text: t.text })),
         timeLog: sortedTimeLog.map(t => ({
@@ -1393,6 +2916,8 @@ function cancelTimeEdit() {
           actualMinutes: Math.round(Math.max(0, actualClockMs) / 60000),
           touchMinutes:  Math.round(Math.max(0, totalActive) / 60000),
           idleMinutes:   Math.round(Math.max(0, totalIdle) / 60000),
+          plannedIdleMinutes:   Math.round(metrics.plannedIdleMs / 60000),
+          unplannedIdleMinutes: Math.round(metrics.unplannedIdleMs / 60000),
 
           // human-readable strings (no seconds)
           actualHM: msToHM(actualClockMs),
@@ -1404,9 +2929,33 @@ function cancelTimeEdit() {
           crewHours:      Number(crewHours.toFixed(2)),
           idleRatioPct:   Number((idleRatio * 100).toFixed(1)),
 
+          // rated times (touch × rating, + PF&D allowance) vs the estimate
+          normalMinutes:   Math.round(metrics.normalMs / 60000),
+          standardMinutes: Math.round(metrics.standardMs / 60000),
+          allowancePct:    metrics.allowancePct,
+          standardVsEstimateMinutes: metrics.standardVsEstimateMs != null ? Math.round(metrics.standardVsEstimateMs / 60000) : null,
+
+          // actual time and crew-hours vs the estimate (positive = over)
+          estimateMinutes: metrics.estimateMs != null ? Math.round(metrics.estimateMs / 60000) : null,
+          actualVsEstimateMinutes: metrics.actualVsEstimate ? Math.round(metrics.actualVsEstimate.ms / 60000) : null,
+          actualVsEstimatePct: metrics.actualVsEstimate ? Number((metrics.actualVsEstimate.pct * 100).toFixed(1)) : null,
+          crewVsEstimateMinutes: metrics.crewVsEstimate ? Math.round(metrics.crewVsEstimate.ms / 60000) : null,
+          crewVsEstimatePct: metrics.crewVsEstimate ? Number((metrics.crewVsEstimate.pct * 100).toFixed(1)) : null,
+
+          // work sampling shares with 95% confidence intervals (empty when no rounds were recorded)
+          workSampling: samplingSummary.observations
+            ? samplingSummary.states.map(st => ({
+                state: st.state, observations: st.count,
+                sharePct: Number((st.share * 100).toFixed(1)), lowPct: Number((st.low * 100).toFixed(1)), highPct: Number((st.high * 100).toFixed(1)),
+              }))
+            : [],
+
+          // delay Pareto (paused minutes per reason, longest first)
+          delayPareto: metrics.pareto.map(p => ({ reason: p.reason, minutes: Math.round(p.ms / 60000), pauses: p.count })),
+
           // optional extras
           totalEmployees: employees.length,
-          totalSessions:  timeLog.filter(t => t.event !== "deleted").length,
+          totalSessions:  timeLog.filter(t => isTimerEvent(t.event)).length,
         },
         summaryText: info.summary || "",
         photos: reportPhotos.map(p => ({ name: p.name || "", caption: p.caption || "" })),
@@ -1417,7 +2966,13 @@ function cancelTimeEdit() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
+      }).catch((err) => {
+        if (!isNetworkFailure(err)) throw err;
+        queue();
+        return null;
       });
+      if (!res) return;
+      setAiQueued(false);
 
       if (!res.ok) {
         const msg = await res.text();
@@ -1439,6 +2994,17 @@ function cancelTimeEdit() {
     }
   }
 
+  // Retry a queued summary as soon as the connection returns, then periodically (the online event
+  // doesn't fire when the Wi-Fi is up but the network behind it isn't).
+  const retryAiRef = useRef<() => void>(() => {});
+  retryAiRef.current = () => void generateSummaryWithAI();
+  useEffect(() => {
+    if (!aiQueued || !online || tabRole !== "owner" || !canSummarize) return;
+    retryAiRef.current();
+    const t = setInterval(() => retryAiRef.current(), RETRY_INTERVAL_MS);
+    return () => clearInterval(t);
+  }, [aiQueued, online, tabRole, canSummarize]);
+
   /* ---------- Exports ---------- */
   const exportExcel = () => {
     const wb = XLSX.utils.book_new();
@@ -1467,8 +3033,22 @@ function cancelTimeEdit() {
       "Total Time (H:M:S)",
       "Touch Labor (H:M:S)",
       "Idle Time (H:M:S)",
+      "Planned Idle (H:M:S)",
+      "Unplanned Idle (H:M:S)",
       "Task Log",
       "Summary",
+      "Time Zone",
+      "Day Starts",
+      "Allowance (%)",
+      "Normal Time (H:M:S)",
+      "Standard Time (H:M:S)",
+      "Standard vs Estimate (H:M:S)",
+      "Actual vs Estimate (H:M:S)",
+      "Actual vs Estimate (%)",
+      "Crew-hours vs Estimate (H:M:S)",
+      "Crew-hours vs Estimate (%)",
+      "Study Mode",
+      "Unplanned Idle Ratio (%)",
     ];
 
     const summaryRow = [
@@ -1494,8 +3074,20 @@ function cancelTimeEdit() {
       msToTime(totalAll),
       msToTime(totalActive),
       msToTime(totalIdle),
-      [...sortedTaskLog].map((n) => `${fmtStamp(n.at, info.multiDay)}: ${n.text}`).join(" | "),
+      msToTime(metrics.plannedIdleMs),
+      msToTime(metrics.unplannedIdleMs),
+      [...sortedTaskLog].map((n) => `${fmtStamp(n.at, info.multiDay, info.timeZone)}: ${n.text}`).join(" | "),
       info.summary || "",
+      info.timeZone,
+      info.dayStart,
+      metrics.allowancePct,
+      msToHMS(metrics.normalMs),
+      msToHMS(metrics.standardMs),
+      metrics.standardVsEstimateMs != null ? signedHMS(metrics.standardVsEstimateMs) : "",
+      ...varianceCells(metrics.actualVsEstimate),
+      ...varianceCells(metrics.crewVsEstimate),
+      info.mode,
+      (metrics.unplannedIdleRatio * 100).toFixed(1),
     ];
 
     const wsSummary = XLSX.utils.aoa_to_sheet([summaryHeader, summaryRow]);
@@ -1522,26 +3114,43 @@ function cancelTimeEdit() {
       { wch: 16 }, // Total
       { wch: 18 }, // Touch
       { wch: 16 }, // Idle
+      { wch: 18 }, // Planned Idle
+      { wch: 20 }, // Unplanned Idle
       { wch: 60 }, // Task Log
       { wch: 70 }, // Summary
+      { wch: 22 }, // Time Zone
+      { wch: 10 }, // Day Starts
+      { wch: 12 }, // Allowance
+      { wch: 18 }, // Normal
+      { wch: 20 }, // Standard
+      { wch: 26 }, // Standard vs Estimate
+      { wch: 24 }, // Actual vs Estimate
+      { wch: 20 }, // Actual vs Estimate %
+      { wch: 28 }, // Crew-hours vs Estimate
+      { wch: 24 }, // Crew-hours vs Estimate %
+      { wch: 12 }, // Study Mode
+      { wch: 22 }, // Unplanned Idle Ratio
     ];
     (wsSummary as any)["!freeze"] = { xSplit: 0, ySplit: 1 };
     XLSX.utils.book_append_sheet(wb, wsSummary, "Summary");
 
     // Employee Performance
     const perfRows = employees.map((e) => {
-      const { active, idle, total } = liveTimes(e);
-      const sessionsForEmp = timeLog.filter((t) => t.employeeId === e.id && t.event !== "deleted").length;
-      const status = e.status === "idle" && (active > 0 || idle > 0) ? "Completed" : e.status;
+      const { status: st, active, idle, plannedIdle, unplannedIdle, total, rating, normal, sessions } = liveTimes(e);
+      const status = st === "idle" && (active > 0 || idle > 0) ? "Completed" : st;
       return {
         "Employee Name": e.name,
         Role: e.role || "",
         Skill: e.skill || "",
         "Total Active (Touch) (H:M:S)": msToTime(active),
         "Total Idle (H:M:S)": msToTime(idle),
+        "Planned Idle (H:M:S)": msToTime(plannedIdle),
+        "Unplanned Idle (H:M:S)": msToTime(unplannedIdle),
         "Total Time (H:M:S)": msToTime(total),
-        Sessions: sessionsForEmp,
+        Sessions: sessions,
         Status: status,
+        "Rating (%)": rating,
+        "Normal Time (H:M:S)": msToHMS(normal),
       };
     });
     const wsPerf = XLSX.utils.json_to_sheet(perfRows, {
@@ -1551,9 +3160,13 @@ function cancelTimeEdit() {
         "Skill",
         "Total Active (Touch) (H:M:S)",
         "Total Idle (H:M:S)",
+        "Planned Idle (H:M:S)",
+        "Unplanned Idle (H:M:S)",
         "Total Time (H:M:S)",
         "Sessions",
         "Status",
+        "Rating (%)",
+        "Normal Time (H:M:S)",
       ],
     });
     wsPerf["!cols"] = [
@@ -1563,25 +3176,55 @@ function cancelTimeEdit() {
       { wch: 22 },
       { wch: 18 },
       { wch: 18 },
+      { wch: 20 },
+      { wch: 18 },
       { wch: 10 },
       { wch: 14 },
+      { wch: 12 },
+      { wch: 20 },
     ];
     (wsPerf as any)["!freeze"] = { xSplit: 0, ySplit: 1 };
     XLSX.utils.book_append_sheet(wb, wsPerf, "Employee Performance");
 
     // Time Log
     const timeRows = [...sortedTimeLog].map((t) => ({
-      When: fmtStamp(t.at, info.multiDay),
+      When: fmtStamp(t.at, info.multiDay, info.timeZone),
+      [WHEN_UTC]: utcStamp(t.at),
       Employee: t.employeeName,
       Event: t.event,
       Reason: t.reasonCode || "",
       Comment: t.comment || "",
+      Element: t.event === "element" && t.elementId != null ? elementLabel(t.elementId) : "",
+      [GAP_COLUMNS[0]]: t.gapKind ?? "",
+      [GAP_COLUMNS[1]]: t.gapMs ?? "",
+      [GAP_COLUMNS[2]]: t.gapDecision ?? "",
     }));
-    const wsTime = XLSX.utils.json_to_sheet(timeRows, { header: ["When", "Employee", "Event", "Reason", "Comment"] });
-    wsTime["!cols"] = [{ wch: 22 }, { wch: 22 }, { wch: 10 }, { wch: 22 }, { wch: 48 }];
+    const wsTime = XLSX.utils.json_to_sheet(timeRows, {
+      header: ["When", WHEN_UTC, "Employee", "Event", "Reason", "Comment", "Element", ...GAP_COLUMNS],
+    });
+    wsTime["!cols"] = [{ wch: 22 }, { wch: 26 }, { wch: 22 }, { wch: 10 }, { wch: 22 }, { wch: 48 }, { wch: 24 }, { wch: 10 }, { wch: 10 }, { wch: 12 }];
     (wsTime as any)["!freeze"] = { xSplit: 0, ySplit: 1 };
     XLSX.utils.book_append_sheet(wb, wsTime, "Time Log");
 
+    // Work elements, in task order
+    if (info.elements.length) {
+      const elementRows = metrics.elements.map((el, i) => ({
+        Step: i + 1,
+        Element: el.name,
+        "Touch (H:M:S)": msToHMS(el.touchMs),
+        "Elapsed (H:M:S)": msToHMS(el.elapsedMs),
+        "Avg Crew": Number(el.avgCrew.toFixed(2)),
+        "Peak Crew": el.maxCrew,
+        "Rating (%)": info.elements[i]?.rating ?? "",
+        "Normal (H:M:S)": msToHMS(el.normalMs),
+      }));
+      const wsElements = XLSX.utils.json_to_sheet(elementRows, {
+        header: ["Step", "Element", "Touch (H:M:S)", "Elapsed (H:M:S)", "Avg Crew", "Peak Crew", "Rating (%)", "Normal (H:M:S)"],
+      });
+      wsElements["!cols"] = [{ wch: 6 }, { wch: 28 }, { wch: 16 }, { wch: 16 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 16 }];
+      XLSX.utils.book_append_sheet(wb, wsElements, "Work Elements");
+    }
+
     // Daily Breakdown
     const dayRows = Object.entries(dailyBreakdown)
       .sort(([a], [b]) => a.localeCompare(b))
@@ -1590,15 +3233,122 @@ function cancelTimeEdit() {
         "Actual (H:M:S)": msToHMS(v.actualMs),
         "Touch (H:M:S)": msToHMS(v.touchMs),
         "Idle (H:M:S)": msToHMS(v.idleMs),
+        "Planned Idle (H:M:S)": msToHMS(v.plannedIdleMs),
         "Utilization (%)": (v.actualMs ? (v.touchMs / v.actualMs) * 100 : 0).toFixed(1),
       }));
     const wsDaily = XLSX.utils.json_to_sheet(dayRows, {
-      header: ["Date", "Actual (H:M:S)", "Touch (H:M:S)", "Idle (H:M:S)", "Utilization (%)"],
+      header: ["Date", "Actual (H:M:S)", "Touch (H:M:S)", "Idle (H:M:S)", "Planned Idle (H:M:S)", "Utilization (%)"],
     });
-    wsDaily["!cols"] = [{ wch: 12 }, { wch: 16 }, { wch: 16 }, { wch: 16 }, { wch: 16 }];
+    wsDaily["!cols"] = [{ wch: 12 }, { wch: 16 }, { wch: 16 }, { wch: 16 }, { wch: 18 }, { wch: 16 }];
     (wsDaily as any)["!freeze"] = { xSplit: 0, ySplit: 1 };
     XLSX.utils.book_append_sheet(wb, wsDaily, "Daily Breakdown");
 
+    // Idle by reason category and value-added classification
+    const breakdownRows = (kind: string, totals: Record<string, number>) =>
+      Object.entries(totals)
+        .sort((a, b) => b[1] - a[1])
+        .map(([label, ms]) => ({
+          Breakdown: kind,
+          Group: label,
+          "Idle (H:M:S)": msToHMS(ms),
+          "Share of Idle (%)": (totalIdle ? (ms / totalIdle) * 100 : 0).toFixed(1),
+        }));
+    const wsIdle = XLSX.utils.json_to_sheet(
+      [...breakdownRows("Category", metrics.idleByCategory), ...breakdownRows("Classification", metrics.idleByClass)],
+      { header: ["Breakdown", "Group", "Idle (H:M:S)", "Share of Idle (%)"] },
+    );
+    wsIdle["!cols"] = [{ wch: 16 }, { wch: 28 }, { wch: 16 }, { wch: 18 }];
+    XLSX.utils.book_append_sheet(wb, wsIdle, "Idle by Category");
+
+    // Cycles (Lap to Lap), each flagged against the pooled outlier fences, then the statistics
+    if (metrics.cycles.length) {
+      const st = metrics.cycleStats;
+      const sec = (ms: number) => Number((ms / 1000).toFixed(1));
+      const cycleRows: Record<string, string | number>[] = metrics.cycles.map((c) => ({
+        Employee: c.employeeName,
+        Cycle: c.index,
+        Element: c.elementId != null ? elementLabel(c.elementId) : "",
+        "Lap At": fmtStamp(c.to, info.multiDay, info.timeZone),
+        "Cycle (H:M:S)": msToHMS(c.ms),
+        "Cycle (s)": sec(c.ms),
+        Outlier: c.outlier ? "Yes" : "",
+      }));
+      cycleRows.push(
+        {},
+        { Employee: "Count", Cycle: st.count },
+        { Employee: "Mean (s)", Cycle: sec(st.mean) },
+        { Employee: "Min (s)", Cycle: sec(st.min) },
+        { Employee: "Max (s)", Cycle: sec(st.max) },
+        { Employee: "Std Dev (s)", Cycle: sec(st.sd) },
+        { Employee: "Outlier fences (s)", Cycle: `${sec(st.low)} – ${sec(st.high)}` },
+      );
+      const wsCycles = XLSX.utils.json_to_sheet(cycleRows, {
+        header: ["Employee", "Cycle", "Element", "Lap At", "Cycle (H:M:S)", "Cycle (s)", "Outlier"],
+      });
+      wsCycles["!cols"] = [{ wch: 22 }, { wch: 14 }, { wch: 22 }, { wch: 22 }, { wch: 14 }, { wch: 10 }, { wch: 8 }];
+      XLSX.utils.book_append_sheet(wb, wsCycles, "Cycles");
+    }
+
+    // Delay Pareto: paused duration per reason, longest first
+    const paretoRows = metrics.pareto.map((p) => ({
+      Reason: p.reason,
+      "Paused (H:M:S)": msToHMS(p.ms),
+      "Paused (min)": Number((p.ms / 60000).toFixed(1)),
+      Pauses: p.count,
+      "Share (%)": (p.share * 100).toFixed(1),
+      "Cumulative (%)": (p.cumulative * 100).toFixed(1),
+    }));
+    const wsPareto = XLSX.utils.json_to_sheet(paretoRows, {
+      header: ["Reason", "Paused (H:M:S)", "Paused (min)", "Pauses", "Share (%)", "Cumulative (%)"],
+    });
+    wsPareto["!cols"] = [{ wch: 26 }, { wch: 16 }, { wch: 14 }, { wch: 10 }, { wch: 12 }, { wch: 16 }];
+    XLSX.utils.book_append_sheet(wb, wsPareto, "Delay Pareto");
+
+    // Work sampling: state shares with confidence intervals, reasons, then every observation
+    if (samples.length) {
+      const ci = `${samplingSummary.confidence * 100}% CI`;
+      const shareRows: Record<string, string | number>[] = samplingSummary.states.map((st) => ({
+        State: SAMPLE_STATE_LABELS[st.state],
+        Observations: st.count,
+        "Share (%)": (st.share * 100).toFixed(1),
+        [`${ci} Low (%)`]: (st.low * 100).toFixed(1),
+        [`${ci} High (%)`]: (st.high * 100).toFixed(1),
+      }));
+      shareRows.push(
+        {},
+        { State: "Total observations", Observations: samplingSummary.observations },
+        { State: "Rounds", Observations: samplingSummary.rounds },
+        { State: "Needed for ±5% on Working", Observations: samplingSummary.required ?? "" },
+        {},
+        { State: "Not working — reason", Observations: "Observations", "Share (%)": "Share (%)" },
+        ...samplingSummary.reasons.map((r) => ({ State: r.reason, Observations: r.count, "Share (%)": (r.share * 100).toFixed(1) })),
+      );
+      const wsSampling = XLSX.utils.json_to_sheet(shareRows, {
+        header: ["State", "Observations", "Share (%)", `${ci} Low (%)`, `${ci} High (%)`],
+      });
+      wsSampling["!cols"] = [{ wch: 28 }, { wch: 14 }, { wch: 12 }, { wch: 16 }, { wch: 16 }];
+      XLSX.utils.book_append_sheet(wb, wsSampling, "Work Sampling");
+
+      const obsRows = [...samples]
+        .sort((a, b) => a.at - b.at || a.employeeName.localeCompare(b.employeeName))
+        .map((x) => ({
+          Round: x.round,
+          When: fmtStamp(x.at, info.multiDay, info.timeZone),
+          [WHEN_UTC]: utcStamp(x.at),
+          Scheduled: x.scheduledAt != null ? fmtStamp(x.scheduledAt, info.multiDay, info.timeZone) : "",
+          [SCHEDULED_UTC]: x.scheduledAt != null ? utcStamp(x.scheduledAt) : "",
+          Employee: x.employeeName,
+          State: SAMPLE_STATE_LABELS[x.state],
+          Reason: x.reasonCode || "",
+          Comment: x.comment || "",
+        }));
+      const wsObs = XLSX.utils.json_to_sheet(obsRows, {
+        header: ["Round", "When", WHEN_UTC, "Scheduled", SCHEDULED_UTC, "Employee", "State", "Reason", "Comment"],
+      });
+      wsObs["!cols"] = [{ wch: 8 }, { wch: 22 }, { wch: 26 }, { wch: 22 }, { wch: 26 }, { wch: 22 }, { wch: 12 }, { wch: 22 }, { wch: 40 }];
+      XLSX.utils.book_append_sheet(wb, wsObs, "Observations");
+    }
+
     // Metrics Guide
     const guide = [
       { Metric: "Type", Explanation: "Priority category (Routine / Non-Routine / Customer Request / Cannibalization / Other)." },
@@ -1606,11 +3356,23 @@ function cancelTimeEdit() {
       { Metric: "Actual Time", Explanation: "Wall-clock from first Start to last Stop/Delete, or now if anyone is still Active/Paused." },
       { Metric: "Touch Labor", Explanation: "Sum of time employees are Active (crew-weighted)." },
       { Metric: "Idle Time", Explanation: "Sum of time employees are Paused (crew-weighted)." },
+      { Metric: "Planned Idle", Explanation: "Idle inside scheduled breaks or outside shift hours, or paused with a reason marked Planned in the reason catalog (e.g., Break, Shift change)." },
+      { Metric: "Unplanned Idle", Explanation: "Idle Time − Planned Idle." },
       { Metric: "Total Time", Explanation: "Touch + Idle (crew-weighted time, not wall-clock)." },
-      { Metric: "Utilization (%)", Explanation: "Touch ÷ Actual × 100." },
+      { Metric: "Utilization (%)", Explanation: "Touch ÷ (Actual − planned downtime) × 100. Planned downtime is wall-clock when nobody is Active during a scheduled break, off-shift, or a planned pause." },
       { Metric: "Crew-hours", Explanation: "Touch time converted to hours (Σ Active / 3600s)." },
       { Metric: "Idle Ratio (%)", Explanation: "Idle ÷ (Touch + Idle) × 100." },
-      { Metric: "Daily Breakdown", Explanation: "Actual/Touch/Idle apportioned per calendar day." },
+      { Metric: "Unplanned Idle Ratio (%)", Explanation: "Unplanned Idle ÷ (Touch + Idle) × 100." },
+      { Metric: "Daily Breakdown", Explanation: "Actual/Touch/Idle apportioned per study day (time zone and day start from the header)." },
+      { Metric: "Normal Time", Explanation: "Touch Labor × performance rating (the element's rating when set, else the employee's; unrated = 100%)." },
+      { Metric: "Standard Time", Explanation: "Normal Time × (1 + PF&D allowance %). Compared against Estimated Time when it reads as a duration (e.g., 2h 30m, 02:30, 2.5 or 150m)." },
+      { Metric: "Actual vs Estimate", Explanation: "Actual Time − Estimated Time (positive = over), and that difference as a % of the estimate." },
+      { Metric: "Crew-hours vs Estimate", Explanation: "Crew-hours (touch labor) − Estimated Time (positive = over), and that difference as a % of the estimate." },
+      { Metric: "Work Elements", Explanation: "Per task step: Touch = Active time on the element; Elapsed = wall-clock with anyone Active on it; Avg Crew = Touch ÷ Elapsed; Peak Crew = most people on it at once." },
+      { Metric: "Cycles", Explanation: "Lap captures: a cycle runs from Start (or the previous Lap) to the next Lap, counting Active time only; time after the last Lap isn't a cycle. Outliers fall outside 1.5 × IQR of all cycles." },
+      { Metric: "Delay Pareto", Explanation: "Paused time per reason code, from each Pause to the next Start/Stop (crew-weighted), longest first with cumulative share." },
+      { Metric: "Work Sampling", Explanation: "Share of random observations per state (Working / Waiting / Traveling / Absent) with a 95% confidence interval p ± 1.96·√(p(1 − p)/n); observations needed for ±5% on Working = 1.96²·p(1 − p) ÷ 0.05²." },
+      { Metric: "Idle by Category", Explanation: "Idle totalled by the pause reason's category and classification (Value-added / Necessary non-value-added / Waste) from the reason catalog." },
     ];
     const wsGuide = XLSX.utils.json_to_sheet(guide, { header: ["Metric", "Explanation"] });
     wsGuide["!cols"] = [{ wch: 22 }, { wch: 70 }];
@@ -1624,8 +3386,8 @@ function cancelTimeEdit() {
     return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
   };
   const toCSV = (rows: (string | number)[][]) => rows.map((r) => r.map(csvEscape).join(",")).join("\n");
-  const download = (filename: string, content: string) => {
-    const blob = new Blob([content], { type: "text/csv;charset=utf-8" });
+  const download = (filename: string, content: string, type = "text/csv;charset=utf-8") => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
@@ -1658,8 +3420,22 @@ function cancelTimeEdit() {
       "Total Time (H:M:S)",
       "Touch Labor (H:M:S)",
       "Idle Time (H:M:S)",
+      "Planned Idle (H:M:S)",
+      "Unplanned Idle (H:M:S)",
       "Task Log",
       "Summary",
+      "Time Zone",
+      "Day Starts",
+      "Allowance (%)",
+      "Normal Time (H:M:S)",
+      "Standard Time (H:M:S)",
+      "Standard vs Estimate (H:M:S)",
+      "Actual vs Estimate (H:M:S)",
+      "Actual vs Estimate (%)",
+      "Crew-hours vs Estimate (H:M:S)",
+      "Crew-hours vs Estimate (%)",
+      "Study Mode",
+      "Unplanned Idle Ratio (%)",
     ];
     const row = [
       info.date,
@@ -1684,22 +3460,41 @@ function cancelTimeEdit() {
       msToTime(totalAll),
       msToTime(totalActive),
       msToTime(totalIdle),
-      sortedTaskLog.map((n) => `${fmtStamp(n.at, info.multiDay)}: ${n.text}`).join(" | "),
+      msToTime(metrics.plannedIdleMs),
+      msToTime(metrics.unplannedIdleMs),
+      sortedTaskLog.map((n) => `${fmtStamp(n.at, info.multiDay, info.timeZone)}: ${n.text}`).join(" | "),
       info.summary || "",
+      info.timeZone,
+      info.dayStart,
+      metrics.allowancePct,
+      msToHMS(metrics.normalMs),
+      msToHMS(metrics.standardMs),
+      metrics.standardVsEstimateMs != null ? signedHMS(metrics.standardVsEstimateMs) : "",
+      ...varianceCells(metrics.actualVsEstimate),
+      ...varianceCells(metrics.crewVsEstimate),
+      info.mode,
+      (metrics.unplannedIdleRatio * 100).toFixed(1),
     ];
     download("work_measurement_summary.csv", toCSV([headers, row]));
   };
 
+  const exportStudyJSON = () => {
+    const state: AppState = { schemaVersion: SCHEMA_VERSION, info, employees, taskLog, timeLog, photos, samples };
+    download(bundleFileName(info), buildStudyBundle(state), "application/json;charset=utf-8");
+  };
+
   const printReport = () => {
     printReportHTML(
       info,
       employees,
       timeLog,
       taskLog,
-      liveTimes,
       msToTime,
       fmtStamp,
-      reportPhotos
+      clockNow(),
+      reportPhotos,
+      reasons,
+      samples
     );
   };
 
@@ -1710,6 +3505,11 @@ function cancelTimeEdit() {
         <h1 className="app-title">
           <img src="/WorkMeasurmentIcon.png" alt="App icon" className="app-icon" />
           Work Measurement Analysis <span className="badge">v2</span>
+          {!online && (
+            <span className="badge offline" title="No connection; everything still works and is saved on this device">
+              Offline
+            </span>
+          )}
         </h1>
         <div className="toolbar">
           <div
@@ -1735,7 +3535,7 @@ function cancelTimeEdit() {
               <button
                 className="btn ghost"
                 onClick={() =>
-                  exportReportHTML(info, employees, timeLog, taskLog, liveTimes, msToTime, fmtStamp, reportPhotos)
+                  exportReportHTML(info, employees, timeLog, taskLog, msToTime, fmtStamp, clockNow(), reportPhotos, reasons, samples)
                 }
               >
                 HTML Report
@@ -1748,10 +3548,12 @@ function cancelTimeEdit() {
                     employees,
                     timeLog,
                     taskLog,
-                    liveTimes,
                     msToTime,
                     fmtStamp,
-                    reportPhotos
+                    clockNow(),
+                    reportPhotos,
+                    reasons,
+                    samples
                   )
                 }
               >
@@ -1760,23 +3562,273 @@ function cancelTimeEdit() {
               <button className="btn ghost" onClick={printReport}>
                 Print Report
               </button>
+              <button className="btn ghost" onClick={exportStudyJSON} title="Full study with raw events and photos; can be imported on another device">
+                Study (.json)
+              </button>
             </div>
           </div>
+          <button className="btn" onClick={openLibrary} title="Open, create or manage saved studies">
+            Studies
+          </button>
+          <button className="btn ghost" onClick={openSync} title="Share studies through the team's sync server">
+            Sync{" "}
+            <span className="sync-state" data-status={syncError ? "off" : currentSync ?? "unknown"}>
+              {syncError ? "off" : currentSync ? SYNC_STATUS_LABELS[currentSync] : "…"}
+            </span>
+          </button>
+          <button className="btn ghost" onClick={openDashboard} title="Trends across all saved studies on this device">
+            Dashboard
+          </button>
+          <button className="btn ghost" onClick={openSampleSize} title="Are there enough studies of this procedure + task? Mean, confidence interval and sample size">
+            Sample Size
+          </button>
+          <button className="btn ghost" onClick={() => setReasonsOpen(true)} title="Manage pause/stop reason codes, categories and classifications">
+            Reason Codes
+          </button>
           <button className="btn ghost" onClick={toggleTheme} title="Toggle light/dark">
             {theme === "light" ? "🌙 Dark" : "☀️ Light"}
           </button>
           <button className="btn red" onClick={clearSaved}>
             Clear Saved Data
           </button>
+          {principal ? (
+            <span className="user-chip" title={`Signed in with ${principal.identityProvider || "your account"}`}>
+              {principal.userDetails}
+              <span className="meta">{rolesOf(principal).map((r) => ROLE_LABELS[r]).join(", ") || "no role"}</span>
+              <a className="btn ghost" href={LOGOUT_URL}>Sign out</a>
+            </span>
+          ) : (
+            <a className="btn" href={LOGIN_URL} title="AI summaries and team sync need a signed-in account">
+              Sign in
+            </a>
+          )}
           <button className="help-btn" onClick={() => setShowHelp(true)}>
             Help
           </button>
         </div>
       </header>
 
+      {saveError && (
+        <div className="save-warning" role="alert">
+          <b>Changes are not being saved.</b> {saveError}
+          <button className="btn ghost" onClick={() => setSaveError(null)}>Dismiss</button>
+        </div>
+      )}
+
+      {viewOnly && (
+        <div className="save-warning tab-warning" role="alert">
+          <b>This study is open in another tab.</b> This tab is read-only and follows the changes saved there; running
+          timers keep going in that tab.
+          <button className="btn yellow" onClick={() => takeOverRef.current()} title="Edit here; the other tab becomes read-only">
+            Take over here
+          </button>
+        </div>
+      )}
+
+      {/* Read-only while another tab owns the study: a disabled fieldset disables every control inside. */}
+      <fieldset className="study-body" disabled={viewOnly}>
+
+      {/* Work sampling: random observation rounds instead of continuous timing */}
+      {samplingOn && (
+        <section className="section card">
+          <h2>Work Sampling <span className="meta">(record what each employee is doing at random moments)</span></h2>
+          <div style={{ display: "flex", gap: 12, alignItems: "flex-end", flexWrap: "wrap", marginTop: 8 }}>
+            <label className="stack">
+              <span>Window Start</span>
+              <input type="time" value={info.sampling.start} onChange={(e) => setSamplingPlan({ start: e.target.value })} />
+            </label>
+            <label className="stack">
+              <span>Window End</span>
+              <input
+                type="time"
+                value={info.sampling.end}
+                onChange={(e) => setSamplingPlan({ end: e.target.value })}
+                title="An end before the start runs overnight"
+              />
+            </label>
+            <label className="stack">
+              <span>Rounds</span>
+              <input
+                type="number"
+                min={1}
+                max={500}
+                step={1}
+                value={info.sampling.rounds}
+                onChange={(e) => {
+                  const n = Number(e.target.value);
+                  if (Number.isInteger(n) && n >= 1 && n <= 500) setSamplingPlan({ rounds: n });
+                }}
+                style={{ width: 90 }}
+              />
+            </label>
+            <button className="btn blue" onClick={generateSchedule} title="One random time in each equal slot of today's window">
+              Schedule Today
+            </button>
+            <button className="btn ghost" onClick={clearUpcoming} disabled={!promptsAhead}>
+              Clear Upcoming
+            </button>
+            <button
+              className="btn green"
+              onClick={() => setSamplingRound({ scheduledAt: null })}
+              disabled={!employees.length}
+              title={employees.length ? "Take an extra round now" : "Add employees first"}
+            >
+              Observe Now
+            </button>
+          </div>
+          <p className="meta" style={{ margin: "8px 0" }}>
+            {(() => {
+              const upcoming = info.sampling.times.filter((t) => t > nowMs);
+              const missed = missedPrompts(info.sampling, samples, nowMs);
+              return [
+                upcoming.length
+                  ? `Next prompt ${fmtStamp(upcoming[0], false, info.timeZone)} · ${upcoming.length} upcoming`
+                  : "No prompts scheduled",
+                `${samplingSummary.rounds} ${samplingSummary.rounds === 1 ? "round" : "rounds"} recorded`,
+                missed ? `${missed} missed` : "",
+              ]
+                .filter(Boolean)
+                .join(" · ");
+            })()}
+          </p>
+
+          <div className="kpis">
+            <div className="kpi">
+              <div className="label">Observations</div>
+              <div className="num">{samplingSummary.observations}</div>
+            </div>
+            {samplingSummary.states.map((st) => (
+              <div className="kpi" key={st.state} title={`${samplingSummary.confidence * 100}% interval ${(st.low * 100).toFixed(1)}–${(st.high * 100).toFixed(1)}%`}>
+                <div className="label">{SAMPLE_STATE_LABELS[st.state]}</div>
+                <div className="num">{(st.share * 100).toFixed(1)}%</div>
+                {samplingSummary.observations > 0 && (
+                  <div className="sub">
+                    ±{(((st.high - st.low) / 2) * 100).toFixed(1)} pts
+                  </div>
+                )}
+              </div>
+            ))}
+            <div className="kpi" title="Observations needed for ±5 points on the Working share at 95% confidence">
+              <div className="label">Needed (±5%)</div>
+              <div className="num">{samplingSummary.required ?? "—"}</div>
+            </div>
+          </div>
+
+          {samplingSummary.observations > 0 && (
+            <div style={{ display: "grid", gap: 12, gridTemplateColumns: "repeat(auto-fit,minmax(320px,1fr))", marginTop: 10 }}>
+              <div className="table-wrap">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>State</th>
+                      <th>Observations</th>
+                      <th>Share</th>
+                      <th>{samplingSummary.confidence * 100}% Interval</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {samplingSummary.states.map((st) => (
+                      <tr key={st.state}>
+                        <td>{SAMPLE_STATE_LABELS[st.state]}</td>
+                        <td className="mono">{st.count}</td>
+                        <td className="mono">{(st.share * 100).toFixed(1)}%</td>
+                        <td className="mono">
+                          {(st.low * 100).toFixed(1)}% – {(st.high * 100).toFixed(1)}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="table-wrap">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Not working — reason</th>
+                      <th>Category</th>
+                      <th>Observations</th>
+                      <th>Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {samplingSummary.reasons.map((r) => (
+                      <tr key={r.reason}>
+                        <td>{r.reason}</td>
+                        <td>{r.category}</td>
+                        <td className="mono">{r.count}</td>
+                        <td className="mono">{(r.share * 100).toFixed(1)}%</td>
+                      </tr>
+                    ))}
+                    {samplingSummary.reasons.length === 0 && (
+                      <tr>
+                        <td colSpan={4} className="meta">(everyone was working)</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {samplingSummary.rounds > 0 && (
+            <div className="table-wrap" style={{ marginTop: 10, maxHeight: "40vh" }}>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Round</th>
+                    <th>Observed</th>
+                    <th>Scheduled</th>
+                    {SAMPLE_STATES.map((st) => (
+                      <th key={st}>{SAMPLE_STATE_LABELS[st]}</th>
+                    ))}
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...new Set(samples.map((x) => x.round))]
+                    .sort((a, b) => b - a)
+                    .map((round) => {
+                      const rows = samples.filter((x) => x.round === round);
+                      return (
+                        <tr key={round}>
+                          <td className="mono">{round}</td>
+                          <td className="mono">{fmtStamp(rows[0].at, info.multiDay, info.timeZone)}</td>
+                          <td className="mono">{rows[0].scheduledAt != null ? fmtStamp(rows[0].scheduledAt, false, info.timeZone) : "on demand"}</td>
+                          {SAMPLE_STATES.map((st) => (
+                            <td key={st} title={rows.filter((x) => x.state === st).map((x) => x.employeeName + (x.reasonCode ? ` (${x.reasonCode})` : "")).join(", ")}>
+                              {rows.filter((x) => x.state === st).length || ""}
+                            </td>
+                          ))}
+                          <td>
+                            <button className="btn red" onClick={() => deleteRound(round)}>
+                              Delete
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      )}
+
       {/* --- KPI strip (sticky) --- */}
       <section className="section card">
-        <h2>KPI</h2>
+        <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <h2 style={{ marginRight: "auto" }}>KPI</h2>
+          {!samplingOn && (
+            <button
+              className="btn yellow"
+              disabled={!activeIds.length}
+              onClick={() => requestBulk("pause", activeIds)}
+              title="Pause every active employee with one reason"
+            >
+              Pause all{activeIds.length ? ` (${activeIds.length})` : ""}
+            </button>
+          )}
+        </div>
 
         {/* Big counters */}
         <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 12, margin: "8px 0 12px" }}>
@@ -1824,6 +3876,9 @@ function cancelTimeEdit() {
             <div style={{ fontFamily: "ui-monospace, Menlo, Consolas, monospace", fontSize: 36, fontWeight: 800 }}>
               {msToHMS(totalIdle)}
             </div>
+            <div style={{ fontSize: 12, opacity: 0.8 }}>
+              Planned {msToTime(metrics.plannedIdleMs)} · Unplanned {msToTime(metrics.unplannedIdleMs)}
+            </div>
           </div>
         </div>
 
@@ -1841,7 +3896,7 @@ function cancelTimeEdit() {
           </div>
           <div className="kpi">
             <div className="label">Total Sessions</div>
-            <div className="num">{timeLog.filter((t) => t.event !== "deleted").length}</div>
+            <div className="num">{timeLog.filter((t) => isTimerEvent(t.event)).length}</div>
           </div>
           <div className="kpi">
             <div className="label">Combined Time</div>
@@ -1859,7 +3914,109 @@ function cancelTimeEdit() {
             <div className="label">Idle Ratio</div>
             <div className="num">{(idleRatio * 100).toFixed(1)}%</div>
           </div>
+          <div className="kpi">
+            <div className="label">Unplanned Idle Ratio</div>
+            <div className="num">{(metrics.unplannedIdleRatio * 100).toFixed(1)}%</div>
+          </div>
+          <div className="kpi">
+            <div className="label">Normal Time</div>
+            <div className="num">{msToHMS(metrics.normalMs)}</div>
+          </div>
+          <div className="kpi" title={`Normal time + ${metrics.allowancePct}% PF&D allowance`}>
+            <div className="label">Standard Time</div>
+            <div className="num">{msToHMS(metrics.standardMs)}</div>
+          </div>
+          <div className="kpi" title={info.estimatedTime ? `Estimated ${info.estimatedTime}` : "Set Estimated Time in General Info"}>
+            <div className="label">Std vs Estimate</div>
+            <div className="num">{metrics.standardVsEstimateMs != null ? signedHMS(metrics.standardVsEstimateMs) : "—"}</div>
+          </div>
+          <div className="kpi" title={info.estimatedTime ? `Actual time vs estimated ${info.estimatedTime}` : "Set Estimated Time in General Info"}>
+            <div className="label">Actual vs Estimate</div>
+            <div className="num">{metrics.actualVsEstimate ? signedHMS(metrics.actualVsEstimate.ms) : "—"}</div>
+            {metrics.actualVsEstimate && <div className="sub">{signedPct(metrics.actualVsEstimate.pct)}</div>}
+          </div>
+          <div className="kpi" title={info.estimatedTime ? `Crew-hours vs estimated ${info.estimatedTime}` : "Set Estimated Time in General Info"}>
+            <div className="label">Crew-hrs vs Estimate</div>
+            <div className="num">{metrics.crewVsEstimate ? signedHMS(metrics.crewVsEstimate.ms) : "—"}</div>
+            {metrics.crewVsEstimate && <div className="sub">{signedPct(metrics.crewVsEstimate.pct)}</div>}
+          </div>
         </div>
+
+        {metrics.elements.length > 0 && (
+          <div className="table-wrap" style={{ marginTop: 10 }}>
+            <table>
+              <thead>
+                <tr>
+                  <th>Element</th>
+                  <th>Touch</th>
+                  <th>Elapsed</th>
+                  <th>Avg Crew</th>
+                  <th>Peak Crew</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.elements.map((el, i) => (
+                  <tr key={el.id}>
+                    <td>
+                      {i + 1}. {el.name}
+                    </td>
+                    <td className="mono">{msToHMS(el.touchMs)}</td>
+                    <td className="mono">{msToHMS(el.elapsedMs)}</td>
+                    <td className="mono">{el.avgCrew.toFixed(2)}</td>
+                    <td className="mono">{el.maxCrew}</td>
+                  </tr>
+                ))}
+                {metrics.unassignedTouchMs > 0 && (
+                  <tr>
+                    <td className="meta">(no element)</td>
+                    <td className="mono">{msToHMS(metrics.unassignedTouchMs)}</td>
+                    <td colSpan={3}></td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {metrics.cycleStats.count > 0 && (
+          <div className="table-wrap" style={{ marginTop: 10 }}>
+            <table>
+              <thead>
+                <tr>
+                  <th>Cycles</th>
+                  <th>Count</th>
+                  <th>Mean</th>
+                  <th>Min</th>
+                  <th>Max</th>
+                  <th>Std Dev</th>
+                  <th title="Cycles outside 1.5 × IQR of the pooled sample">Outliers</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[
+                  { key: "all", label: "All crew", st: metrics.cycleStats },
+                  ...metrics.employees.filter((m) => m.cycles.count > 0).map((m) => ({ key: String(m.id), label: m.name, st: m.cycles })),
+                ].map(({ key, label, st }) => (
+                  <tr key={key}>
+                    <td style={{ fontWeight: key === "all" ? 700 : undefined }}>{label}</td>
+                    <td className="mono">{st.count}</td>
+                    <td className="mono">{msToHMS(st.mean)}</td>
+                    <td className="mono">{msToHMS(st.min)}</td>
+                    <td className="mono">{msToHMS(st.max)}</td>
+                    <td className="mono">{msToHMS(st.sd)}</td>
+                    <td className="mono">
+                      {key === "all"
+                        ? st.outliers.length
+                        : metrics.cycles.filter((c) => String(c.employeeId) === key && c.outlier).length}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <DelayPareto rows={metrics.pareto} theme={theme} />
       </section>
 
 <section className="section card emp-card">
@@ -1879,14 +4036,42 @@ function cancelTimeEdit() {
           </div>
         </div>
 
+        {!samplingOn && employees.length > 0 && (
+          <div className="bulk-bar">
+            <label className="meta" style={{ display: "flex", alignItems: "center", gap: 6 }}>
+              <input
+                type="checkbox"
+                checked={selected.length === employees.length}
+                onChange={(e) => setSelectedIds(e.target.checked ? employees.map((x) => x.id) : [])}
+              />
+              Select all
+            </label>
+            <span className="meta">{selected.length} selected</span>
+            <button className="btn green" disabled={!selected.length} onClick={() => startTimers(selected)}>
+              Start selected
+            </button>
+            <button className="btn yellow" disabled={!eligibleFor("pause", selected).length} onClick={() => requestBulk("pause", selected)}>
+              Pause selected
+            </button>
+            <button className="btn red" disabled={!eligibleFor("stop", selected).length} onClick={() => requestBulk("stop", selected)}>
+              Stop selected
+            </button>
+            {selected.length > 0 && (
+              <button className="btn ghost" onClick={() => setSelectedIds([])}>
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
         <ul className="card-list">
           {employees.map((emp) => {
-            const { active, idle, total } = liveTimes(emp);
+            const { status, active, idle, total } = liveTimes(emp);
             const hasAnyTime = active > 0 || idle > 0 || emp.logs.length > 0;
             const statusClass =
-              emp.status === "active"
+              status === "active"
                 ? "emp-active"
-                : emp.status === "paused"
+                : status === "paused"
                 ? "emp-paused"
                 : hasAnyTime
                 ? "emp-stopped"
@@ -1896,6 +4081,10 @@ function cancelTimeEdit() {
               setEmployees((prev) => prev.map((e) => (e.id === emp.id ? { ...e, role: v } : e)));
             const setSkill = (v: string) =>
               setEmployees((prev) => prev.map((e) => (e.id === emp.id ? { ...e, skill: v } : e)));
+            const setRating = (v: number) => {
+              if (!Number.isFinite(v) || v < 1 || v > 300) return;
+              setEmployees((prev) => prev.map((e) => (e.id === emp.id ? { ...e, rating: v } : e)));
+            };
 
             const roleIsPreset = emp.role && ROLE_OPTIONS.includes(emp.role as any);
             const skillIsPreset = emp.skill && SKILL_OPTIONS.includes(emp.skill as any);
@@ -1911,7 +4100,17 @@ function cancelTimeEdit() {
                   ×
                 </button>
                 <div>
-                  <div style={{ fontWeight: 700, fontSize: 16 }}>{emp.name}</div>
+                  <div style={{ fontWeight: 700, fontSize: 16, display: "flex", alignItems: "center", gap: 8 }}>
+                    {!samplingOn && (
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${emp.name}`}
+                        checked={selected.includes(emp.id)}
+                        onChange={() => toggleSelected(emp.id)}
+                      />
+                    )}
+                    {emp.name}
+                  </div>
 
                   {/* Role + Skill */}
                   <div style={{ display: "grid", gridTemplateColumns: "minmax(140px, 1fr) minmax(140px, 1fr)", gap: 8, margin: "6px 0 8px" }}>
@@ -1986,36 +4185,83 @@ function cancelTimeEdit() {
                     </div>
                   </div>
 
+                  {/* Work element the employee is on */}
+                  {info.elements.length > 0 && (
+                    <div style={{ margin: "0 0 8px" }}>
+                      <div className="meta" style={{ marginBottom: 4 }}>
+                        Element
+                      </div>
+                      <select
+                        className="btn"
+                        value={elementNow.get(emp.id) ?? ""}
+                        onChange={(e) => switchElement(emp.id, e.target.value ? Number(e.target.value) : undefined)}
+                        title="Touch time counts toward this element while the employee is Active"
+                      >
+                        <option value="">(none)</option>
+                        {info.elements.map((el, i) => (
+                          <option key={el.id} value={el.id}>
+                            {i + 1}. {el.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {/* Performance rating */}
+                  <label style={{ display: "flex", gap: 8, alignItems: "center", margin: "0 0 8px" }}>
+                    <span className="meta">Rating %</span>
+                    <input
+                      type="number"
+                      min={50}
+                      max={150}
+                      step={5}
+                      value={emp.rating ?? 100}
+                      onChange={(e) => setRating(Number(e.target.value))}
+                      style={{ width: 80 }}
+                      title="Pace vs normal (100% = normal); touch time × rating = normal time"
+                    />
+                  </label>
                 </div>
-                <div style={{ display: "flex", gap: 8 }}>
-                  <button
-                    className="btn green"
-                    onClick={() => startTimer(emp.id)}
-                    disabled={emp.status === "active"}
-                    aria-disabled={emp.status === "active"}
-                    title={emp.status === "active" ? "Already running" : "Start timer"}
-                  >
-                    Start
-                  </button>
-                  <button
-                    className="btn yellow"
-                    onClick={() => requestPause(emp.id)}
-                    disabled={emp.status !== "active"}
-                    aria-disabled={emp.status !== "active"}
-                    title={emp.status !== "active" ? "Nothing to pause" : "Pause timer"}
-                  >
-                    Pause
-                  </button>
-                  <button
-                    className="btn red"
-                    onClick={() => requestStop(emp.id)}
-                    disabled={emp.status === "idle"}
-                    aria-disabled={emp.status === "idle"}
-                    title={emp.status === "idle" ? "Nothing to stop" : "Stop timer"}
-                  >
-                    Stop
-                  </button>
-                </div>
+                {!samplingOn && (
+                  <div style={{ display: "flex", gap: 8 }}>
+                    <button
+                      className="btn green"
+                      onClick={() => startTimer(emp.id)}
+                      disabled={status === "active"}
+                      aria-disabled={status === "active"}
+                      title={status === "active" ? "Already running" : "Start timer"}
+                    >
+                      Start
+                    </button>
+                    <button
+                      className="btn blue"
+                      onClick={() => lapTimer(emp.id)}
+                      disabled={status !== "active"}
+                      aria-disabled={status !== "active"}
+                      title={status !== "active" ? "Start the timer to record laps" : "End this cycle and start the next (keeps running)"}
+                    >
+                      Lap
+                    </button>
+                    <button
+                      className="btn yellow"
+                      onClick={() => requestPause(emp.id)}
+                      disabled={status !== "active"}
+                      aria-disabled={status !== "active"}
+                      title={status !== "active" ? "Nothing to pause" : "Pause timer"}
+                    >
+                      Pause
+                    </button>
+                    <button
+                      className="btn red"
+                      onClick={() => requestStop(emp.id)}
+                      disabled={status === "idle"}
+                      aria-disabled={status === "idle"}
+                      title={status === "idle" ? "Nothing to stop" : "Stop timer"}
+                    >
+                      Stop
+                    </button>
+                  </div>
+                )}
                 <div
                   className="card-status"
                   style={{ flexBasis: "100%" }}
@@ -2023,16 +4269,16 @@ function cancelTimeEdit() {
                   <span
                     className={
                       "state " +
-                      (emp.status === "active"
+                      (status === "active"
                         ? "state-active"
-                        : emp.status === "paused"
+                        : status === "paused"
                         ? "state-paused"
                         : "state-stopped")
                     }
                   >
-                    {emp.status === "idle"
+                    {status === "idle"
                       ? "Stopped"
-                      : emp.status === "paused"
+                      : status === "paused"
                       ? "Paused"
                       : "Active"}
                   </span>
@@ -2093,6 +4339,34 @@ function cancelTimeEdit() {
             </label>
           </div>
 
+          {/* Time Zone */}
+          <div className="gi-field">
+            <label className="stack">
+              <span>Time Zone</span>
+              <select name="timeZone" value={info.timeZone} onChange={handleInfoChange}>
+                {(TIME_ZONES.includes(info.timeZone) ? TIME_ZONES : [info.timeZone, ...TIME_ZONES]).map((tz) => (
+                  <option key={tz} value={tz}>
+                    {tz}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Day Start (shift boundary for the daily breakdown) */}
+          <div className="gi-field">
+            <label className="stack">
+              <span>Day Starts At</span>
+              <input
+                type="time"
+                name="dayStart"
+                value={info.dayStart}
+                onChange={(e) => setInfo((prev) => ({ ...prev, dayStart: e.target.value || "00:00" }))}
+                title="Daily breakdown buckets begin at this time (e.g. 06:00 for shift work)"
+              />
+            </label>
+          </div>
+
           {/* Observer */}
           <div className="gi-field">
             <label className="stack">
@@ -2250,7 +4524,29 @@ function cancelTimeEdit() {
                 name="estimatedTime"
                 value={info.estimatedTime || ""}
                 onChange={handleInfoChange}
-                placeholder="e.g., 03:30 (HH:MM)"
+                placeholder="e.g., 2h 30m, 02:30, 2.5"
+                aria-invalid={!!estimateError(info.estimatedTime)}
+                title={`Duration as ${ESTIMATE_FORMATS}`}
+              />
+              {estimateError(info.estimatedTime) && <small className="field-error">{estimateError(info.estimatedTime)}</small>}
+            </label>
+          </div>
+
+          {/* PF&D allowance */}
+          <div className="gi-field">
+            <label className="stack">
+              <span>PF&amp;D Allowance (%)</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={1}
+                value={info.allowancePct}
+                onChange={(e) => {
+                  const n = Number(e.target.value);
+                  if (e.target.value !== "" && Number.isFinite(n) && n >= 0 && n <= 100) setInfo((prev) => ({ ...prev, allowancePct: n }));
+                }}
+                title="Personal, fatigue and delay allowance added to normal time to get standard time"
               />
             </label>
           </div>
@@ -2293,6 +4589,22 @@ function cancelTimeEdit() {
             </label>
           </div>
 
+          {/* Study mode */}
+          <div className="gi-field">
+            <label className="stack">
+              <span>Study Mode</span>
+              <select
+                value={info.mode}
+                onChange={(e) => setInfo((prev) => ({ ...prev, mode: e.target.value === "sampling" ? "sampling" : "timing" }))}
+                className="btn"
+                title="Continuous timing with Start/Pause/Stop, or work sampling with random observation rounds"
+              >
+                <option value="timing">Continuous timing</option>
+                <option value="sampling">Work sampling</option>
+              </select>
+            </label>
+          </div>
+
           {/* Observation Scope */}
           <div className="gi-field">
             <label className="stack">
@@ -2310,7 +4622,93 @@ function cancelTimeEdit() {
           </div>
         </div>
 
+        {/* Shift calendar: time outside the shift or inside a break is planned, not idle */}
+        <div className="shift-calendar" style={{ marginTop: 12, display: "grid", gap: 8 }}>
+          <div style={{ display: "flex", gap: 12, alignItems: "flex-end", flexWrap: "wrap" }}>
+            <div className="gi-field">
+              <label className="stack">
+                <span>Shift Start</span>
+                <input
+                  type="time"
+                  value={info.shift.start}
+                  onChange={(e) => setInfo((prev) => ({ ...prev, shift: { ...prev.shift, start: e.target.value } }))}
+                  title="Leave blank when the study has no set shift hours"
+                />
+              </label>
+            </div>
+            <div className="gi-field">
+              <label className="stack">
+                <span>Shift End</span>
+                <input
+                  type="time"
+                  value={info.shift.end}
+                  onChange={(e) => setInfo((prev) => ({ ...prev, shift: { ...prev.shift, end: e.target.value } }))}
+                  title="An end before the start runs overnight"
+                />
+              </label>
+            </div>
+            <button className="btn ghost" onClick={addShiftBreak}>
+              + Scheduled Break
+            </button>
+          </div>
+          {info.shift.breaks.map((b) => (
+            <div key={b.id} style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <input
+                type="text"
+                value={b.label}
+                onChange={(e) => updateShiftBreak(b.id, { label: e.target.value })}
+                placeholder="e.g., Lunch"
+                style={{ width: 160 }}
+              />
+              <input type="time" value={b.start} onChange={(e) => updateShiftBreak(b.id, { start: e.target.value })} />
+              <span>to</span>
+              <input type="time" value={b.end} onChange={(e) => updateShiftBreak(b.id, { end: e.target.value })} />
+              <button className="btn red" onClick={() => removeShiftBreak(b.id)}>
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
 
+        {/* Work elements: ordered task steps employees are timed against */}
+        <div className="work-elements" style={{ marginTop: 12, display: "grid", gap: 8 }}>
+          <h4 style={{ margin: 0 }}>Work Elements</h4>
+          <div style={{ display: "flex", gap: 8 }}>
+            <input
+              type="text"
+              value={newElementName}
+              onChange={(e) => setNewElementName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && addElement()}
+              placeholder="e.g., Remove panel"
+              style={{ flex: 1 }}
+            />
+            <button className="btn blue" onClick={addElement}>
+              Add Element
+            </button>
+          </div>
+          {info.elements.map((el, i) => (
+            <div key={el.id} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <span className="mono" style={{ width: 24 }}>{i + 1}.</span>
+              <input type="text" value={el.name} onChange={(e) => renameElement(el.id, e.target.value)} style={{ flex: 1 }} />
+              <input
+                type="number"
+                min={50}
+                max={150}
+                step={5}
+                value={el.rating ?? ""}
+                onChange={(e) => rateElement(el.id, e.target.value)}
+                placeholder="Rating %"
+                style={{ width: 96 }}
+                title="Rating for this element; blank uses each employee's rating"
+              />
+              <button className="btn ghost" onClick={() => moveElement(el.id, -1)} disabled={i === 0} title="Move up">↑</button>
+              <button className="btn ghost" onClick={() => moveElement(el.id, 1)} disabled={i === info.elements.length - 1} title="Move down">↓</button>
+              <button className="btn red" onClick={() => removeElement(el.id)}>
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
       </section>
 
       
@@ -2344,7 +4742,7 @@ function cancelTimeEdit() {
           {sortedTaskLog.map((n) => (
             <li key={n.id} style={{ display: "flex", alignItems: "center", gap: 10 }}>
               <span style={{ whiteSpace: "pre-wrap", flex: 1 }}>
-                {fmtStamp(n.at, info.multiDay)}: {n.text}
+                {fmtStamp(n.at, info.multiDay, info.timeZone)}: {n.text}
               </span>
               <button
                 className="btn ghost"
@@ -2401,12 +4799,20 @@ function cancelTimeEdit() {
           <button
             className="btn blue"
             type="button"
-            onClick={generateSummaryWithAI}
-            disabled={aiBusy}
-            aria-disabled={aiBusy ? "true" : "false"}
-            title="Generate summary using AI"
+            onClick={() => generateSummaryWithAI()}
+            disabled={aiBusy || !canSummarize}
+            aria-disabled={aiBusy || !canSummarize ? "true" : "false"}
+            title={
+              !canSummarize
+                ? principal
+                  ? "AI summaries need the Observer, Analyst or Admin role"
+                  : "Sign in to generate summaries with AI"
+                : aiQueued
+                  ? "Waiting for a connection; click to retry now"
+                  : "Generate summary using AI"
+            }
           >
-            {aiBusy ? "Generating…" : "Generate with AI"}
+            {aiBusy ? "Generating…" : aiQueued ? "Queued — waiting for connection" : "Generate with AI"}
           </button>
           <button
             className="btn ghost"
@@ -2461,11 +4867,18 @@ function cancelTimeEdit() {
         <h2>Time Log</h2>
         <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
           <div className="meta">{sortedTimeLog.length} entries</div>
-          {sortedTimeLog.length > 0 && (
-            <button className="btn ghost" onClick={clearTimeLog} title="Delete all time log entries">
-              Delete All
-            </button>
-          )}
+          <div style={{ display: "flex", gap: 6 }}>
+            {employees.length > 0 && (
+              <button className="btn ghost" onClick={startInsertTimeEntry} title="Add a missed Start/Pause/Stop">
+                Add Entry
+              </button>
+            )}
+            {sortedTimeLog.length > 0 && (
+              <button className="btn ghost" onClick={clearTimeLog} title="Delete all time log entries">
+                Delete All
+              </button>
+            )}
+          </div>
         </div>
         <table style={{ width: "100%", borderCollapse: "collapse" }}>
           <thead>
@@ -2481,16 +4894,24 @@ function cancelTimeEdit() {
           <tbody>
             {sortedTimeLog.map(t => (
               <tr key={t.id}>
-                <td className="mono">{fmtStamp(t.at, info.multiDay)}</td>
+                <td className="mono">{fmtStamp(t.at, info.multiDay, info.timeZone)}</td>
                 <td>{t.employeeName}</td>
-                <td className="cap">{t.event}</td>
+                <td className="cap">
+                  {t.event === "element"
+                    ? `Element: ${elementLabel(t.elementId)}`
+                    : t.event === "lap" && cycleByLap.has(t.id)
+                    ? `Lap #${cycleByLap.get(t.id)!.index} · ${msToHMS(cycleByLap.get(t.id)!.ms)}`
+                    : t.event === "gap"
+                    ? `Clock gap · ${msToHMS(Math.abs(t.gapMs ?? 0))}`
+                    : t.event}
+                </td>
                 <td>{t.reasonCode || ""}</td>
                 <td>{t.comment || ""}</td>
                 <td>
                   <button
                     className="btn ghost"
                     onClick={() => startEditTimeEntry(t)}
-                    title="Edit reason/comment"
+                    title="Edit time, reason or comment"
                   >
                     Edit
                   </button>
@@ -2515,17 +4936,75 @@ function cancelTimeEdit() {
         {editingTime && (
           <div className="modal-backdrop" onClick={cancelTimeEdit}>
             <div className="modal" onClick={(e) => e.stopPropagation()}>
-              <header><h3>Edit Time Entry</h3></header>
+              <header><h3>{editingTime.id == null ? "Add Time Entry" : "Edit Time Entry"}</h3></header>
               <div className="body">
-                <h4>Reason code</h4>
+                {editingTime.id == null && (
+                  <div style={{ display: "flex", gap: 8, marginBottom: 10 }}>
+                    <select
+                      value={editingTime.employeeId ?? ""}
+                      onChange={(e) => setEditingTime({ ...editingTime, employeeId: Number(e.target.value), error: "" })}
+                      style={{ flex: 1 }}
+                    >
+                      {employees.map((e) => (
+                        <option key={e.id} value={e.id}>{e.name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={editingTime.event}
+                      onChange={(e) => setEditingTime({ ...editingTime, event: e.target.value as TimeEvent, error: "" })}
+                    >
+                      <option value="start">Start</option>
+                      <option value="pause">Pause</option>
+                      <option value="stop">Stop</option>
+                      <option value="lap">Lap</option>
+                      {info.elements.length > 0 && <option value="element">Element</option>}
+                    </select>
+                  </div>
+                )}
+                <h4>When</h4>
                 <input
-                  type="text"
+                  type="datetime-local"
+                  step={1}
                   className="other-input"
                   style={{ width: "100%" }}
-                  value={editingTime.reason}
-                  onChange={(e) => onEditTimeChange("reason", e.target.value)}
-                  placeholder="e.g., Waiting on parts"
+                  value={editingTime.when}
+                  onChange={(e) => onEditTimeChange("when", e.target.value)}
                 />
+                {editingTime.event === "element" ? (
+                  <>
+                    <h4 style={{ marginTop: 10 }}>Work element</h4>
+                    <select
+                      value={editingTime.elementId ?? ""}
+                      onChange={(e) => setEditingTime({ ...editingTime, elementId: e.target.value ? Number(e.target.value) : undefined, error: "" })}
+                      style={{ width: "100%" }}
+                    >
+                      <option value="">(none)</option>
+                      {info.elements.map((el, i) => (
+                        <option key={el.id} value={el.id}>
+                          {i + 1}. {el.name}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                ) : (
+                  <>
+                    <h4 style={{ marginTop: 10 }}>Reason code</h4>
+                    <input
+                      type="text"
+                      className="other-input"
+                      style={{ width: "100%" }}
+                      value={editingTime.reason}
+                      onChange={(e) => onEditTimeChange("reason", e.target.value)}
+                      placeholder="e.g., Waiting on parts"
+                      list="time-edit-reasons"
+                    />
+                    <datalist id="time-edit-reasons">
+                      {(editingTime.event === "stop" ? reasonsFor(reasons, "stop") : reasonsFor(reasons, "pause")).map((r) => (
+                        <option key={r.id} value={r.code} />
+                      ))}
+                    </datalist>
+                  </>
+                )}
                 <h4 style={{ marginTop: 10 }}>Comment (optional)</h4>
                 <textarea
                   rows={3}
@@ -2541,6 +5020,9 @@ function cancelTimeEdit() {
                   onChange={(e) => onEditTimeChange("comment", e.target.value)}
                   placeholder="Add more detail…"
                 />
+                {editingTime.error && (
+                  <p className="save-warning" role="alert" style={{ marginTop: 10 }}>{editingTime.error}</p>
+                )}
               </div>
               <footer>
                 <button className="btn" onClick={cancelTimeEdit}>Cancel</button>
@@ -2550,20 +5032,90 @@ function cancelTimeEdit() {
           </div>
         )}
       </section>
+      </fieldset>
 
       <p className="footer-hint">
         Tip: Export HTML and “Save as PDF” if Safari blocks direct PDF downloads.
       </p>
 
+      {clockGap && (
+        <ClockGapModal gap={clockGap} timeZone={info.timeZone} onDecide={resolveClockGap} />
+      )}
+
       {pendingReason && (
         <ReasonModal
           open={!!pendingReason}
           action={pendingReason.action}
+          count={pendingReason.ids.length}
+          options={reasonsFor(reasons, pendingReason.action).map((r) => r.code)}
           onCancel={cancelReason}
           onConfirm={confirmReason}
         />
       )}
 
+      {reasonsOpen && (
+        <ReasonCatalogModal open={reasonsOpen} reasons={reasons} onSave={saveReasonCatalog} onClose={() => setReasonsOpen(false)} />
+      )}
+
+      {libraryOpen && (
+        <StudyLibraryModal
+          open={libraryOpen}
+          studies={studies}
+          activeId={studyId}
+          onOpen={openStudy}
+          onNew={newStudy}
+          onImport={importStudy}
+          onImportSheets={importSheets}
+          onDuplicate={duplicateStudyById}
+          onArchive={archiveStudy}
+          onDelete={deleteStudyById}
+          onClose={() => setLibraryOpen(false)}
+        />
+      )}
+
+      {syncOpen && (
+        <SyncModal
+          open={syncOpen}
+          rows={syncRows}
+          activeId={studyId}
+          viewOnly={viewOnly}
+          canPush={hasRole(principal, "observer", "admin")}
+          checkedAt={syncCheckedAt}
+          error={syncError}
+          busy={syncBusy}
+          onRefresh={refreshSync}
+          onPush={pushRow}
+          onPull={pullRow}
+          onPushAll={pushAll}
+          onPullAll={pullAll}
+          onClose={() => setSyncOpen(false)}
+        />
+      )}
+
+      {dashboardOpen && (
+        <DashboardModal open={dashboardOpen} studies={studies} activeId={studyId} theme={theme} onOpen={openStudy} onClose={() => setDashboardOpen(false)} />
+      )}
+
+      {samplingRound && (
+        <SamplingRoundModal
+          round={nextRound(samples)}
+          scheduledAt={samplingRound.scheduledAt}
+          timeZone={info.timeZone}
+          employees={employees}
+          options={reasonsFor(reasons, "pause").map((r) => r.code)}
+          onSkip={skipRound}
+          onSave={recordRound}
+        />
+      )}
+
+      {sampleSizeOpen && (
+        <SampleSizeModal open={sampleSizeOpen} studies={studies} info={info} activeId={studyId} onClose={() => setSampleSizeOpen(false)} />
+      )}
+
+      {importIssues && (
+        <ImportIssuesModal open fileName={importIssues.fileName} issues={importIssues.issues} onClose={() => setImportIssues(null)} />
+      )}
+
       {confirmBox && (
         <ConfirmModal
           open={confirmBox.open}
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { currentPrincipal, hasRole, loadPrincipal, rolesOf, type Principal } from "./Auth";
+
+const ann: Principal = { identityProvider: "aad", userId: "u1", userDetails: "ann@example.com", userRoles: ["anonymous", "authenticated", "observer"] };
+
+describe("roles", () => {
+  it("checks app roles and lists them in label order", () => {
+    expect(hasRole(ann, "observer")).toBe(true);
+    expect(hasRole(ann, "analyst", "admin")).toBe(false);
+    expect(hasRole(null, "observer")).toBe(false);
+    expect(rolesOf({ ...ann, userRoles: ["admin", "authenticated", "observer"] })).toEqual(["observer", "admin"]);
+    expect(rolesOf(null)).toEqual([]);
+  });
+});
+
+describe("loadPrincipal in production", () => {
+  const saved = new Map<string, string>();
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  beforeEach(() => {
+    vi.stubEnv("DEV", false);
+    vi.stubGlobal("navigator", { onLine: true });
+    vi.stubGlobal("localStorage", {
+      getItem: (k: string) => saved.get(k) ?? null,
+      setItem: (k: string, v: string) => void saved.set(k, v),
+      removeItem: (k: string) => void saved.delete(k),
+    });
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  const answer = (res: Response | Error) =>
+    vi.stubGlobal("fetch", vi.fn(() => (res instanceof Error ? Promise.reject(res) : Promise.resolve(res))));
+
+  it("uses the remembered principal only when the server can't be reached", async () => {
+    answer(json({ clientPrincipal: ann }));
+    expect(await loadPrincipal()).toEqual(ann);
+    answer(new TypeError("Failed to fetch"));
+    expect(await loadPrincipal()).toEqual(ann);
+  });
+
+  it("signs out on an error or non-JSON answer, so revoked roles aren't kept", async () => {
+    answer(json({ clientPrincipal: ann }));
+    await loadPrincipal();
+    answer(json({ error: "boom" }, 500));
+    expect(await loadPrincipal()).toBeNull();
+    answer(new TypeError("Failed to fetch"));
+    expect(await loadPrincipal()).toBeNull();
+
+    answer(json({ clientPrincipal: ann }));
+    await loadPrincipal();
+    answer(new Response("<!doctype html>", { headers: { "Content-Type": "text/html" } }));
+    expect(await loadPrincipal()).toBeNull();
+    expect(currentPrincipal()).toBeNull();
+  });
+
+  it("signs out when the server says nobody is signed in", async () => {
+    answer(json({ clientPrincipal: null }));
+    expect(await loadPrincipal()).toBeNull();
+  });
+});
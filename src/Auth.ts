@@ -0,0 +1,117 @@
+// src/Auth.ts
+// Who is signed in, from Azure Static Web Apps' built-in authentication (GET /.auth/me). The app itself
+// works signed out (everything stays on this device); the AI summary and the sync server need a role,
+// enforced by staticwebapp.config.json and again by the functions (api/shared/auth.js).
+//
+//  - The last principal is remembered, so the observer name still fills in when the app opens offline.
+//    It stands in only when /.auth/me can't be reached: any answer from the server, including an error
+//    or something that isn't JSON, signs the user out here, so revoked roles don't linger in the UI.
+//  - Development: `vite` has no /.auth endpoints, so a mock principal stands in (VITE_MOCK_PRINCIPAL as
+//    JSON, or "none" to develop signed out). Under the SWA CLI its own emulated sign-in is used instead.
+
+import { isNetworkFailure } from "./Offline";
+
+export type Role = "observer" | "analyst" | "admin";
+
+export const ROLE_LABELS: Record<Role, string> = {
+  observer: "Observer",
+  analyst: "Analyst",
+  admin: "Admin",
+};
+
+export interface Principal {
+  identityProvider: string;
+  userId: string;
+  userDetails: string; // email or user name, depending on the provider
+  userRoles: string[]; // includes "anonymous" and "authenticated" besides the roles above
+}
+
+export const LOGIN_URL = "/login";
+export const LOGOUT_URL = "/logout";
+
+const PRINCIPAL_KEY = "work-measurement:principal";
+const ME_TIMEOUT_MS = 4_000; // don't hold up opening the app on a bad connection
+
+const DEV_PRINCIPAL: Principal = {
+  identityProvider: "dev",
+  userId: "local-dev",
+  userDetails: "Local Developer",
+  userRoles: ["anonymous", "authenticated", "observer", "analyst", "admin"],
+};
+
+let current: Principal | null = null;
+
+/** The principal found by loadPrincipal(), or null when signed out. */
+export const currentPrincipal = () => current;
+
+function readPrincipal(raw: unknown): Principal | null {
+  const p = raw as Partial<Principal> | null;
+  if (!p || typeof p !== "object" || (!p.userDetails && !p.userId)) return null;
+  return {
+    identityProvider: String(p.identityProvider ?? ""),
+    userId: String(p.userId ?? ""),
+    userDetails: String(p.userDetails ?? ""),
+    userRoles: Array.isArray(p.userRoles) ? p.userRoles.map(String) : [],
+  };
+}
+
+function mockPrincipal(): Principal | null {
+  const raw = import.meta.env.VITE_MOCK_PRINCIPAL;
+  if (!raw) return DEV_PRINCIPAL;
+  if (raw === "none") return null;
+  try {
+    return readPrincipal(JSON.parse(raw));
+  } catch {
+    console.warn("VITE_MOCK_PRINCIPAL is not valid JSON; using the default mock principal");
+    return DEV_PRINCIPAL;
+  }
+}
+
+function remember(p: Principal | null) {
+  current = p;
+  try {
+    if (p) localStorage.setItem(PRINCIPAL_KEY, JSON.stringify(p));
+    else localStorage.removeItem(PRINCIPAL_KEY);
+  } catch {
+    // ignore
+  }
+  return p;
+}
+
+function remembered(): Principal | null {
+  try {
+    return readPrincipal(JSON.parse(localStorage.getItem(PRINCIPAL_KEY) || "null"));
+  } catch {
+    return null;
+  }
+}
+
+/** Ask Static Web Apps who is signed in; falls back to the remembered principal only when offline. */
+export async function loadPrincipal(): Promise<Principal | null> {
+  const abort = new AbortController();
+  const timer = setTimeout(() => abort.abort(), ME_TIMEOUT_MS);
+  try {
+    const res = await fetch("/.auth/me", { signal: abort.signal, cache: "no-store" });
+    const json = res.ok && (res.headers.get("Content-Type") || "").includes("json") ? await res.json() : null;
+    // Anything but JSON means there is no auth endpoint here (the dev server answers with index.html).
+    if (!json) return remember(import.meta.env.DEV ? mockPrincipal() : null);
+    return remember(readPrincipal(json.clientPrincipal));
+  } catch (err) {
+    if (import.meta.env.DEV) return (current = mockPrincipal());
+    return isNetworkFailure(err) || abort.signal.aborted ? (current = remembered()) : remember(null);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function hasRole(p: Principal | null, ...roles: Role[]) {
+  return !!p && roles.some((r) => p.userRoles.includes(r));
+}
+
+/** The app roles the principal holds, in ROLE_LABELS order. */
+export function rolesOf(p: Principal | null): Role[] {
+  return (Object.keys(ROLE_LABELS) as Role[]).filter((r) => hasRole(p, r));
+}
+
+/** Observer name for new studies: the signed-in user, else "". */
+export const identityName = () => current?.userDetails || "";
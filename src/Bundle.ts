@@ -0,0 +1,52 @@
+// src/Bundle.ts
+// Full-fidelity study export: the complete AppState (raw time events, notes and photos as data URLs)
+// wrapped with a format tag so it can be loaded back on another device.
+
+import type { AppInfo, AppState } from "./Model";
+import { migrateState } from "./Schema";
+
+export const BUNDLE_FORMAT = "work-measurement-study";
+
+export interface StudyBundle {
+  format: typeof BUNDLE_FORMAT;
+  exportedAt: string;
+  study: AppState;
+}
+
+export function buildStudyBundle(state: AppState): string {
+  const bundle: StudyBundle = { format: BUNDLE_FORMAT, exportedAt: new Date().toISOString(), study: state };
+  return JSON.stringify(bundle, null, 2);
+}
+
+export function bundleFileName(info: AppInfo) {
+  const slug = [info.workOrder, info.task, info.date]
+    .map((s) => (s || "").trim())
+    .filter(Boolean)
+    .join("_")
+    .replace(/[^a-z0-9._-]+/gi, "-")
+    .replace(/^-+|-+$/g, "");
+  return `work_measurement_study${slug ? `_${slug}` : ""}.json`;
+}
+
+/**
+ * Parse an exported bundle (or a bare AppState) and run it through the same migration and
+ * validation as studies loaded from storage. Throws an Error with a user-facing message.
+ */
+export function parseStudyBundle(text: string, fallbackObserver = ""): AppState {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!parsed || typeof parsed !== "object") throw new Error("The file does not contain a study.");
+  const obj = parsed as Record<string, unknown>;
+  if ("format" in obj && obj.format !== BUNDLE_FORMAT) {
+    throw new Error(`Unsupported file format "${String(obj.format)}".`);
+  }
+  const raw = obj.format === BUNDLE_FORMAT ? obj.study : obj;
+  if (!raw || typeof raw !== "object" || !("info" in raw)) {
+    throw new Error("The file does not contain a study.");
+  }
+  return migrateState(raw, fallbackObserver);
+}
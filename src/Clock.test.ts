@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { acceptedOffset } from "./Clock";
+import type { GapDecision, GapKind, TimeLogEntry } from "./Model";
+
+const gap = (at: number, gapKind: GapKind, gapDecision: GapDecision, gapMs: number): TimeLogEntry => ({
+  id: at,
+  at,
+  employeeId: null,
+  employeeName: "Crew",
+  event: "gap",
+  gapKind,
+  gapMs,
+  gapDecision,
+});
+
+describe("acceptedOffset", () => {
+  it("is zero without kept jumps", () => {
+    expect(acceptedOffset([])).toBe(0);
+    expect(acceptedOffset([gap(1, "suspend", "counted", 600_000), gap(2, "jump", "shifted", 120_000)])).toBe(0);
+  });
+
+  it("adds up kept jumps in time order and starts over at a shifted one", () => {
+    expect(acceptedOffset([gap(3, "jump", "kept", -90_000), gap(1, "jump", "kept", 120_000)])).toBe(30_000);
+    expect(acceptedOffset([gap(3, "jump", "kept", 60_000), gap(2, "jump", "shifted", 0), gap(1, "jump", "kept", 120_000)])).toBe(60_000);
+  });
+});
@@ -0,0 +1,123 @@
+// src/Clock.ts
+// The study clock: performance.now() anchored to the wall clock, so timers keep counting evenly when
+// the device clock is corrected mid-study. It also watches for the two ways a gap appears:
+//
+//  - "suspend": the app stopped running for a while (iPad asleep, tab frozen). Noticed when more than
+//    SUSPEND_MS passed since the last check on performance.now(), or on the device clock if the page
+//    was hidden meanwhile (some browsers stop performance.now() while the device sleeps).
+//  - "jump": the device clock moved against the study clock by more than JUMP_MS while the app kept
+//    running (manual change, NTP correction, time zone change on some devices).
+//
+// Nothing is changed until the observer decides; each decision is logged as a "gap" time log entry.
+// Those entries are also what carries a "Keep the study clock" difference across reloads (restoreClock).
+
+import type { AppState, GapDecision, GapKind, TimeLogEntry } from "./Model";
+
+export const SUSPEND_MS = 5 * 60_000; // longer than browsers throttle timers in background tabs
+export const JUMP_MS = 60_000;
+
+export interface ClockGap {
+  kind: GapKind;
+  from: number; // suspend: study clock at the last check; jump: study clock when noticed
+  to: number;   // suspend: study clock once resynced; jump: device clock when noticed
+  ms: number;   // suspend: length of the gap; jump: how far the device clock moved (negative = set back)
+}
+
+export const GAP_CHOICES: Record<GapKind, { decision: GapDecision; label: string; hint: string }[]> = {
+  suspend: [
+    { decision: "counted", label: "Count it", hint: "The crew kept going; timers include the gap." },
+    { decision: "paused", label: "Pause during the gap", hint: "Active employees are paused for the gap (reason “Clock gap”)." },
+  ],
+  jump: [
+    { decision: "shifted", label: "Use the device clock", hint: "The old time was wrong; earlier entries move by the difference." },
+    { decision: "kept", label: "Keep the study clock", hint: "The device clock is wrong; keep timing as before." },
+  ],
+};
+
+/** Pause reason for the time taken out by a "paused" decision. */
+export const GAP_REASON = "Clock gap";
+
+let anchorWall = Date.now();
+let anchorPerf = performance.now();
+let offset = 0; // device − study clock that has been accepted
+let last = { wall: anchorWall, perf: anchorPerf, study: anchorWall };
+
+/** Current time on the study clock (epoch ms). */
+export function now() {
+  return Math.round(anchorWall + performance.now() - anchorPerf);
+}
+
+function mark() {
+  last = { wall: Date.now(), perf: performance.now(), study: now() };
+}
+
+/** Start watching from here; time before this isn't reported as a gap (nobody was being timed). */
+export function watchClock() {
+  mark();
+}
+
+/** Re-align the study clock with the device clock, less any difference already accepted (after a suspension). */
+export function resync() {
+  anchorWall = Date.now() - offset;
+  anchorPerf = performance.now();
+  mark();
+}
+
+/** Follow the device clock from now on (after a jump the observer attributes to a wrong old time). */
+export function adoptDeviceClock() {
+  offset = 0;
+  resync();
+}
+
+/** Keep the study clock as it is and stop reporting its current difference to the device clock. */
+export function acceptDrift() {
+  offset = Date.now() - now();
+  mark();
+}
+
+/**
+ * The device − study clock difference a study's "gap" entries leave behind: each "kept" jump adds its
+ * drift, "shifted" goes back to the device clock.
+ */
+export function acceptedOffset(timeLog: TimeLogEntry[]) {
+  return timeLog
+    .filter((t) => t.event === "gap" && t.gapKind === "jump")
+    .sort((a, b) => a.at - b.at)
+    .reduce((acc, t) => (t.gapDecision === "shifted" ? 0 : t.gapDecision === "kept" ? acc + (t.gapMs ?? 0) : acc), 0);
+}
+
+/** Continue a loaded study on the clock it was timed with, so a kept difference isn't reported again. */
+export function restoreClock(timeLog: TimeLogEntry[]) {
+  offset = acceptedOffset(timeLog);
+  resync();
+}
+
+/**
+ * A gap since the previous check, or null. `wasHidden`: the page was hidden at some point since then.
+ * Stop checking while a gap is waiting for a decision; resync() / acceptDrift() clear it.
+ */
+export function checkClock(wasHidden: boolean): ClockGap | null {
+  const prev = last;
+  mark();
+  if (last.perf - prev.perf >= SUSPEND_MS || (wasHidden && last.wall - prev.wall >= SUSPEND_MS)) {
+    const to = Math.max(prev.study, last.wall - offset);
+    return { kind: "suspend", from: prev.study, to, ms: to - prev.study };
+  }
+  const drift = last.wall - last.study - offset;
+  if (Math.abs(drift) >= JUMP_MS) return { kind: "jump", from: last.study, to: last.wall, ms: drift };
+  return null;
+}
+
+/**
+ * Everything stamped on the study clock, moved by `ms` (a jump's `to − from`) onto the device clock.
+ * Work-sampling prompt times (info.sampling.times, and samples' scheduledAt that refer to them) stay:
+ * they are the window's wall-clock minutes, not readings of the study clock, so once the study follows
+ * the corrected device clock the remaining prompts come at the minutes they were drawn for.
+ */
+export function shiftTimes(state: Pick<AppState, "timeLog" | "taskLog" | "samples">, ms: number) {
+  return {
+    timeLog: state.timeLog.map((t) => ({ ...t, at: t.at + ms })),
+    taskLog: state.taskLog.map((t) => ({ ...t, at: t.at + ms })),
+    samples: state.samples.map((x) => ({ ...x, at: x.at + ms })),
+  };
+}
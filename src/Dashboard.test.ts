@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_FILTER, filterOptions, filterStudies, groupBy, rollup, trend } from "./Dashboard";
+import { blankState, type AppInfo } from "./Model";
+import type { StudyKPIs, StudyMeta } from "./Storage";
+
+const H = 3_600_000;
+
+const meta = (id: string, info: Partial<AppInfo>, kpis: Partial<StudyKPIs> = {}, archived = false): StudyMeta => ({
+  id,
+  createdAt: 0,
+  updatedAt: 0,
+  archived,
+  info: { ...blankState("").info, workType: "", ...info },
+  kpis: { actualMs: 2 * H, touchMs: H, idleMs: 0, utilization: 0.5, crewHours: 1, idleRatio: 0, employees: 1, ...kpis },
+});
+
+const studies = [
+  meta("a", { date: "2025-03-03", task: "Wheel change", station: "Hangar 1", estimatedTime: "2h" }, { actualMs: 3 * H, utilization: 0.6, idleRatio: 0.2 }),
+  meta("b", { date: "2025-03-09", task: "Wheel change", station: "Hangar 2", estimatedTime: "soon" }, { utilization: 0.8, idleRatio: 0.1, crewHours: 2 }),
+  meta("c", { date: "2025-03-10", task: "Borescope", station: "Hangar 1", workType: "Inspection", estimatedTime: "4h" }, { utilization: 0.4 }),
+  meta("d", { date: "2025-03-11", task: "Borescope", station: "Hangar 1" }, {}, true),
+];
+
+describe("filterStudies", () => {
+  it("leaves archived studies out unless asked and sorts by date", () => {
+    expect(filterStudies(studies, EMPTY_FILTER).map((r) => r.meta.id)).toEqual(["a", "b", "c"]);
+    expect(filterStudies(studies, { ...EMPTY_FILTER, archived: true })).toHaveLength(4);
+  });
+
+  it("applies the date range (inclusive) and field filters", () => {
+    const rows = filterStudies(studies, { ...EMPTY_FILTER, from: "2025-03-09", to: "2025-03-10", station: "Hangar 1" });
+    expect(rows.map((r) => r.meta.id)).toEqual(["c"]);
+  });
+
+  it("compares actual time with the estimate only where it parses", () => {
+    const [a, b, c] = filterStudies(studies, EMPTY_FILTER);
+    expect(a.estimate).toEqual({ ms: H, pct: 0.5 });
+    expect(b.estimate).toBeNull();
+    expect(c.estimate).toEqual({ ms: -2 * H, pct: -0.5 });
+  });
+
+  it("offers the distinct values of each field", () => {
+    expect(filterOptions(studies).station).toEqual(["Hangar 1", "Hangar 2"]);
+  });
+});
+
+describe("roll-ups", () => {
+  const rows = filterStudies(studies, EMPTY_FILTER);
+
+  it("averages ratios, sums crew-hours and averages the estimate variance over studies that have one", () => {
+    const r = rollup(rows);
+    expect(r.studies).toBe(3);
+    expect(r.utilization).toBeCloseTo(0.6);
+    expect(r.idleRatio).toBeCloseTo(0.1);
+    expect(r.crewHours).toBe(4);
+    expect(r.estimated).toBe(2);
+    expect(r.estimatePct).toBeCloseTo(0);
+    expect(rollup([])).toMatchObject({ studies: 0, utilization: 0, estimatePct: null });
+  });
+
+  it("buckets by day, Monday-based week and month", () => {
+    expect(trend(rows, "day").map((p) => p.period)).toEqual(["2025-03-03", "2025-03-09", "2025-03-10"]);
+    // 2025-03-09 is a Sunday, so it belongs to the week of Monday the 3rd.
+    expect(trend(rows, "week").map((p) => [p.period, p.studies])).toEqual([["2025-03-03", 2], ["2025-03-10", 1]]);
+    expect(trend(rows, "month").map((p) => [p.period, p.studies])).toEqual([["2025-03", 3]]);
+  });
+
+  it("groups by a header field, most studies first, blanks as (none)", () => {
+    expect(groupBy(rows, "task").map((g) => [g.name, g.studies])).toEqual([["Wheel change", 2], ["Borescope", 1]]);
+    expect(groupBy(rows, "workType").map((g) => [g.name, g.studies])).toEqual([["(none)", 2], ["Inspection", 1]]);
+  });
+});
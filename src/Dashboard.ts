@@ -0,0 +1,145 @@
+// src/Dashboard.ts
+// Cross-study roll-ups for the dashboard, computed from the library's study headers and their saved
+// KPIs only (no study bodies are loaded), so it works offline on whatever this device has saved.
+//
+//  - Ratios (utilization, idle ratio, estimate variance) are the mean of the studies in a group;
+//    crew-hours are summed.
+//  - Estimate variance is actual time vs the header's Estimated Time, for studies where it parses.
+//  - Trends bucket studies by their start date (info.date) into days, ISO weeks (Monday) or months.
+
+import type { AppInfo } from "./Model";
+import type { StudyMeta } from "./Storage";
+import { parseEstimate, variance, type Variance } from "./Estimate";
+
+export type FilterField = "location" | "station" | "workType" | "type" | "supervisor" | "observer";
+export type GroupField = "task" | "station" | "workType";
+export type TrendPeriod = "day" | "week" | "month";
+
+export const FILTER_FIELDS: { key: FilterField; label: string }[] = [
+  { key: "location", label: "Location" },
+  { key: "station", label: "Station/Area" },
+  { key: "workType", label: "Work Type" },
+  { key: "type", label: "Type" },
+  { key: "supervisor", label: "Supervisor" },
+  { key: "observer", label: "Observer" },
+];
+
+export const GROUP_FIELDS: { key: GroupField; label: string }[] = [
+  { key: "task", label: "Task" },
+  { key: "station", label: "Station/Area" },
+  { key: "workType", label: "Work Type" },
+];
+
+/** "" in any field means no restriction. */
+export interface DashboardFilter extends Record<FilterField, string> {
+  from: string; // yyyy-mm-dd, inclusive
+  to: string;
+  archived: boolean; // include archived studies
+}
+
+export const EMPTY_FILTER: DashboardFilter = {
+  from: "",
+  to: "",
+  location: "",
+  station: "",
+  workType: "",
+  type: "",
+  supervisor: "",
+  observer: "",
+  archived: false,
+};
+
+export interface StudyRow {
+  meta: StudyMeta;
+  estimate: Variance | null; // actual vs estimate
+}
+
+export interface Rollup {
+  studies: number;
+  utilization: number;
+  idleRatio: number;
+  crewHours: number;
+  estimatePct: number | null; // mean actual-vs-estimate %, null when no study has a usable estimate
+  estimated: number;          // studies with a usable estimate
+}
+
+export interface TrendPoint extends Rollup {
+  period: string; // bucket start (yyyy-mm-dd, or yyyy-mm for months)
+  rows: StudyRow[];
+}
+
+export interface GroupRollup extends Rollup {
+  name: string;
+  rows: StudyRow[];
+}
+
+const field = (info: AppInfo, key: FilterField | GroupField) => (info[key] || "").trim();
+
+/** Distinct non-blank values per filter field, for the dropdowns. */
+export function filterOptions(studies: StudyMeta[]): Record<FilterField, string[]> {
+  const out = {} as Record<FilterField, string[]>;
+  for (const { key } of FILTER_FIELDS) {
+    out[key] = [...new Set(studies.map((m) => field(m.info, key)).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+  }
+  return out;
+}
+
+export function filterStudies(studies: StudyMeta[], filter: DashboardFilter): StudyRow[] {
+  return studies
+    .filter((m) => filter.archived || !m.archived)
+    .filter((m) => (!filter.from || m.info.date >= filter.from) && (!filter.to || m.info.date <= filter.to))
+    .filter((m) => FILTER_FIELDS.every(({ key }) => !filter[key] || field(m.info, key) === filter[key]))
+    .sort((a, b) => a.info.date.localeCompare(b.info.date) || a.createdAt - b.createdAt)
+    .map((meta) => ({
+      meta,
+      estimate: meta.kpis.actualMs > 0 ? variance(meta.kpis.actualMs, parseEstimate(meta.info.estimatedTime)) : null,
+    }));
+}
+
+export function rollup(rows: StudyRow[]): Rollup {
+  const n = rows.length;
+  const mean = (pick: (r: StudyRow) => number) => (n ? rows.reduce((sum, r) => sum + pick(r), 0) / n : 0);
+  const estimated = rows.flatMap((r) => (r.estimate ? [r.estimate.pct] : []));
+  return {
+    studies: n,
+    utilization: mean((r) => r.meta.kpis.utilization),
+    idleRatio: mean((r) => r.meta.kpis.idleRatio),
+    crewHours: rows.reduce((sum, r) => sum + r.meta.kpis.crewHours, 0),
+    estimatePct: estimated.length ? estimated.reduce((sum, v) => sum + v, 0) / estimated.length : null,
+    estimated: estimated.length,
+  };
+}
+
+function periodOf(date: string, period: TrendPeriod) {
+  if (period === "day") return date;
+  if (period === "month") return date.slice(0, 7);
+  const [y, m, d] = date.split("-").map(Number);
+  const t = new Date(Date.UTC(y, m - 1, d));
+  t.setUTCDate(t.getUTCDate() - ((t.getUTCDay() + 6) % 7)); // back to Monday
+  return t.toISOString().slice(0, 10);
+}
+
+/** Chronological buckets; periods with no studies are left out. */
+export function trend(rows: StudyRow[], period: TrendPeriod): TrendPoint[] {
+  const buckets = new Map<string, StudyRow[]>();
+  for (const r of rows) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(r.meta.info.date)) continue;
+    const key = periodOf(r.meta.info.date, period);
+    buckets.set(key, [...(buckets.get(key) ?? []), r]);
+  }
+  return [...buckets.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([key, list]) => ({ period: key, rows: list, ...rollup(list) }));
+}
+
+/** Roll-ups per task / station / work type, most studies first; blanks are grouped as "(none)". */
+export function groupBy(rows: StudyRow[], key: GroupField): GroupRollup[] {
+  const groups = new Map<string, StudyRow[]>();
+  for (const r of rows) {
+    const name = field(r.meta.info, key) || "(none)";
+    groups.set(name, [...(groups.get(name) ?? []), r]);
+  }
+  return [...groups.entries()]
+    .map(([name, list]) => ({ name, rows: list, ...rollup(list) }))
+    .sort((a, b) => b.studies - a.studies || a.name.localeCompare(b.name));
+}
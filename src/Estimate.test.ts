@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { estimateError, parseEstimate, signedPct, variance } from "./Estimate";
+
+const M = 60_000;
+
+describe("parseEstimate", () => {
+  it("reads every documented format", () => {
+    expect(parseEstimate("2h 30m")).toBe(150 * M);
+    expect(parseEstimate("02:30")).toBe(150 * M);
+    expect(parseEstimate("2.5")).toBe(150 * M);
+    expect(parseEstimate("150m")).toBe(150 * M);
+    expect(parseEstimate(" 1.5 Hours ")).toBe(90 * M);
+    expect(parseEstimate("45 min")).toBe(45 * M);
+    expect(parseEstimate(".5")).toBe(30 * M);
+  });
+
+  it("returns null for blank or malformed text", () => {
+    for (const text of [undefined, "", "   ", "2:75", "1:2", "abc", "2h 30", "-2h", "2 days", "h", "2h30m15s", "1,5"]) {
+      expect(parseEstimate(text)).toBeNull();
+    }
+  });
+});
+
+describe("estimateError", () => {
+  it("only complains about text that doesn't parse", () => {
+    expect(estimateError("")).toBeNull();
+    expect(estimateError("2h")).toBeNull();
+    expect(estimateError("soon")).toMatch(/^Not a duration/);
+  });
+});
+
+describe("variance", () => {
+  it("is actual − estimate and that share of the estimate", () => {
+    expect(variance(165 * M, 150 * M)).toEqual({ ms: 15 * M, pct: 0.1 });
+    expect(variance(100, null)).toBeNull();
+    expect(variance(100, 0)).toBeNull();
+  });
+
+  it("formats the share with a sign", () => {
+    expect(signedPct(0.143)).toBe("+14.3%");
+    expect(signedPct(-0.05)).toBe("−5.0%");
+  });
+});
@@ -0,0 +1,38 @@
+// src/Estimate.ts
+// Reads the free-text Estimated Time header field as a duration so outputs can compare against it.
+
+export const ESTIMATE_FORMATS = "2h 30m, 02:30, 2.5 (hours) or 150m";
+
+/** "2h 30m", "02:30", "2.5" (hours) or "150m" → ms; null when the text isn't a recognizable duration. */
+export function parseEstimate(text: string | undefined): number | null {
+  const s = (text || "").trim().toLowerCase();
+  if (!s) return null;
+  let m = s.match(/^(\d{1,3}):([0-5]\d)$/);
+  if (m) return (Number(m[1]) * 60 + Number(m[2])) * 60_000;
+  m = s.match(/^(\d+(?:\.\d+)?|\.\d+)\s*(?:h|hr|hrs|hours?)?$/);
+  if (m) return Math.round(Number(m[1]) * 3_600_000);
+  m = s.match(/^(?:(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hours?))?\s*(?:(\d+)\s*(?:m|min|mins|minutes?))?$/);
+  if (m && (m[1] || m[2])) return Math.round((Number(m[1] || 0) * 60 + Number(m[2] || 0)) * 60_000);
+  return null;
+}
+
+/** Message for the Estimated Time field, or null when it's blank or parses. */
+export function estimateError(text: string | undefined): string | null {
+  if (!(text || "").trim()) return null;
+  return parseEstimate(text) == null ? `Not a duration; use ${ESTIMATE_FORMATS}.` : null;
+}
+
+export interface Variance {
+  ms: number;  // actual − estimate (positive = over)
+  pct: number; // ms ÷ estimate, as a fraction
+}
+
+export function variance(actualMs: number, estimateMs: number | null): Variance | null {
+  if (estimateMs == null || estimateMs <= 0) return null;
+  return { ms: actualMs - estimateMs, pct: (actualMs - estimateMs) / estimateMs };
+}
+
+/** "+14.3%" / "−5.0%" */
+export function signedPct(fraction: number) {
+  return `${fraction < 0 ? "−" : "+"}${Math.abs(fraction * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { computeMetrics } from "./Metrics";
+import type { Employee, TimeEvent, TimeLogEntry } from "./Model";
+
+const H = 3_600_000;
+const ann: Employee = { id: 1, name: "Ann", logs: [], role: "", skill: "" };
+const bob: Employee = { id: 2, name: "Bob", logs: [], role: "", skill: "" };
+
+let nextId = 1;
+const entry = (emp: Employee, event: TimeEvent, at: number): TimeLogEntry => ({
+  id: nextId++,
+  at,
+  employeeId: emp.id,
+  employeeName: emp.name,
+  event,
+});
+
+describe("computeMetrics daily breakdown (multi-day)", () => {
+  it("splits an interval at the study's day start", () => {
+    const start = Date.UTC(2025, 2, 4, 5); // 05:00, before the 06:00 day start
+    const m = computeMetrics(
+      {
+        employees: [ann],
+        timeLog: [entry(ann, "start", start), entry(ann, "stop", start + 2 * H)],
+        info: { timeZone: "UTC", dayStart: "06:00" },
+      },
+      start + 3 * H,
+    );
+    expect(m.touchMs).toBe(2 * H);
+    expect(m.daily["2025-03-03"].touchMs).toBe(H);
+    expect(m.daily["2025-03-04"].touchMs).toBe(H);
+  });
+
+  it("splits at local midnight across a DST change", () => {
+    // New York springs forward at 02:00 on 2025-03-09: local midnight is 05:00Z, not 04:00Z.
+    const start = Date.UTC(2025, 2, 9, 4); // 23:00 EST on the 8th
+    const stop = Date.UTC(2025, 2, 9, 8); // 04:00 EDT on the 9th
+    const m = computeMetrics(
+      {
+        employees: [ann],
+        timeLog: [entry(ann, "start", start), entry(ann, "stop", stop)],
+        info: { timeZone: "America/New_York", dayStart: "00:00" },
+      },
+      stop,
+    );
+    expect(m.daily["2025-03-08"].touchMs).toBe(H);
+    expect(m.daily["2025-03-09"].touchMs).toBe(3 * H);
+    expect(m.daily["2025-03-08"].actualMs + m.daily["2025-03-09"].actualMs).toBe(m.actualMs);
+  });
+});
+
+describe("computeMetrics with an employee paused at the end", () => {
+  it("accrues idle up to now", () => {
+    const t0 = Date.UTC(2025, 2, 4, 8);
+    const m = computeMetrics(
+      { employees: [ann], timeLog: [entry(ann, "start", t0), entry(ann, "pause", t0 + H)], info: { timeZone: "UTC" } },
+      t0 + 3 * H,
+    );
+    const [a] = m.employees;
+    expect(a.status).toBe("paused");
+    expect(a.active).toBe(H);
+    expect(a.idle).toBe(2 * H);
+    expect(m.idleMs).toBe(2 * H);
+    expect(m.actualMs).toBe(3 * H);
+    expect(m.anyEngaged).toBe(true);
+  });
+});
+
+describe("computeMetrics with a deleted employee", () => {
+  it("leaves the removed employee's entries out of touch and idle", () => {
+    const t0 = Date.UTC(2025, 2, 4, 8);
+    const m = computeMetrics(
+      {
+        employees: [ann], // Bob was removed from the crew
+        timeLog: [
+          entry(ann, "start", t0),
+          entry(bob, "start", t0),
+          entry(bob, "pause", t0 + H),
+          entry(bob, "deleted", t0 + 2 * H),
+          entry(ann, "stop", t0 + 3 * H),
+        ],
+        info: { timeZone: "UTC" },
+      },
+      t0 + 4 * H,
+    );
+    expect(m.employees.map((e) => e.name)).toEqual(["Ann"]);
+    expect(m.touchMs).toBe(3 * H);
+    expect(m.idleMs).toBe(0);
+  });
+});
+
+describe("computeMetrics idle ratios", () => {
+  it("keeps all idle in idleRatio and only unplanned idle in unplannedIdleRatio", () => {
+    const t0 = Date.UTC(2025, 2, 4, 8);
+    const m = computeMetrics(
+      {
+        employees: [ann],
+        timeLog: [
+          entry(ann, "start", t0),
+          { ...entry(ann, "pause", t0 + 2 * H), reasonCode: "Break" },
+          entry(ann, "start", t0 + 3 * H),
+          { ...entry(ann, "pause", t0 + 4 * H), reasonCode: "Waiting on parts" },
+          entry(ann, "stop", t0 + 5 * H),
+        ],
+        info: { timeZone: "UTC" },
+      },
+      t0 + 5 * H,
+    );
+    expect(m.plannedIdleMs).toBe(H);
+    expect(m.unplannedIdleMs).toBe(H);
+    expect(m.idleRatio).toBeCloseTo(2 / 5);
+    expect(m.unplannedIdleRatio).toBeCloseTo(1 / 5);
+  });
+});
@@ -0,0 +1,325 @@
+// src/Metrics.ts
+// Every study KPI in one pure function, shared by the app, the exports, the report and the AI payload.
+//
+// Rules:
+//  - Touch / Idle are the Active / Paused time of employees still on the study; removed employees
+//    (a "deleted" event and no longer in the crew) don't count.
+//  - Actual is wall-clock from the first Start to the last Stop/Delete, or to `now` while anyone
+//    is still Active/Paused.
+//  - Idle is planned when it falls inside the shift calendar's breaks / off-shift hours, or when the
+//    pause reason is marked planned in the reason catalog (Break, Shift change); the rest is unplanned.
+//  - Planned downtime is wall-clock when nobody is working and the stop is planned (a scheduled break
+//    or off-shift hours, or everyone on a planned pause). It is left out of the time available for
+//    utilization.
+//  - Idle ratio is all idle ÷ (touch + idle), as it always was; the unplanned idle ratio counts only
+//    unplanned idle.
+//  - The daily breakdown splits the same window at the study's day boundary (its time zone and day
+//    start, e.g. 06:00), so its columns add up to the totals.
+//  - Idle is also totalled by pause reason (from each Pause to the next Start/Stop), and through the
+//    catalog by category and classification; `pareto` ranks the reasons by paused duration.
+//  - Work elements: an "element" event moves an employee onto a task step until the next one. An
+//    element's touch is the Active time spent on it, its elapsed time is the wall-clock while anyone
+//    is Active on it, and its crew size is touch ÷ elapsed (average) and the most at once (peak).
+//  - Normal time is touch labor × performance rating (the element's rating when the employee is on
+//    a rated element, else the employee's, else 100%). Standard time is normal × (1 + PF&D allowance),
+//    compared against the header's Estimated Time when it parses.
+//  - Actual time and crew-hours (touch labor) are also compared against the estimate, as actual −
+//    estimate and that difference as a share of the estimate; null until the estimate parses and the
+//    study has started.
+//  - Cycles come from Lap events (see replayCycles); their statistics pool every crew member's cycles
+//    and outliers are flagged against that pooled sample.
+
+import type { AppState, EmpStatus, ShiftCalendar, WorkElement } from "./Model";
+import { DEFAULT_REASONS, idleBreakdown, isPlannedReason, NO_REASON, type ReasonCode } from "./Reasons";
+import { plannedWindows, splitByWindows } from "./Shift";
+import { parseEstimate, variance, type Variance } from "./Estimate";
+import { describe, type SampleStats } from "./Stats";
+import { byTime, deriveTimes, groupByEmployee, isTimerEvent, nextStatus, NO_TIMES, replayCycles, type Cycle } from "./TimeEngine";
+import { deviceTimeZone, nextDayBoundary, parseDayStart, studyDayOf } from "./TimeZone";
+
+export interface EmployeeMetrics {
+  id: number;
+  name: string;
+  status: EmpStatus;
+  active: number;
+  idle: number;
+  plannedIdle: number;
+  unplannedIdle: number;
+  total: number;
+  rating: number;   // % (100 when not rated)
+  normal: number;   // touch × rating, ms
+  sessions: number; // logged Start/Pause/Stop events
+  cycles: SampleStats; // this employee's lap-to-lap cycle times
+}
+
+export interface StudyCycle extends Cycle {
+  outlier: boolean;
+}
+
+export interface DayMetrics {
+  actualMs: number;
+  touchMs: number;
+  idleMs: number;
+  plannedIdleMs: number;
+}
+
+export interface ElementMetrics {
+  id: number;
+  name: string;
+  touchMs: number;
+  elapsedMs: number; // wall-clock with at least one person Active on the element
+  avgCrew: number;   // touch ÷ elapsed
+  maxCrew: number;   // most people Active on it at once
+  normalMs: number;  // rated touch
+}
+
+export interface ParetoRow {
+  reason: string;
+  ms: number;         // crew-weighted paused duration
+  count: number;      // pauses logged with this reason
+  share: number;      // of all idle, 0-1
+  cumulative: number; // running share down the sorted list, 0-1
+}
+
+export interface StudyMetrics {
+  employees: EmployeeMetrics[];
+  touchMs: number;
+  idleMs: number;
+  plannedIdleMs: number;
+  unplannedIdleMs: number;
+  totalMs: number;
+  actualMs: number;
+  plannedDowntimeMs: number; // wall-clock inside the actual window
+  availableMs: number;       // actual − planned downtime
+  firstStartAt: number | null;
+  lastStopAt: number | null;
+  anyEngaged: boolean;
+  utilization: number; // touch ÷ available
+  crewHours: number;
+  idleRatio: number;   // idle ÷ (touch + idle)
+  unplannedIdleRatio: number; // unplanned idle ÷ (touch + idle)
+  daily: Record<string, DayMetrics>; // keyed by study day (yyyy-mm-dd)
+  idleByReason: Record<string, number>;   // pause reason code → crew-weighted idle ms
+  idleByCategory: Record<string, number>; // reason category → idle ms
+  idleByClass: Record<string, number>;    // classification label → idle ms
+  pareto: ParetoRow[];                    // pause reasons, longest total first
+  elements: ElementMetrics[];             // in task order
+  unassignedTouchMs: number;              // Active time with no element selected
+  cycles: StudyCycle[];                   // chronological
+  cycleStats: SampleStats;                // all crew cycles pooled
+  normalMs: number;                       // rated touch labor
+  allowancePct: number;
+  standardMs: number;                     // normal × (1 + allowance)
+  estimateMs: number | null;              // parsed Estimated Time
+  standardVsEstimateMs: number | null;    // standard − estimate
+  actualVsEstimate: Variance | null;      // actual wall-clock vs estimate
+  crewVsEstimate: Variance | null;        // crew-hours (touch labor) vs estimate
+}
+
+export type MetricsInput = Pick<AppState, "employees" | "timeLog"> & {
+  info?: {
+    timeZone?: string;
+    dayStart?: string;
+    shift?: ShiftCalendar;
+    elements?: WorkElement[];
+    allowancePct?: number;
+    estimatedTime?: string;
+  };
+  reasons?: ReasonCode[]; // reason catalog; defaults to the built-in codes
+};
+
+export function computeMetrics({ employees, timeLog, info, reasons = DEFAULT_REASONS }: MetricsInput, now: number): StudyMetrics {
+  const tz = info?.timeZone || deviceTimeZone();
+  const dayStart = parseDayStart(info?.dayStart);
+  const times = deriveTimes(timeLog, now);
+
+  const starts = timeLog.filter((t) => t.event === "start").map((t) => t.at);
+  const ends = timeLog.filter((t) => t.event === "stop" || t.event === "deleted").map((t) => t.at);
+  const firstStartAt = starts.length ? Math.min(...starts) : null;
+  const lastStopAt = ends.length ? Math.max(...ends) : null;
+  const anyEngaged = employees.some((e) => (times.get(e.id) ?? NO_TIMES).status !== "idle");
+  const windowEnd = anyEngaged ? now : (lastStopAt ?? now);
+  const actualMs = firstStartAt != null ? Math.max(0, windowEnd - firstStartAt) : 0;
+
+  // Sweep the crew's events across the actual window: daily buckets plus the planned/unplanned split.
+  const daily: Record<string, DayMetrics> = {};
+  const plannedIdleById = new Map<number, number>();
+  const idleByReason: Record<string, number> = {};
+  const pausesByReason: Record<string, number> = {};
+  const elementTotals = new Map<number, { touchMs: number; elapsedMs: number; maxCrew: number; normalMs: number }>();
+  const normalById = new Map<number, number>();
+  const ratingOf = new Map(employees.map((e) => [e.id, e.rating ?? 100]));
+  const elementRating = new Map((info?.elements ?? []).map((el) => [el.id, el.rating]));
+  let unassignedTouchMs = 0;
+  let plannedDowntimeMs = 0;
+  if (firstStartAt != null && windowEnd > firstStartAt) {
+    const windows = plannedWindows(firstStartAt, windowEnd, info?.shift, tz);
+    const crew = new Set(employees.map((e) => e.id));
+    const status = new Map<number, EmpStatus>();
+    const pauseReason = new Map<number, string>(); // reason code of the current pause
+    const onElement = new Map<number, number>();   // employee → current work element
+    const addSpan = (t0: number, t1: number) => {
+      const from = Math.max(t0, firstStartAt);
+      const to = Math.min(t1, windowEnd);
+      if (to <= from) return;
+      let activeCnt = 0;
+      const paused: number[] = [];
+      status.forEach((s, id) => {
+        if (s === "active") activeCnt++;
+        if (s === "paused") paused.push(id);
+      });
+      const reasonPlanned = paused.filter((id) => isPlannedReason(reasons, pauseReason.get(id)));
+      const crewOnPlannedPause = paused.length > 0 && reasonPlanned.length === paused.length;
+      paused.forEach((id) => {
+        const key = pauseReason.get(id) || NO_REASON;
+        idleByReason[key] = (idleByReason[key] ?? 0) + (to - from);
+      });
+      const crewOn = new Map<number, number>();
+      const normalOn = new Map<number, number>();
+      status.forEach((s, id) => {
+        if (s !== "active") return;
+        const el = onElement.get(id);
+        const rated = ((to - from) * ((el != null ? elementRating.get(el) : undefined) ?? ratingOf.get(id) ?? 100)) / 100;
+        normalById.set(id, (normalById.get(id) ?? 0) + rated);
+        if (el == null) {
+          unassignedTouchMs += to - from;
+        } else {
+          crewOn.set(el, (crewOn.get(el) ?? 0) + 1);
+          normalOn.set(el, (normalOn.get(el) ?? 0) + rated);
+        }
+      });
+      crewOn.forEach((n, el) => {
+        const t = elementTotals.get(el) ?? { touchMs: 0, elapsedMs: 0, maxCrew: 0, normalMs: 0 };
+        t.touchMs += (to - from) * n;
+        t.elapsedMs += to - from;
+        t.maxCrew = Math.max(t.maxCrew, n);
+        t.normalMs += normalOn.get(el) ?? 0;
+        elementTotals.set(el, t);
+      });
+      for (let a = from; a < to; ) {
+        const b = Math.min(to, nextDayBoundary(a, tz, dayStart));
+        const row = (daily[studyDayOf(a, tz, dayStart)] ??= { actualMs: 0, touchMs: 0, idleMs: 0, plannedIdleMs: 0 });
+        row.actualMs += b - a;
+        row.touchMs += (b - a) * activeCnt;
+        row.idleMs += (b - a) * paused.length;
+        for (const piece of splitByWindows(a, b, windows)) {
+          const dur = piece.to - piece.from;
+          const plannedIds = piece.planned ? paused : reasonPlanned;
+          plannedIds.forEach((id) => plannedIdleById.set(id, (plannedIdleById.get(id) ?? 0) + dur));
+          row.plannedIdleMs += dur * plannedIds.length;
+          if (activeCnt === 0 && (piece.planned || crewOnPlannedPause)) plannedDowntimeMs += dur;
+        }
+        a = b;
+      }
+    };
+    let tPrev = firstStartAt;
+    for (const ev of timeLog.filter((t) => typeof t.employeeId === "number" && crew.has(t.employeeId)).sort(byTime)) {
+      addSpan(tPrev, ev.at);
+      tPrev = Math.max(tPrev, ev.at);
+      const id = ev.employeeId as number;
+      if (ev.event === "element") {
+        if (ev.elementId == null) onElement.delete(id);
+        else onElement.set(id, ev.elementId);
+        continue;
+      }
+      const next = nextStatus(status.get(id) ?? "idle", ev.event);
+      if (!next) continue;
+      status.set(id, next);
+      if (next === "paused") {
+        const reason = (ev.reasonCode || "").trim();
+        pauseReason.set(id, reason);
+        pausesByReason[reason || NO_REASON] = (pausesByReason[reason || NO_REASON] ?? 0) + 1;
+      }
+    }
+    addSpan(tPrev, windowEnd);
+  }
+
+  const eventsById = groupByEmployee(timeLog);
+  const cyclesById = new Map(employees.map((e) => [e.id, replayCycles(eventsById.get(e.id) ?? [])]));
+  const allCycles = [...cyclesById.values()].flat().sort((a, b) => a.to - b.to || a.lapId - b.lapId);
+  const cycleStats = describe(allCycles.map((c) => c.ms));
+  const outlierIdx = new Set(cycleStats.outliers);
+
+  const perEmployee: EmployeeMetrics[] = employees.map((e) => {
+    const t = times.get(e.id) ?? NO_TIMES;
+    const plannedIdle = Math.min(t.idle, plannedIdleById.get(e.id) ?? 0);
+    return {
+      id: e.id,
+      name: e.name,
+      status: t.status,
+      active: t.active,
+      idle: t.idle,
+      plannedIdle,
+      unplannedIdle: t.idle - plannedIdle,
+      total: t.total,
+      rating: e.rating ?? 100,
+      normal: normalById.get(e.id) ?? 0,
+      sessions: timeLog.filter((x) => x.employeeId === e.id && isTimerEvent(x.event)).length,
+      cycles: describe((cyclesById.get(e.id) ?? []).map((c) => c.ms)),
+    };
+  });
+  const touchMs = perEmployee.reduce((sum, e) => sum + e.active, 0);
+  const idleMs = perEmployee.reduce((sum, e) => sum + e.idle, 0);
+  const plannedIdleMs = perEmployee.reduce((sum, e) => sum + e.plannedIdle, 0);
+  const unplannedIdleMs = idleMs - plannedIdleMs;
+  const totalMs = touchMs + idleMs;
+  const availableMs = Math.max(0, actualMs - plannedDowntimeMs);
+  const normalMs = perEmployee.reduce((sum, e) => sum + e.normal, 0);
+  const allowancePct = info?.allowancePct ?? 0;
+  const standardMs = normalMs * (1 + allowancePct / 100);
+  const estimateMs = parseEstimate(info?.estimatedTime);
+  const { byCategory, byClass } = idleBreakdown(idleByReason, reasons);
+  const reasonIdleMs = Object.values(idleByReason).reduce((sum, ms) => sum + ms, 0);
+  let running = 0;
+  const pareto: ParetoRow[] = Object.entries(idleByReason)
+    .filter(([, ms]) => ms > 0)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([reason, ms]) => {
+      running += ms;
+      return {
+        reason,
+        ms,
+        count: pausesByReason[reason] ?? 0,
+        share: reasonIdleMs ? ms / reasonIdleMs : 0,
+        cumulative: reasonIdleMs ? running / reasonIdleMs : 0,
+      };
+    });
+
+  return {
+    employees: perEmployee,
+    touchMs,
+    idleMs,
+    plannedIdleMs,
+    unplannedIdleMs,
+    totalMs,
+    actualMs,
+    plannedDowntimeMs,
+    availableMs,
+    firstStartAt,
+    lastStopAt,
+    anyEngaged,
+    utilization: availableMs ? touchMs / availableMs : 0,
+    crewHours: touchMs / 3_600_000,
+    idleRatio: totalMs ? idleMs / totalMs : 0,
+    unplannedIdleRatio: totalMs ? unplannedIdleMs / totalMs : 0,
+    daily,
+    idleByReason,
+    idleByCategory: byCategory,
+    idleByClass: byClass,
+    pareto,
+    elements: (info?.elements ?? []).map((el) => {
+      const t = elementTotals.get(el.id) ?? { touchMs: 0, elapsedMs: 0, maxCrew: 0, normalMs: 0 };
+      return { id: el.id, name: el.name, ...t, avgCrew: t.elapsedMs ? t.touchMs / t.elapsedMs : 0 };
+    }),
+    unassignedTouchMs,
+    cycles: allCycles.map((c, i) => ({ ...c, outlier: outlierIdx.has(i) })),
+    cycleStats,
+    normalMs,
+    allowancePct,
+    standardMs,
+    estimateMs,
+    standardVsEstimateMs: estimateMs != null && normalMs > 0 ? standardMs - estimateMs : null,
+    actualVsEstimate: firstStartAt != null ? variance(actualMs, estimateMs) : null,
+    crewVsEstimate: firstStartAt != null ? variance(touchMs, estimateMs) : null,
+  };
+}
@@ -0,0 +1,192 @@
+// src/Model.ts
+// Shared domain types for a single work measurement study.
+
+import { deviceTimeZone, todayIn } from "./TimeZone";
+
+export type EmpStatus = "idle" | "active" | "paused";
+export type ObsScope = "Full" | "Partial";
+export type StudyMode = "timing" | "sampling"; // continuous timing or work sampling (random observations)
+export type SampleState = "working" | "waiting" | "traveling" | "absent";
+
+export const SAMPLE_STATES: SampleState[] = ["working", "waiting", "traveling", "absent"];
+export type TimeEvent = "start" | "pause" | "stop" | "deleted" | "element" | "lap" | "gap";
+export type GapKind = "suspend" | "jump"; // app not running for a while / device clock moved
+export type GapDecision = "counted" | "paused" | "shifted" | "kept";
+
+/**
+ * Every event a time log entry may carry. "element" switches the work element and "lap" marks a
+ * cycle boundary; neither changes the employee's status. "gap" records how the observer treated a
+ * clock gap (see Clock.ts) and belongs to no employee.
+ */
+export const TIME_EVENTS: TimeEvent[] = ["start", "pause", "stop", "deleted", "element", "lap", "gap"];
+export const GAP_KINDS: GapKind[] = ["suspend", "jump"];
+export const GAP_DECISIONS: GapDecision[] = ["counted", "paused", "shifted", "kept"];
+
+// Status and active/idle totals are not stored; TimeEngine.ts replays them from the time log.
+export interface Employee {
+  id: number;
+  name: string;
+  logs: string[];
+  role?: string;   // Mechanic / Inspector / Lead / Helper / Trainee / Other…
+  skill?: string;  // A&P / Structures / Avionics / QA / NDT / Non-Certified / Cabin / Other…
+  rating?: number; // performance rating in % (100 = normal pace); unset = 100
+}
+
+export interface TaskEntry {
+  id: number;
+  at: number;
+  text: string;
+}
+
+export interface TimeLogEntry {
+  id: number;
+  at: number;
+  employeeId: number | null;
+  employeeName: string;
+  event: TimeEvent;
+  reasonCode?: string;
+  comment?: string;
+  elementId?: number; // "element" events: the work element the employee moves to (none = unassigned)
+  gapKind?: GapKind;  // "gap" events: what happened, its length (ms) and the observer's decision
+  gapMs?: number;
+  gapDecision?: GapDecision;
+}
+
+export interface PhotoItem {
+  id: number;
+  dataUrl: string;   // already resized and auto-rotated
+  name?: string;
+  caption?: string;
+  customName?: string; // user-assigned or generated filename for display/saving
+}
+
+export interface ShiftBreak {
+  id: number;
+  label: string;  // Lunch / Break / …
+  start: string;  // "HH:MM"
+  end: string;    // "HH:MM" (at or before start = past midnight)
+}
+
+// One step of the task (e.g. "Remove panel"); the order in `info.elements` is the task order.
+export interface WorkElement {
+  id: number;
+  name: string;
+  rating?: number; // % rating for this element; overrides the employee's rating when set
+}
+
+// Working hours and scheduled breaks; empty start/end means no shift hours are set.
+export interface ShiftCalendar {
+  start: string;
+  end: string;
+  breaks: ShiftBreak[];
+}
+
+// Work sampling: `rounds` random observation times inside the daily start-end window. `times` is the
+// generated schedule (epoch ms), kept so the prompts survive a reload; regenerating keeps past times.
+export interface SamplingPlan {
+  start: string; // "HH:MM"
+  end: string;   // "HH:MM" (at or before start = past midnight)
+  rounds: number;
+  times: number[];
+}
+
+// What one employee was doing at one sampling round.
+export interface SampleObservation {
+  id: number;
+  at: number;
+  round: number;       // 1-based, in the order rounds were recorded
+  scheduledAt?: number; // the prompt this round answered; unset for rounds taken on demand
+  employeeId: number | null;
+  employeeName: string;
+  state: SampleState;
+  reasonCode?: string; // pause reason from the catalog (why not working)
+  comment?: string;
+}
+
+export interface AppInfo {
+  date: string;
+  endDate: string;
+  multiDay: boolean;
+  timeZone: string;    // IANA zone the study's dates, times and daily breakdown use
+  dayStart: string;    // "HH:MM" when a study day begins (e.g. 06:00 for shift work)
+  shift: ShiftCalendar;
+  elements: WorkElement[];
+  allowancePct: number; // PF&D (personal, fatigue, delay) allowance added to normal time
+  mode: StudyMode;
+  sampling: SamplingPlan;
+  location: string;
+  procedure: string;
+  workOrder: string;
+  task: string;
+  type?: string;       // Routine / Non-Routine / Customer Request / Cannibalization / Other
+  workType?: string;   // Inspection / Remove & Replace / Setup / Rework / Test / Remove / Install / Other
+  assetId?: string;
+  station?: string;
+  supervisor?: string;
+  observer?: string;
+  estimatedTime?: string;
+  observationScope?: ObsScope;
+  summary?: string;
+}
+
+/** PF&D allowance for new studies (and studies saved before allowances existed). */
+export const DEFAULT_ALLOWANCE_PCT = 15;
+
+export const DEFAULT_SAMPLING_ROUNDS = 20;
+
+/** Bump together with a new entry in Schema.ts MIGRATIONS whenever the saved shape changes. */
+export const SCHEMA_VERSION = 10;
+
+export interface AppState {
+  schemaVersion: number;
+  info: AppInfo;
+  employees: Employee[];
+  taskLog: TaskEntry[];
+  timeLog: TimeLogEntry[];
+  photos: PhotoItem[];
+  samples: SampleObservation[];
+}
+
+// Today's date in the study zone (the device zone when none is given).
+export function todayISO(timeZone?: string) {
+  return todayIn(timeZone);
+}
+
+// Header for a brand-new study; observer is carried over from the last study.
+export function blankInfo(observer: string): AppInfo {
+  return {
+    date: todayISO(),
+    endDate: "",
+    multiDay: false,
+    timeZone: deviceTimeZone(),
+    dayStart: "00:00",
+    shift: { start: "", end: "", breaks: [] },
+    elements: [],
+    allowancePct: DEFAULT_ALLOWANCE_PCT,
+    mode: "timing",
+    sampling: { start: "", end: "", rounds: DEFAULT_SAMPLING_ROUNDS, times: [] },
+    location: "",
+    procedure: "",
+    workOrder: "",
+    task: "",
+    type: "Routine",
+    workType: "Inspection",
+    assetId: "",
+    station: "",
+    supervisor: "",
+    observer,
+    estimatedTime: "",
+    observationScope: "Full",
+    summary: "",
+  };
+}
+
+export function blankState(observer: string): AppState {
+  return { schemaVersion: SCHEMA_VERSION, info: blankInfo(observer), employees: [], taskLog: [], timeLog: [], photos: [], samples: [] };
+}
+
+// Display name for a study in the library (work order / task, date shown separately).
+export function studyTitle(info: AppInfo) {
+  const parts = [info.workOrder, info.task].map((s) => (s || "").trim()).filter(Boolean);
+  return parts.length ? parts.join(" — ") : "Untitled study";
+}
@@ -0,0 +1,19 @@
+// src/Offline.ts
+// Offline support on the page side: registers the service worker (src/sw.js) that keeps the app shell
+// cached, and tells network failures apart from server errors so AI requests can wait for a connection.
+
+/** How often a queued request is retried while the browser still believes it is online. */
+export const RETRY_INTERVAL_MS = 30_000;
+
+/** Production builds only; the dev server has no /sw.js and must not be cached. */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("./sw.js").catch((err) => console.warn("Service worker registration failed", err));
+  });
+}
+
+export const isOffline = () => navigator.onLine === false;
+
+/** fetch() rejects with a TypeError when the request never reached a server (no network, DNS, captive portal). */
+export const isNetworkFailure = (err: unknown) => isOffline() || err instanceof TypeError;
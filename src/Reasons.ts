@@ -0,0 +1,115 @@
+// src/Reasons.ts
+// Reason-code catalog for Pause/Stop, kept per device in localStorage so an engineer's codes carry
+// across studies. Each code has a category (Material, Tooling, …) and a value-added classification;
+// idle time is totalled by both in the metrics, the report and the Excel export.
+
+export type ReasonKind = "pause" | "stop";
+export type ReasonClass = "VA" | "NNVA" | "Waste";
+
+export interface ReasonCode {
+  id: number;
+  code: string;         // text stored on the time log entry
+  kind: ReasonKind;
+  category: string;     // Material / Tooling / Engineering / Personal / …
+  classification: ReasonClass;
+  planned: boolean;     // planned idle wherever it happens (not just inside a scheduled break)
+}
+
+export const REASONS_KEY = "work-measurement:reasons";
+
+export const REASON_CATEGORIES = ["Material", "Tooling", "Engineering", "Quality", "Personal", "Planned", "Other"];
+
+export const CLASS_LABELS: Record<ReasonClass, string> = {
+  VA: "Value-added",
+  NNVA: "Necessary non-value-added",
+  Waste: "Waste",
+};
+
+/** Bucket for idle whose reason is blank or no longer in the catalog. */
+export const UNCATEGORIZED = "Uncategorized";
+export const UNCLASSIFIED = "Unclassified";
+/** Idle-by-reason key for pauses logged without a reason code. */
+export const NO_REASON = "(no reason)";
+
+export const DEFAULT_REASONS: ReasonCode[] = [
+  { id: 1, code: "Waiting on parts", kind: "pause", category: "Material", classification: "Waste", planned: false },
+  { id: 2, code: "Waiting on tooling", kind: "pause", category: "Tooling", classification: "Waste", planned: false },
+  { id: 3, code: "QA / Inspection", kind: "pause", category: "Quality", classification: "NNVA", planned: false },
+  { id: 4, code: "Engineering review", kind: "pause", category: "Engineering", classification: "NNVA", planned: false },
+  { id: 5, code: "Break", kind: "pause", category: "Planned", classification: "NNVA", planned: true },
+  { id: 6, code: "Shift change", kind: "pause", category: "Planned", classification: "NNVA", planned: true },
+  { id: 7, code: "Personal", kind: "pause", category: "Personal", classification: "NNVA", planned: false },
+  { id: 8, code: "Other", kind: "pause", category: "Other", classification: "Waste", planned: false },
+  { id: 9, code: "Task Complete", kind: "stop", category: "Other", classification: "VA", planned: false },
+  { id: 10, code: "Reassigned", kind: "stop", category: "Other", classification: "NNVA", planned: false },
+  { id: 11, code: "Error", kind: "stop", category: "Quality", classification: "Waste", planned: false },
+  { id: 12, code: "Other", kind: "stop", category: "Other", classification: "Waste", planned: false },
+];
+
+const isClass = (v: unknown): v is ReasonClass => v === "VA" || v === "NNVA" || v === "Waste";
+
+/** Validate an untrusted catalog; drops malformed rows and falls back to the defaults when nothing is left. */
+export function normalizeReasons(raw: unknown): ReasonCode[] {
+  if (!Array.isArray(raw)) return DEFAULT_REASONS;
+  const out: ReasonCode[] = [];
+  raw.forEach((r, i) => {
+    if (!r || typeof r !== "object") return;
+    const o = r as Record<string, unknown>;
+    const code = typeof o.code === "string" ? o.code.trim() : "";
+    if (!code || (o.kind !== "pause" && o.kind !== "stop")) return;
+    out.push({
+      id: typeof o.id === "number" ? o.id : i + 1,
+      code,
+      kind: o.kind,
+      category: typeof o.category === "string" && o.category.trim() ? o.category.trim() : "Other",
+      classification: isClass(o.classification) ? o.classification : "Waste",
+      planned: o.planned === true,
+    });
+  });
+  return out.some((r) => r.kind === "pause") && out.some((r) => r.kind === "stop") ? out : DEFAULT_REASONS;
+}
+
+export function loadReasons(): ReasonCode[] {
+  try {
+    const raw = localStorage.getItem(REASONS_KEY);
+    return raw ? normalizeReasons(JSON.parse(raw)) : DEFAULT_REASONS;
+  } catch {
+    return DEFAULT_REASONS;
+  }
+}
+
+export function saveReasons(reasons: ReasonCode[]) {
+  try {
+    localStorage.setItem(REASONS_KEY, JSON.stringify(reasons));
+  } catch (err) {
+    console.warn("Could not save the reason catalog", err);
+  }
+}
+
+export function reasonsFor(reasons: ReasonCode[], kind: ReasonKind) {
+  return reasons.filter((r) => r.kind === kind);
+}
+
+/** Catalog entry for a logged reason code, or undefined for free text / removed codes. */
+export function findReason(reasons: ReasonCode[], kind: ReasonKind, code: string | undefined) {
+  const key = (code || "").trim();
+  return key ? reasons.find((r) => r.kind === kind && r.code === key) : undefined;
+}
+
+export function isPlannedReason(reasons: ReasonCode[], code: string | undefined) {
+  return !!findReason(reasons, "pause", code)?.planned;
+}
+
+/** Roll idle-by-pause-reason up into category and classification totals. */
+export function idleBreakdown(idleByReason: Record<string, number>, reasons: ReasonCode[]) {
+  const byCategory: Record<string, number> = {};
+  const byClass: Record<string, number> = {};
+  for (const [code, ms] of Object.entries(idleByReason)) {
+    const r = findReason(reasons, "pause", code);
+    const cat = r?.category ?? UNCATEGORIZED;
+    const cls = r ? CLASS_LABELS[r.classification] : UNCLASSIFIED;
+    byCategory[cat] = (byCategory[cat] ?? 0) + ms;
+    byClass[cls] = (byClass[cls] ?? 0) + ms;
+  }
+  return { byCategory, byClass };
+}
@@ -1,19 +1,20 @@
 // src/Report.ts
+import { computeMetrics } from "./Metrics";
+import type { SampleObservation, ShiftCalendar, StudyMode, TimeEvent, WorkElement } from "./Model";
+import type { ReasonCode } from "./Reasons";
+import { signedPct, type Variance } from "./Estimate";
+import { SAMPLE_STATE_LABELS, summarizeSamples } from "./Sampling";
 
 export type EmpStatus = "idle" | "active" | "paused";
-export type TimeEvent = "start" | "pause" | "stop" | "deleted";
+export type { TimeEvent };
 
 export interface Employee {
   id: number;
   name: string;
-  status: EmpStatus;
-  startTime: number | null;
-  elapsedTime: number;
-  pausedAccum: number;
-  lastPausedAt: number | null;
   logs: string[];
   role?: string;
   skill?: string;
+  rating?: number;
 }
 
 export interface TimeLogEntry {
@@ -24,6 +25,8 @@ export interface TimeLogEntry {
   event: TimeEvent;
   reasonCode?: string;
   comment?: string;
+  elementId?: number;
+  gapMs?: number;
 }
 
 export interface TaskEntry {
@@ -49,6 +52,12 @@ export interface Info {
   date: string;
   endDate: string;
   multiDay: boolean;
+  timeZone?: string;   // IANA zone for all dates/times in the report
+  dayStart?: string;   // "HH:MM" study-day boundary for the daily breakdown
+  shift?: ShiftCalendar; // shift hours + scheduled breaks (planned idle)
+  elements?: WorkElement[]; // ordered task steps
+  allowancePct?: number;    // PF&D allowance on normal time
+  mode?: StudyMode;         // continuous timing or work sampling
   location: string;
   procedure: string;
   workOrder: string;
@@ -64,9 +73,8 @@ export interface Info {
   summary?: string;    // multi-line user-entered summary text
 }
 
-type LiveTimesFn = (e: Employee) => { active: number; idle: number; total: number };
 type MsToTimeFn = (ms: number) => string;
-type FmtStampFn = (at: number, withDate: boolean) => string;
+type FmtStampFn = (at: number, withDate: boolean, timeZone?: string) => string;
 
 const pad2 = (n: number) => String(n).padStart(2, "0");
 const msToHMS = (ms: number) => {
@@ -76,6 +84,9 @@ const msToHMS = (ms: number) => {
   const ss = s % 60;
   return `${pad2(h)}:${pad2(m)}:${pad2(ss)}`;
 };
+const signedHMS = (ms: number) => `${ms < 0 ? "−" : "+"}${msToHMS(Math.abs(ms))}`;
+const varianceNum = (v: Variance | null) =>
+  v ? `<div class="num">${signedHMS(v.ms)}</div><div class="sub">${signedPct(v.pct)}</div>` : `<div class="num">—</div>`;
 
 // Helper to satisfy TS noUnused* checks without changing behavior
 const _use = (..._args: unknown[]) => {};
@@ -102,6 +113,10 @@ function baseStyles() {
   .kpi{border:1px solid var(--line);border-radius:10px;padding:10px;display:grid;gap:6px;justify-items:center;background:#ffffff}
   .kpi .label{font-size:12px;color:#374151}
   .kpi .num{font-size:20px;font-weight:800;font-family:ui-monospace,Menlo,Consolas,monospace}
+  .kpi .sub{font-size:12px;color:var(--muted);font-family:ui-monospace,Menlo,Consolas,monospace}
+  .pareto{display:grid;grid-template-columns:minmax(120px,200px) 1fr auto;gap:6px 10px;align-items:center;margin-bottom:10px;font-size:12px}
+  .pareto .track{height:14px;background:#f3f4f6;border-radius:4px;overflow:hidden}
+  .pareto .bar{height:100%;background:#f59e0b}
   .defs{font-size:12px;color:var(--muted)}
   .defs dt{color:#374151;font-weight:600;margin-top:8px}
   .defs dd{margin:2px 0 6px 0}
@@ -147,76 +162,6 @@ function escapeHTML(s: string) {
   );
 }
 
-/* --------- KPI Calculation (with "any engaged" rule) --------- */
-function calcKPIs(
-  info: Info,
-  employees: Employee[],
-  timeLog: TimeLogEntry[],
-  liveTimes: LiveTimesFn,
-) {
-  _use(info);
-  const now = Date.now();
-  const totalActive = employees.reduce((acc, e) => acc + liveTimes(e).active, 0);
-  const totalIdle = employees.reduce((acc, e) => acc + liveTimes(e).idle, 0);
-  const totalAll = totalActive + totalIdle;
-
-  const starts = timeLog.filter((t) => t.event === "start").map((t) => t.at);
-  const firstStartAt = starts.length ? Math.min(...starts) : null;
-  const ends = timeLog.filter((t) => t.event === "stop" || t.event === "deleted").map((t) => t.at);
-  const lastStopAt = ends.length ? Math.max(...ends) : null;
-
-  // FIX: Actual time ends at "now" while anyone is Active/Paused; else at last stop.
-  const anyEngagedNow = employees.some((e) => e.status === "active" || e.status === "paused");
-  const endForActual = anyEngagedNow ? now : (lastStopAt ?? now);
-  const actualClockMs = firstStartAt ? Math.max(0, endForActual - firstStartAt) : 0;
-
-  const utilization = actualClockMs ? totalActive / actualClockMs : 0;
-  const crewHours = totalActive / 3_600_000;
-  const idleRatio = totalAll ? totalIdle / totalAll : 0;
-
-  // Daily breakdown
-  const daily: Record<string, { actualMs: number; touchMs: number; idleMs: number }> = {};
-  const evs = [...timeLog].sort((a, b) => a.at - b.at);
-  if (evs.length) {
-    const snapshot: Record<number, EmpStatus> = {};
-    const empSet = new Set(evs.map((e) => e.employeeId).filter((x): x is number => typeof x === "number"));
-    empSet.forEach((id) => (snapshot[id] = "idle"));
-    let tPrev = evs[0].at;
-
-    const addSpan = (t0: number, t1: number) => {
-      if (t1 <= t0) return;
-      const activeCnt = Object.values(snapshot).filter((s) => s === "active").length;
-      const pausedCnt = Object.values(snapshot).filter((s) => s === "paused").length;
-
-      let a = t0;
-      while (a < t1) {
-        const dayEnd = new Date(new Date(a).toDateString()).getTime() + 24 * 3600 * 1000;
-        const b = Math.min(t1, dayEnd);
-        const key = new Date(a).toISOString().slice(0, 10);
-        const dur = b - a;
-        if (!daily[key]) daily[key] = { actualMs: 0, touchMs: 0, idleMs: 0 };
-        daily[key].actualMs += dur;
-        daily[key].touchMs += dur * activeCnt;
-        daily[key].idleMs += dur * pausedCnt;
-        a = b;
-      }
-    };
-
-    for (const ev of evs) {
-      addSpan(tPrev, ev.at);
-      if (typeof ev.employeeId === "number") {
-        if (ev.event === "start") snapshot[ev.employeeId] = "active";
-        if (ev.event === "pause") snapshot[ev.employeeId] = "paused";
-        if (ev.event === "stop" || ev.event === "deleted") snapshot[ev.employeeId] = "idle";
-      }
-      tPrev = ev.at;
-    }
-    if (lastStopAt == null) addSpan(tPrev, now);
-  }
-
-  return { totalActive, totalIdle, totalAll, actualClockMs, utilization, crewHours, idleRatio, daily };
-}
-
 // Guarantee all ReportPhoto images are embeddable as data URLs (for printing/offline in Safari/Chrome)
 async function normalizePhotosToDataURLs(photos?: ReportPhoto[]): Promise<ReportPhoto[]> {
   if (!photos || !photos.length) return [];
@@ -276,25 +221,38 @@ function renderHTML(
   employees: Employee[],
   timeLog: TimeLogEntry[],
   taskLog: TaskEntry[],
-  liveTimes: LiveTimesFn,
   msToTime: MsToTimeFn,
   fmtStamp: FmtStampFn,
+  now: number, // study clock (Clock.ts), as the app's live totals use
   photos?: ReportPhoto[],
+  reasons?: ReasonCode[],
+  samples?: SampleObservation[],
 ) {
   _use(msToTime);
-  const genAt = new Date();
-  const { totalActive, totalIdle, totalAll, actualClockMs, utilization, crewHours, idleRatio, daily } = calcKPIs(
-    info,
-    employees,
-    timeLog,
-    liveTimes,
-  );
-  _use(totalAll);
-
-  const perfRows = employees
-    .map((e) => {
-      const { active, idle, total } = liveTimes(e);
-      const status = e.status === "idle" && (active > 0 || idle > 0) ? "Completed" : e.status;
+  const genAt = new Date(now);
+  const metrics = computeMetrics({ employees, timeLog, info, reasons }, now);
+  const {
+    touchMs: totalActive,
+    idleMs: totalIdle,
+    plannedIdleMs,
+    unplannedIdleMs,
+    totalMs: totalAll,
+    actualMs: actualClockMs,
+    utilization,
+    crewHours,
+    idleRatio,
+    unplannedIdleRatio,
+    daily,
+    idleByCategory,
+    idleByClass,
+    pareto,
+  } = metrics;
+
+  const perfRows = metrics.employees
+    .map((m, i) => {
+      const e = employees[i];
+      const { status: st, active, idle, plannedIdle, unplannedIdle, total, rating, normal } = m;
+      const status = st === "idle" && (active > 0 || idle > 0) ? "Completed" : st;
       return `<tr>
         <td>${escapeHTML(e.name)}</td>
         <td>${escapeHTML(e.role || "—")}</td>
@@ -302,19 +260,97 @@ function renderHTML(
         <td>${escapeHTML(status)}</td>
         <td class="mono">${msToHMS(active)}</td>
         <td class="mono">${msToHMS(idle)}</td>
+        <td class="mono">${msToHMS(plannedIdle)}</td>
+        <td class="mono">${msToHMS(unplannedIdle)}</td>
         <td class="mono">${msToHMS(total)}</td>
+        <td class="mono">${rating}%</td>
+        <td class="mono">${msToHMS(normal)}</td>
       </tr>`;
     })
     .join("");
 
+  const elementName = (id: number | undefined) =>
+    id == null ? "(none)" : (info.elements?.find((el) => el.id === id)?.name ?? "(removed element)");
+  const elementRows = metrics.elements
+    .map(
+      (el, i) => `
+    <tr>
+      <td>${i + 1}. ${escapeHTML(el.name)}</td>
+      <td class="mono">${msToHMS(el.touchMs)}</td>
+      <td class="mono">${msToHMS(el.elapsedMs)}</td>
+      <td class="mono">${el.avgCrew.toFixed(2)}</td>
+      <td class="mono">${el.maxCrew}</td>
+      <td class="mono">${msToHMS(el.normalMs)}</td>
+    </tr>
+  `,
+    )
+    .join("");
+
+  const cycleRow = (label: string, st: typeof metrics.cycleStats, outliers: number) => `
+    <tr>
+      <td>${escapeHTML(label)}</td>
+      <td class="mono">${st.count}</td>
+      <td class="mono">${msToHMS(st.mean)}</td>
+      <td class="mono">${msToHMS(st.min)}</td>
+      <td class="mono">${msToHMS(st.max)}</td>
+      <td class="mono">${msToHMS(st.sd)}</td>
+      <td class="mono">${outliers}</td>
+    </tr>
+  `;
+  const cycleRows = metrics.cycleStats.count
+    ? cycleRow("All crew", metrics.cycleStats, metrics.cycleStats.outliers.length) +
+      metrics.employees
+        .filter((m) => m.cycles.count > 0)
+        .map((m) => cycleRow(m.name, m.cycles, metrics.cycles.filter((c) => c.employeeId === m.id && c.outlier).length))
+        .join("")
+    : "";
+  const cycleOf = new Map(metrics.cycles.map((c) => [c.lapId, c]));
+
+  const sampling = samples?.length ? summarizeSamples(samples, reasons ?? []) : null;
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  const samplingRows = sampling
+    ? sampling.states
+        .map(
+          (st) => `
+    <tr>
+      <td>${SAMPLE_STATE_LABELS[st.state]}</td>
+      <td class="mono">${st.count}</td>
+      <td class="mono">${pct(st.share)}</td>
+      <td class="mono">${pct(st.low)} – ${pct(st.high)}</td>
+    </tr>`,
+        )
+        .join("")
+    : "";
+  const samplingReasonRows = sampling
+    ? sampling.reasons
+        .map(
+          (r) => `
+    <tr>
+      <td>${escapeHTML(r.reason)}</td>
+      <td>${escapeHTML(r.category)}</td>
+      <td class="mono">${r.count}</td>
+      <td class="mono">${pct(r.share)}</td>
+    </tr>`,
+        )
+        .join("")
+    : "";
+
   const timeRows = [...timeLog]
     .sort((a, b) => a.at - b.at)
     .map(
       (t) => `
     <tr>
-      <td class="mono">${fmtStamp(t.at, info.multiDay)}</td>
+      <td class="mono">${fmtStamp(t.at, info.multiDay, info.timeZone)}</td>
       <td>${escapeHTML(t.employeeName)}</td>
-      <td>${t.event}</td>
+      <td>${
+        t.event === "element"
+          ? `element: ${escapeHTML(elementName(t.elementId))}`
+          : t.event === "lap" && cycleOf.has(t.id)
+            ? `lap #${cycleOf.get(t.id)!.index} (${msToHMS(cycleOf.get(t.id)!.ms)})`
+            : t.event === "gap"
+              ? `clock gap (${msToHMS(Math.abs(t.gapMs ?? 0))})`
+              : t.event
+      }</td>
       <td>${t.reasonCode ? escapeHTML(t.reasonCode) : ""}</td>
       <td>${t.comment ? escapeHTML(t.comment) : ""}</td>
     </tr>
@@ -327,7 +363,7 @@ function renderHTML(
     .map(
       (n) => `
     <tr>
-      <td class="mono">${fmtStamp(n.at, info.multiDay)}</td>
+      <td class="mono">${fmtStamp(n.at, info.multiDay, info.timeZone)}</td>
       <td>${escapeHTML(n.text)}</td>
     </tr>
   `,
@@ -343,12 +379,51 @@ function renderHTML(
       <td class="mono">${msToHMS(v.actualMs)}</td>
       <td class="mono">${msToHMS(v.touchMs)}</td>
       <td class="mono">${msToHMS(v.idleMs)}</td>
+      <td class="mono">${msToHMS(v.plannedIdleMs)}</td>
       <td class="mono">${v.actualMs ? ((v.touchMs / v.actualMs) * 100).toFixed(1) : "0.0"}%</td>
     </tr>
   `,
     )
     .join("");
 
+  const breakdownRows = (totals: Record<string, number>) =>
+    Object.entries(totals)
+      .sort((a, b) => b[1] - a[1])
+      .map(
+        ([label, ms]) => `
+    <tr>
+      <td>${escapeHTML(label)}</td>
+      <td class="mono">${msToHMS(ms)}</td>
+      <td class="mono">${totalIdle ? ((ms / totalIdle) * 100).toFixed(1) : "0.0"}%</td>
+    </tr>
+  `,
+      )
+      .join("");
+
+  const paretoMax = pareto[0]?.ms || 1;
+  const paretoBars = pareto
+    .map(
+      (p) => `
+    <div>${escapeHTML(p.reason)}</div>
+    <div class="track"><div class="bar" style="width:${((p.ms / paretoMax) * 100).toFixed(1)}%"></div></div>
+    <div class="mono">${msToHMS(p.ms)}</div>
+  `,
+    )
+    .join("");
+  const paretoRows = pareto
+    .map(
+      (p) => `
+    <tr>
+      <td>${escapeHTML(p.reason)}</td>
+      <td class="mono">${msToHMS(p.ms)}</td>
+      <td class="mono">${p.count}</td>
+      <td class="mono">${(p.share * 100).toFixed(1)}%</td>
+      <td class="mono">${(p.cumulative * 100).toFixed(1)}%</td>
+    </tr>
+  `,
+    )
+    .join("");
+
   const metricDefs = `
     <dl class="defs">
       <dt>Type</dt>
@@ -366,20 +441,44 @@ function renderHTML(
       <dt>Idle Time</dt>
       <dd>Sum of time employees are <em>Paused</em> (crew-weighted). Stopped employees are not counted as idle.</dd>
 
+      <dt>Planned / Unplanned Idle</dt>
+      <dd>Idle inside a scheduled break or outside shift hours, or paused with a reason marked planned in the reason catalog (e.g., Break, Shift change), is planned; the rest is unplanned.</dd>
+
       <dt>Total Time</dt>
       <dd>Touch + Idle (crew-weighted time, not wall-clock).</dd>
 
       <dt>Utilization</dt>
-      <dd>Touch Labor ÷ Actual Time.</dd>
+      <dd>Touch Labor ÷ (Actual Time − planned downtime). Planned downtime is wall-clock when nobody is Active during a scheduled break, off-shift, or a planned pause.</dd>
 
       <dt>Crew-hours</dt>
       <dd>Touch Labor expressed in hours (Σ active ÷ 3600s).</dd>
 
       <dt>Idle Ratio</dt>
-      <dd>Idle ÷ (Touch + Idle).</dd>
+      <dd>Unplanned Idle ÷ (Touch + Idle).</dd>
+
+      <dt>Normal / Standard Time</dt>
+      <dd>Normal = Touch Labor × performance rating (the element's rating when set, else the employee's; unrated = 100%). Standard = Normal × (1 + PF&amp;D allowance), compared against the Estimated Time.</dd>
+
+      <dt>Actual / Crew-hours vs Estimate</dt>
+      <dd>Actual Time − Estimated Time and Crew-hours (touch labor) − Estimated Time; positive is over the estimate, with the difference also shown as a % of the estimate.</dd>
+
+      <dt>Work Elements</dt>
+      <dd>Per task step: Touch is Active time on the element, Elapsed is wall-clock with anyone Active on it, Avg Crew is Touch ÷ Elapsed and Peak Crew the most people on it at once.</dd>
+
+      <dt>Cycle Times</dt>
+      <dd>From Lap captures: a cycle runs from <em>Start</em> (or the previous <em>Lap</em>) to the next <em>Lap</em>, counting Active time only. Outliers fall outside 1.5 × IQR of all cycles.</dd>
+
+      <dt>Delay Pareto</dt>
+      <dd>Paused time per reason code, measured from each <em>Pause</em> to the next <em>Start</em>/<em>Stop</em> (crew-weighted), longest first with cumulative share.</dd>
+
+      <dt>Idle by Category / Classification</dt>
+      <dd>Paused time totalled by the pause reason's category and value-added classification from the reason catalog. Reasons not in the catalog are Uncategorized.</dd>
+
+      <dt>Work Sampling</dt>
+      <dd>Share of random observations in each state (Working / Waiting / Traveling / Absent) with a normal-approximation confidence interval p ± z·√(p(1 − p)/n). Observations needed for ±5% on Working: z²·p(1 − p) ÷ 0.05².</dd>
 
       <dt>Daily Breakdown</dt>
-      <dd>Actual/Touch/Idle apportioned per calendar day; spans crossing midnight are split.</dd>
+      <dd>Actual/Touch/Idle apportioned per study day (time zone and day start from the header); spans crossing the boundary are split.</dd>
     </dl>
   `;
 
@@ -401,6 +500,9 @@ function renderHTML(
       <div>
         <div><span class="meta">Date:</span> ${escapeHTML(info.date)}</div>
         ${info.multiDay ? `<div><span class="meta">End Date:</span> ${escapeHTML(info.endDate || "")}</div>` : ""}
+        ${info.timeZone ? `<div><span class="meta">Time Zone:</span> ${escapeHTML(info.timeZone)}${info.dayStart && info.dayStart !== "00:00" ? ` (days start ${escapeHTML(info.dayStart)})` : ""}</div>` : ""}
+        ${info.shift && (info.shift.start || info.shift.breaks.length) ? `<div><span class="meta">Shift:</span> ${info.shift.start && info.shift.end ? `${escapeHTML(info.shift.start)}–${escapeHTML(info.shift.end)}` : "—"}${info.shift.breaks.map((b) => `; ${escapeHTML(b.label || "Break")} ${escapeHTML(b.start)}–${escapeHTML(b.end)}`).join("")}</div>` : ""}
+        ${info.mode === "sampling" ? `<div><span class="meta">Study Mode:</span> Work sampling</div>` : ""}
         ${info.type ? `<div><span class="meta">Type:</span> ${escapeHTML(info.type)}</div>` : ""}
         ${info.workType ? `<div><span class="meta">Work Type:</span> ${escapeHTML(info.workType)}</div>` : ""}
         ${info.assetId ? `<div><span class="meta">Asset ID:</span> ${escapeHTML(info.assetId)}</div>` : ""}
@@ -419,10 +521,18 @@ function renderHTML(
           <div class="kpi"><div class="label">Actual</div><div class="num">${msToHMS(actualClockMs)}</div></div>
           <div class="kpi"><div class="label">Touch</div><div class="num">${msToHMS(totalActive)}</div></div>
           <div class="kpi"><div class="label">Idle</div><div class="num">${msToHMS(totalIdle)}</div></div>
+          <div class="kpi"><div class="label">Planned Idle</div><div class="num">${msToHMS(plannedIdleMs)}</div></div>
+          <div class="kpi"><div class="label">Unplanned Idle</div><div class="num">${msToHMS(unplannedIdleMs)}</div></div>
           <div class="kpi"><div class="label">Combined</div><div class="num">${msToHMS(totalAll)}</div></div>
           <div class="kpi"><div class="label">Utilization</div><div class="num">${(utilization * 100).toFixed(1)}%</div></div>
           <div class="kpi"><div class="label">Crew-hours</div><div class="num">${crewHours.toFixed(2)}</div></div>
           <div class="kpi"><div class="label">Idle Ratio</div><div class="num">${(idleRatio * 100).toFixed(1)}%</div></div>
+          <div class="kpi"><div class="label">Unplanned Idle Ratio</div><div class="num">${(unplannedIdleRatio * 100).toFixed(1)}%</div></div>
+          <div class="kpi"><div class="label">Normal Time</div><div class="num">${msToHMS(metrics.normalMs)}</div></div>
+          <div class="kpi"><div class="label">Standard Time (+${metrics.allowancePct}%)</div><div class="num">${msToHMS(metrics.standardMs)}</div></div>
+          <div class="kpi"><div class="label">Std vs Estimate</div><div class="num">${metrics.standardVsEstimateMs != null ? signedHMS(metrics.standardVsEstimateMs) : "—"}</div></div>
+          <div class="kpi"><div class="label">Actual vs Estimate</div>${varianceNum(metrics.actualVsEstimate)}</div>
+          <div class="kpi"><div class="label">Crew-hrs vs Estimate</div>${varianceNum(metrics.crewVsEstimate)}</div>
         </div>
       </div>
     </div>
@@ -439,13 +549,58 @@ function renderHTML(
       <div class="table-wrap">
         <table>
           <thead>
-            <tr><th>Employee</th><th>Role</th><th>Skill</th><th>Status</th><th>Active (Touch)</th><th>Idle</th><th>Total</th></tr>
+            <tr><th>Employee</th><th>Role</th><th>Skill</th><th>Status</th><th>Active (Touch)</th><th>Idle</th><th>Planned Idle</th><th>Unplanned Idle</th><th>Total</th><th>Rating</th><th>Normal</th></tr>
           </thead>
-          <tbody>${perfRows || `<tr><td colspan="7" class="meta">No employees.</td></tr>`}</tbody>
+          <tbody>${perfRows || `<tr><td colspan="11" class="meta">No employees.</td></tr>`}</tbody>
         </table>
       </div>
     </div>
 
+    ${sampling ? `
+      <div class="card">
+        <h2>Work Sampling</h2>
+        <div class="meta">${sampling.observations} observations over ${sampling.rounds} rounds · ${sampling.confidence * 100}% confidence intervals${sampling.required != null ? ` · ${sampling.required} observations needed for ±5% on Working` : ""}</div>
+        <div class="table-wrap">
+          <table>
+            <thead><tr><th>State</th><th>Observations</th><th>Share</th><th>${sampling.confidence * 100}% Interval</th></tr></thead>
+            <tbody>${samplingRows}</tbody>
+          </table>
+        </div>
+        ${samplingReasonRows ? `
+          <div class="table-wrap" style="margin-top:8px">
+            <table>
+              <thead><tr><th>Not working — reason</th><th>Category</th><th>Observations</th><th>Share</th></tr></thead>
+              <tbody>${samplingReasonRows}</tbody>
+            </table>
+          </div>
+        ` : ""}
+      </div>
+    ` : ""}
+
+    ${cycleRows ? `
+      <div class="card">
+        <h2>Cycle Times</h2>
+        <div class="table-wrap">
+          <table>
+            <thead><tr><th></th><th>Cycles</th><th>Mean</th><th>Min</th><th>Max</th><th>Std Dev</th><th>Outliers</th></tr></thead>
+            <tbody>${cycleRows}</tbody>
+          </table>
+        </div>
+      </div>
+    ` : ""}
+
+    ${elementRows ? `
+      <div class="card">
+        <h2>Work Elements</h2>
+        <div class="table-wrap">
+          <table>
+            <thead><tr><th>Element</th><th>Touch</th><th>Elapsed</th><th>Avg Crew</th><th>Peak Crew</th><th>Normal</th></tr></thead>
+            <tbody>${elementRows}</tbody>
+          </table>
+        </div>
+      </div>
+    ` : ""}
+
     <div class="card">
       <h2>Time Log</h2>
       <div class="table-wrap">
@@ -493,13 +648,45 @@ function renderHTML(
         <h2>Daily Breakdown</h2>
         <div class="table-wrap">
           <table>
-            <thead><tr><th>Date</th><th>Actual</th><th>Touch</th><th>Idle</th><th>Utilization</th></tr></thead>
+            <thead><tr><th>Date</th><th>Actual</th><th>Touch</th><th>Idle</th><th>Planned Idle</th><th>Utilization</th></tr></thead>
             <tbody>${dailyRows}</tbody>
           </table>
         </div>
       </div>
     ` : ""}
 
+    ${pareto.length ? `
+      <div class="card">
+        <h2>Delay Pareto</h2>
+        <div class="pareto">${paretoBars}</div>
+        <div class="table-wrap">
+          <table>
+            <thead><tr><th>Reason</th><th>Paused</th><th>Pauses</th><th>Share</th><th>Cumulative</th></tr></thead>
+            <tbody>${paretoRows}</tbody>
+          </table>
+        </div>
+      </div>
+    ` : ""}
+
+    ${Object.keys(idleByCategory).length ? `
+      <div class="card">
+        <h2>Idle by Category</h2>
+        <div class="table-wrap">
+          <table>
+            <thead><tr><th>Category</th><th>Idle</th><th>Share</th></tr></thead>
+            <tbody>${breakdownRows(idleByCategory)}</tbody>
+          </table>
+        </div>
+        <h2>Idle by Classification</h2>
+        <div class="table-wrap">
+          <table>
+            <thead><tr><th>Classification</th><th>Idle</th><th>Share</th></tr></thead>
+            <tbody>${breakdownRows(idleByClass)}</tbody>
+          </table>
+        </div>
+      </div>
+    ` : ""}
+
     <div class="card">
       <h2>Metric Definitions</h2>
       ${metricDefs}
@@ -517,14 +704,16 @@ export function printReportHTML(
   employees: Employee[],
   timeLog: TimeLogEntry[],
   taskLog: TaskEntry[],
-  liveTimes: LiveTimesFn,
   msToTime: MsToTimeFn,
   fmtStamp: FmtStampFn,
+  now: number,
   photos?: ReportPhoto[],
+  reasons?: ReasonCode[],
+  samples?: SampleObservation[],
 ) {
   (async () => {
     const normalizedPhotos = await normalizePhotosToDataURLs(photos);
-    const html = renderHTML(info, employees, timeLog, taskLog, liveTimes, msToTime, fmtStamp, normalizedPhotos);
+    const html = renderHTML(info, employees, timeLog, taskLog, msToTime, fmtStamp, now, normalizedPhotos, reasons, samples);
     const win = window.open("", "_blank");
     if (!win) return;
     win.document.open();
@@ -577,14 +766,16 @@ export function exportReportHTML(
   employees: Employee[],
   timeLog: TimeLogEntry[],
   taskLog: TaskEntry[],
-  liveTimes: LiveTimesFn,
   msToTime: MsToTimeFn,
   fmtStamp: FmtStampFn,
+  now: number,
   photos?: ReportPhoto[],
+  reasons?: ReasonCode[],
+  samples?: SampleObservation[],
 ) {
   (async () => {
     const normalizedPhotos = await normalizePhotosToDataURLs(photos);
-    const html = renderHTML(info, employees, timeLog, taskLog, liveTimes, msToTime, fmtStamp, normalizedPhotos);
+    const html = renderHTML(info, employees, timeLog, taskLog, msToTime, fmtStamp, now, normalizedPhotos, reasons, samples);
     const blob = new Blob([html], { type: "text/html;charset=utf-8" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -600,10 +791,12 @@ export function exportReportPDF(
   employees: Employee[],
   timeLog: TimeLogEntry[],
   taskLog: TaskEntry[],
-  liveTimes: LiveTimesFn,
   msToTime: MsToTimeFn,
   fmtStamp: FmtStampFn,
+  now: number,
   photos?: ReportPhoto[],
+  reasons?: ReasonCode[],
+  samples?: SampleObservation[],
 ) {
   // Create a hidden iframe to avoid popup blockers and ensure print works reliably.
   const iframe = document.createElement("iframe");
@@ -629,7 +822,7 @@ export function exportReportPDF(
   // Use an IIFE to await without making the outer function async
   (async () => {
     normalizedPhotos = await normalizePhotosToDataURLs(photos);
-    html = renderHTML(info, employees, timeLog, taskLog, liveTimes, msToTime, fmtStamp, normalizedPhotos);
+    html = renderHTML(info, employees, timeLog, taskLog, msToTime, fmtStamp, now, normalizedPhotos, reasons, samples);
     doc.open();
     doc.write(html);
     doc.close();
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { blankState } from "./Model";
+import { sampleSize, studyGroups, tCritical } from "./SampleSize";
+import type { StudyMeta } from "./Storage";
+
+const M = 60_000;
+
+const meta = (id: string, procedure: string, task: string, touchMs: number, createdAt = 0): StudyMeta => ({
+  id,
+  createdAt,
+  updatedAt: createdAt,
+  archived: false,
+  info: { ...blankState("").info, procedure, task },
+  kpis: { actualMs: touchMs, touchMs, idleMs: 0, utilization: 1, crewHours: touchMs / 3_600_000, idleRatio: 0, employees: 1 },
+});
+
+describe("tCritical", () => {
+  it("matches the t table", () => {
+    expect(tCritical(0.95, 4)).toBe(2.776);
+    expect(tCritical(0.9, 10)).toBe(1.812);
+    expect(tCritical(0.99, 30)).toBe(2.75);
+  });
+
+  it("approximates past df 30 and has no value without degrees of freedom", () => {
+    expect(tCritical(0.95, 60)).toBeCloseTo(2.0, 2);
+    expect(tCritical(0.95, 120)).toBeCloseTo(1.98, 2);
+    expect(tCritical(0.95, 0)).toBe(Infinity);
+  });
+});
+
+describe("sampleSize", () => {
+  it("uses Student's t at n − 1 degrees of freedom", () => {
+    // mean 14 min, sample sd √10 min; t(0.95, 4) = 2.776
+    const r = sampleSize([10, 12, 14, 16, 18].map((v) => v * M), 0.05, 0.95);
+    const half = (2.776 * Math.sqrt(10) * M) / Math.sqrt(5);
+    expect(r.t).toBe(2.776);
+    expect(r.meanMs).toBe(14 * M);
+    expect(r.sdMs).toBeCloseTo(Math.sqrt(10) * M, 6);
+    expect(r.lowMs).toBeCloseTo(14 * M - half, 6);
+    expect(r.highMs).toBeCloseTo(14 * M + half, 6);
+    expect(r.accuracy).toBeCloseTo(half / (14 * M), 9);
+    // N = (2.776 · √10 / (0.05 · 14))² = 157.3 → 158
+    expect(r.required).toBe(158);
+    expect(r.additional).toBe(153);
+  });
+
+  it("never asks for fewer than are already there", () => {
+    const r = sampleSize([100 * M, 100 * M, 101 * M], 0.05, 0.95);
+    expect(r.required).toBe(1);
+    expect(r.additional).toBe(0);
+  });
+
+  it("leaves the accuracy fields empty below two observations", () => {
+    expect(sampleSize([10 * M], 0.05, 0.95)).toMatchObject({ count: 1, t: 0, accuracy: null, required: null, additional: null });
+  });
+});
+
+describe("studyGroups", () => {
+  it("pools studies by procedure + task regardless of case, largest group first", () => {
+    const groups = studyGroups([
+      meta("a", "AMM 32-11", "Wheel change", 2 * M, 2),
+      meta("b", "amm 32-11 ", "wheel change", 3 * M, 1),
+      meta("c", "AMM 05-20", "Borescope", 4 * M),
+      meta("d", "AMM 05-20", "Borescope", 0), // no touch time
+      meta("e", "", "", 5 * M),              // nothing to group by
+    ]);
+    expect(groups.map((g) => g.studies.map((s) => s.id))).toEqual([["b", "a"], ["c"]]);
+    expect(groups[0]).toMatchObject({ procedure: "AMM 32-11", task: "Wheel change" });
+  });
+});
@@ -0,0 +1,102 @@
+// src/SampleSize.ts
+// How many observations are enough: repeated studies of the same procedure + task are pooled, each
+// one contributing its touch time, and the sample is checked against a target accuracy (±a% of the
+// mean) at a confidence level.
+//
+//  - Confidence interval: mean ± t·s/√n, with Student's t at n − 1 degrees of freedom.
+//  - Required observations: N = (t·s / (a·mean))², the classical time-study formula, so the
+//    interval's half-width is within a of the mean. Additional = N − n (never negative).
+
+import type { AppInfo } from "./Model";
+import type { StudyMeta } from "./Storage";
+import { describe } from "./Stats";
+
+export const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99] as const;
+export type ConfidenceLevel = (typeof CONFIDENCE_LEVELS)[number];
+
+export interface StudyGroup {
+  key: string;          // normalized procedure + task
+  procedure: string;
+  task: string;
+  studies: StudyMeta[]; // with touch time, oldest first
+}
+
+export interface SampleSizeResult {
+  count: number;
+  meanMs: number;
+  sdMs: number;
+  cv: number;             // sd ÷ mean
+  t: number;              // critical value used
+  lowMs: number;          // confidence interval
+  highMs: number;
+  accuracy: number | null;   // half-width ÷ mean actually achieved
+  required: number | null;   // the accuracy fields are null with fewer than 2 observations
+  additional: number | null;
+}
+
+// Two-sided Student's t critical values for df 1-30.
+const T_TABLE: Record<ConfidenceLevel, number[]> = {
+  0.9: [
+    6.314, 2.92, 2.353, 2.132, 2.015, 1.943, 1.895, 1.86, 1.833, 1.812, 1.796, 1.782, 1.771, 1.761, 1.753,
+    1.746, 1.74, 1.734, 1.729, 1.725, 1.721, 1.717, 1.714, 1.711, 1.708, 1.706, 1.703, 1.701, 1.699, 1.697,
+  ],
+  0.95: [
+    12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131,
+    2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+  ],
+  0.99: [
+    63.657, 9.925, 5.841, 4.604, 4.032, 3.707, 3.499, 3.355, 3.25, 3.169, 3.106, 3.055, 3.012, 2.977, 2.947,
+    2.921, 2.898, 2.878, 2.861, 2.845, 2.831, 2.819, 2.807, 2.797, 2.787, 2.779, 2.771, 2.763, 2.756, 2.75,
+  ],
+};
+const Z: Record<ConfidenceLevel, number> = { 0.9: 1.6449, 0.95: 1.96, 0.99: 2.5758 };
+
+/** Two-sided normal critical value (large samples, proportions). */
+export const zCritical = (confidence: ConfidenceLevel) => Z[confidence];
+
+/** Two-sided critical value; past the table, a Cornish-Fisher expansion around z. */
+export function tCritical(confidence: ConfidenceLevel, df: number) {
+  if (df < 1) return Infinity;
+  if (df <= 30) return T_TABLE[confidence][df - 1];
+  const z = Z[confidence];
+  return z + (z ** 3 + z) / (4 * df) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2);
+}
+
+export const groupKey = (info: Pick<AppInfo, "procedure" | "task">) =>
+  `${(info.procedure || "").trim().toLowerCase()}\u0000${(info.task || "").trim().toLowerCase()}`;
+
+/** Saved studies with touch time, grouped by procedure + task (case-insensitive); largest group first. */
+export function studyGroups(studies: StudyMeta[]): StudyGroup[] {
+  const groups = new Map<string, StudyGroup>();
+  for (const m of studies) {
+    if (!(m.kpis.touchMs > 0) || !(m.info.procedure || m.info.task || "").trim()) continue;
+    const key = groupKey(m.info);
+    const g = groups.get(key) ?? { key, procedure: m.info.procedure.trim(), task: m.info.task.trim(), studies: [] };
+    g.studies.push(m);
+    groups.set(key, g);
+  }
+  const out = [...groups.values()];
+  out.forEach((g) => g.studies.sort((a, b) => a.createdAt - b.createdAt));
+  return out.sort((a, b) => b.studies.length - a.studies.length || a.key.localeCompare(b.key));
+}
+
+/** Sample statistics for observed durations against ±accuracy (a fraction, e.g. 0.05) at a confidence level. */
+export function sampleSize(valuesMs: number[], accuracy: number, confidence: ConfidenceLevel): SampleSizeResult {
+  const s = describe(valuesMs);
+  const n = s.count;
+  const t = tCritical(confidence, n - 1);
+  const half = n > 1 ? (t * s.sd) / Math.sqrt(n) : 0;
+  const required = n > 1 && s.mean > 0 && accuracy > 0 ? Math.max(1, Math.ceil(((t * s.sd) / (accuracy * s.mean)) ** 2)) : null;
+  return {
+    count: n,
+    meanMs: s.mean,
+    sdMs: s.sd,
+    cv: s.mean ? s.sd / s.mean : 0,
+    t: n > 1 ? t : 0,
+    lowMs: Math.max(0, s.mean - half),
+    highMs: s.mean + half,
+    accuracy: n > 1 && s.mean ? half / s.mean : null,
+    required,
+    additional: required != null ? Math.max(0, required - n) : null,
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { SampleObservation, SampleState, SamplingPlan } from "./Model";
+import { DEFAULT_REASONS } from "./Reasons";
+import { duePrompt, missedPrompts, nextRound, samplingTimes, summarizeSamples } from "./Sampling";
+
+const utc = (day: number, hour: number, minute = 0) => Date.UTC(2025, 2, day, hour, minute);
+const plan = (start: string, end: string, rounds: number, times: number[] = []): SamplingPlan => ({ start, end, rounds, times });
+
+let nextId = 1;
+const obs = (state: SampleState, round: number, scheduledAt?: number, reasonCode?: string): SampleObservation => ({
+  id: nextId++,
+  at: scheduledAt ?? 0,
+  round,
+  scheduledAt,
+  employeeId: 1,
+  employeeName: "Ann",
+  state,
+  reasonCode,
+});
+
+describe("samplingTimes", () => {
+  it("draws one whole-minute time in each equal slot of the window", () => {
+    const p = plan("08:00", "16:00", 4);
+    expect(samplingTimes(p, "2025-03-04", "UTC", 0, () => 0)).toEqual([utc(4, 8), utc(4, 10), utc(4, 12), utc(4, 14)]);
+    expect(samplingTimes(p, "2025-03-04", "UTC", 0, () => 0.5)).toEqual([utc(4, 9), utc(4, 11), utc(4, 13), utc(4, 15)]);
+  });
+
+  it("skips slots that have ended and draws the current one from what is left", () => {
+    const times = samplingTimes(plan("08:00", "16:00", 4), "2025-03-04", "UTC", utc(4, 11, 30), () => 0);
+    expect(times).toEqual([utc(4, 11, 30), utc(4, 12), utc(4, 14)]);
+  });
+
+  it("runs an overnight window into the next day", () => {
+    expect(samplingTimes(plan("22:00", "02:00", 2), "2025-03-04", "UTC", 0, () => 0)).toEqual([utc(4, 22), utc(5, 0)]);
+  });
+
+  it("needs a window and at least one round", () => {
+    expect(samplingTimes(plan("", "16:00", 4), "2025-03-04", "UTC", 0)).toEqual([]);
+    expect(samplingTimes(plan("08:00", "16:00", 0), "2025-03-04", "UTC", 0)).toEqual([]);
+  });
+});
+
+describe("prompts", () => {
+  const p = plan("08:00", "12:00", 3, [utc(4, 8), utc(4, 9), utc(4, 10)]);
+
+  it("asks for the latest due prompt and counts the skipped ones as missed", () => {
+    expect(duePrompt(p, [], utc(4, 7))).toBeNull();
+    expect(duePrompt(p, [], utc(4, 9, 30))).toBe(utc(4, 9));
+    expect(missedPrompts(p, [], utc(4, 9, 30))).toBe(1);
+  });
+
+  it("doesn't go back to prompts before an answered one", () => {
+    const answered = [obs("working", 1, utc(4, 9))];
+    expect(duePrompt(p, answered, utc(4, 9, 30))).toBeNull();
+    expect(missedPrompts(p, answered, utc(4, 9, 30))).toBe(1);
+    expect(duePrompt(p, answered, utc(4, 10, 5))).toBe(utc(4, 10));
+    expect(nextRound(answered)).toBe(2);
+  });
+});
+
+describe("summarizeSamples", () => {
+  it("gives each state's share with a normal-approximation interval, clipped to 0-1", () => {
+    const samples = [
+      ...Array.from({ length: 8 }, (_, i) => obs("working", i + 1)),
+      obs("waiting", 9, undefined, "Waiting on parts"),
+      obs("waiting", 10, undefined, "Waiting on parts"),
+    ];
+    const s = summarizeSamples(samples, DEFAULT_REASONS);
+    const working = s.states.find((x) => x.state === "working")!;
+    const half = 1.96 * Math.sqrt((0.8 * 0.2) / 10);
+    expect(s.observations).toBe(10);
+    expect(s.rounds).toBe(10);
+    expect(working.share).toBe(0.8);
+    expect(working.low).toBeCloseTo(0.8 - half, 9);
+    expect(working.high).toBe(1);
+    // 1.96² · 0.8 · 0.2 / 0.05² = 245.9
+    expect(s.required).toBe(246);
+    expect(s.reasons).toEqual([{ reason: "Waiting on parts", category: "Material", count: 2, share: 0.2 }]);
+    expect(s.byEmployee).toEqual([{ name: "Ann", total: 10, counts: { working: 8, waiting: 2, traveling: 0, absent: 0 } }]);
+  });
+
+  it("has no required count without observations", () => {
+    expect(summarizeSamples([], DEFAULT_REASONS).required).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+// src/Sampling.ts
+// Work sampling: instead of timing continuously, the observer is prompted at random moments and records
+// what each employee is doing. The share of observations in each state estimates the share of time.
+//
+//  - Schedule: the window is cut into `rounds` equal slots with one random minute in each, so prompts
+//    are unpredictable to the crew but still spread across the whole window.
+//  - Shares come with a normal-approximation confidence interval, p ± z·√(p(1 − p) / n), and the
+//    classical sample size for an absolute accuracy L on a share p is n = z²·p(1 − p) / L².
+
+import { SAMPLE_STATES, type SampleObservation, type SampleState, type SamplingPlan } from "./Model";
+import { findReason, NO_REASON, UNCATEGORIZED, type ReasonCode } from "./Reasons";
+import { zCritical, type ConfidenceLevel } from "./SampleSize";
+import { parseDayStart, zonedToEpoch } from "./TimeZone";
+
+export const SAMPLE_STATE_LABELS: Record<SampleState, string> = {
+  working: "Working",
+  waiting: "Waiting",
+  traveling: "Traveling",
+  absent: "Absent",
+};
+
+/** Target accuracy for the observations-needed figure: ±5 percentage points. */
+export const SAMPLING_ACCURACY = 0.05;
+
+export interface StateShare {
+  state: SampleState;
+  count: number;
+  share: number;
+  low: number;  // confidence interval, clipped to 0-1
+  high: number;
+}
+
+export interface ReasonShare {
+  reason: string;
+  category: string;
+  count: number;
+  share: number; // of all observations
+}
+
+export interface SamplingSummary {
+  observations: number;
+  rounds: number;
+  states: StateShare[];      // in SAMPLE_STATES order
+  reasons: ReasonShare[];    // non-working observations by reason, most frequent first
+  byEmployee: { name: string; total: number; counts: Record<SampleState, number> }[];
+  confidence: ConfidenceLevel;
+  required: number | null;   // observations needed for ±SAMPLING_ACCURACY on the working share
+}
+
+/**
+ * Random prompt times for the window on `date` (yyyy-mm-dd, in `tz`), one per slot. Slots that have
+ * already ended at `now` are skipped and the current one only draws from what is left of it.
+ * Times fall on whole minutes.
+ */
+export function samplingTimes(plan: SamplingPlan, date: string, tz: string, now: number, random = Math.random): number[] {
+  const [year, month, day] = date.split("-").map(Number);
+  if (!year || !plan.start || !plan.end || plan.rounds < 1) return [];
+  const s = parseDayStart(plan.start);
+  const e = parseDayStart(plan.end);
+  const from = zonedToEpoch({ year, month, day, hour: Math.floor(s / 60), minute: s % 60, second: 0 }, tz);
+  const to = zonedToEpoch({ year, month, day: e <= s ? day + 1 : day, hour: Math.floor(e / 60), minute: e % 60, second: 0 }, tz);
+  const slot = (to - from) / plan.rounds;
+  const out: number[] = [];
+  for (let i = 0; i < plan.rounds; i++) {
+    const end = from + slot * (i + 1);
+    if (end <= now) continue;
+    const lo = Math.max(from + slot * i, now);
+    out.push(Math.ceil((lo + random() * (end - lo)) / 60_000) * 60_000);
+  }
+  return [...new Set(out)].sort((a, b) => a - b);
+}
+
+/** Round number for the next observation round. */
+export function nextRound(samples: SampleObservation[]) {
+  return Math.max(0, ...samples.map((x) => x.round)) + 1;
+}
+
+/**
+ * The scheduled prompt to ask for at `now`: the latest one that is due, unanswered and later than every
+ * answered prompt (earlier unanswered ones were missed). Null when nothing is due.
+ */
+export function duePrompt(plan: SamplingPlan, samples: SampleObservation[], now: number): number | null {
+  const answered = samples.flatMap((x) => (x.scheduledAt != null ? [x.scheduledAt] : []));
+  const last = Math.max(-Infinity, ...answered);
+  const due = plan.times.filter((t) => t <= now && t > last);
+  return due.length ? due[due.length - 1] : null;
+}
+
+/** Scheduled prompts whose time has passed without being answered (not counting the one due now). */
+export function missedPrompts(plan: SamplingPlan, samples: SampleObservation[], now: number) {
+  const answered = new Set(samples.map((x) => x.scheduledAt));
+  const due = duePrompt(plan, samples, now);
+  return plan.times.filter((t) => t <= now && t !== due && !answered.has(t)).length;
+}
+
+export function summarizeSamples(
+  samples: SampleObservation[],
+  reasons: ReasonCode[],
+  confidence: ConfidenceLevel = 0.95,
+): SamplingSummary {
+  const n = samples.length;
+  const z = zCritical(confidence);
+  const states = SAMPLE_STATES.map((state): StateShare => {
+    const count = samples.filter((x) => x.state === state).length;
+    const p = n ? count / n : 0;
+    const half = n ? z * Math.sqrt((p * (1 - p)) / n) : 0;
+    return { state, count, share: p, low: Math.max(0, p - half), high: Math.min(1, p + half) };
+  });
+
+  const byReason = new Map<string, number>();
+  for (const x of samples) {
+    if (x.state === "working") continue;
+    const key = (x.reasonCode || "").trim() || NO_REASON;
+    byReason.set(key, (byReason.get(key) ?? 0) + 1);
+  }
+  const reasonRows = [...byReason.entries()]
+    .map(([reason, count]) => ({
+      reason,
+      category: findReason(reasons, "pause", reason)?.category ?? UNCATEGORIZED,
+      count,
+      share: n ? count / n : 0,
+    }))
+    .sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason));
+
+  const people = new Map<string, { name: string; total: number; counts: Record<SampleState, number> }>();
+  for (const x of samples) {
+    const key = x.employeeId != null ? `#${x.employeeId}` : x.employeeName.toLowerCase();
+    const row = people.get(key) ?? { name: x.employeeName, total: 0, counts: { working: 0, waiting: 0, traveling: 0, absent: 0 } };
+    row.total++;
+    row.counts[x.state]++;
+    people.set(key, row);
+  }
+
+  const working = states[0].share;
+  return {
+    observations: n,
+    rounds: new Set(samples.map((x) => x.round)).size,
+    states,
+    reasons: reasonRows,
+    byEmployee: [...people.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    confidence,
+    required: n ? Math.ceil((z * z * working * (1 - working)) / SAMPLING_ACCURACY ** 2) : null,
+  };
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ALLOWANCE_PCT, DEFAULT_SAMPLING_ROUNDS, SCHEMA_VERSION } from "./Model";
+import { MIGRATIONS, migrateState, schemaVersionOf } from "./Schema";
+
+const step = (from: number) => {
+  const m = MIGRATIONS.find((x) => x.from === from);
+  if (!m) throw new Error(`no migration from v${from}`);
+  return m.migrate;
+};
+
+describe("schemaVersionOf", () => {
+  it("treats unversioned saves as v1", () => {
+    expect(schemaVersionOf({})).toBe(1);
+    expect(schemaVersionOf({ schemaVersion: "x" })).toBe(1);
+    expect(schemaVersionOf({ schemaVersion: 5 })).toBe(5);
+  });
+});
+
+describe("MIGRATIONS", () => {
+  it("is a contiguous chain up to SCHEMA_VERSION", () => {
+    MIGRATIONS.forEach((m, i) => expect([m.from, m.to]).toEqual([i + 1, i + 2]));
+    expect(MIGRATIONS[MIGRATIONS.length - 1].to).toBe(SCHEMA_VERSION);
+  });
+
+  it("v1 → v2 turns string task notes into objects anchored to the first time event", () => {
+    const out = step(1)({
+      taskLog: ["09:00:00: Opened panel", "09:05:00: Found corrosion"],
+      timeLog: [{ at: 5000 }, { at: 2000 }],
+    });
+    expect(out.schemaVersion).toBe(2);
+    expect(out.taskLog).toEqual([
+      { id: 2000, at: 2000, text: "Opened panel" },
+      { id: 2001, at: 2001, text: "Found corrosion" },
+    ]);
+  });
+
+  it("v1 → v2 strips 12-hour stamps and keeps text without a stamp", () => {
+    expect(step(1)({ taskLog: ["9:05:00 PM: Torque check", "no stamp: here"] }).taskLog).toMatchObject([
+      { text: "Torque check" },
+      { text: "no stamp: here" },
+    ]);
+  });
+
+  it("v1 → v2 leaves object notes alone", () => {
+    const taskLog = [{ id: 1, at: 1, text: "a" }];
+    expect(step(1)({ taskLog }).taskLog).toBe(taskLog);
+  });
+
+  it("v2 → v3 drops timer accumulators and links time entries to employees by name", () => {
+    const out = step(2)({
+      employees: [{ id: 7, name: "Ann", status: "active", startTime: 1, elapsedTime: 2, pausedAccum: 3, lastPausedAt: 4, role: "Tech" }],
+      timeLog: [
+        { at: 1, event: "start", employeeName: "Ann" },
+        { at: 2, event: "start", employeeName: "Bob" },
+        { at: 3, event: "pause", employeeName: "Ann", employeeId: 9 },
+      ],
+    });
+    expect(out.schemaVersion).toBe(3);
+    expect(out.employees).toEqual([{ id: 7, name: "Ann", role: "Tech" }]);
+    expect(out.timeLog).toEqual([
+      { at: 1, event: "start", employeeName: "Ann", employeeId: 7 },
+      { at: 2, event: "start", employeeName: "Bob" },
+      { at: 3, event: "pause", employeeName: "Ann", employeeId: 9 },
+    ]);
+  });
+
+  it("v3 → v4 adds a time zone and a midnight day start", () => {
+    const out = step(3)({ info: { task: "T" } });
+    expect(out.schemaVersion).toBe(4);
+    expect(out.info).toMatchObject({ task: "T", dayStart: "00:00" });
+    expect(typeof (out.info as { timeZone: unknown }).timeZone).toBe("string");
+    expect(step(3)({ info: { timeZone: "Europe/Paris", dayStart: "06:00" } }).info).toMatchObject({ timeZone: "Europe/Paris", dayStart: "06:00" });
+  });
+
+  it("v4 → v5 adds an empty shift calendar", () => {
+    const out = step(4)({ info: {} });
+    expect(out.schemaVersion).toBe(5);
+    expect(out.info).toEqual({ shift: { start: "", end: "", breaks: [] } });
+  });
+
+  it("v5 → v6 adds an empty element list", () => {
+    const out = step(5)({ info: {} });
+    expect(out.schemaVersion).toBe(6);
+    expect(out.info).toEqual({ elements: [] });
+  });
+
+  it("v6 → v7 adds the default allowance", () => {
+    const out = step(6)({ info: {} });
+    expect(out.schemaVersion).toBe(7);
+    expect(out.info).toEqual({ allowancePct: DEFAULT_ALLOWANCE_PCT });
+    expect(step(6)({ info: { allowancePct: 10 } }).info).toEqual({ allowancePct: 10 });
+  });
+
+  it("v7 → v8 adds timing mode, an empty sampling plan and no samples", () => {
+    const out = step(7)({ info: {} });
+    expect(out.schemaVersion).toBe(8);
+    expect(out.info).toEqual({ mode: "timing", sampling: { start: "", end: "", rounds: DEFAULT_SAMPLING_ROUNDS, times: [] } });
+    expect(out.samples).toEqual([]);
+  });
+
+  it("v8 → v9 only bumps the version (Lap events need no conversion)", () => {
+    const timeLog = [{ id: 1, at: 1, event: "lap", employeeId: 1, employeeName: "Ann" }];
+    expect(step(8)({ schemaVersion: 8, timeLog })).toEqual({ schemaVersion: 9, timeLog });
+  });
+
+  it("v9 → v10 only bumps the version (clock-gap events need no conversion)", () => {
+    const timeLog = [{ id: 1, at: 1, event: "start", employeeId: 1, employeeName: "Ann" }];
+    expect(step(9)({ schemaVersion: 9, timeLog })).toEqual({ schemaVersion: 10, timeLog });
+  });
+});
+
+describe("migrateState", () => {
+  it("brings an unversioned study up to the current schema", () => {
+    const state = migrateState({
+      info: { task: "Wheel change", timeZone: "UTC" },
+      employees: [{ id: 1, name: "Ann", status: "active" }],
+      taskLog: ["10:00:00: note"],
+      timeLog: [{ id: 1, at: 1000, event: "start", employeeName: "Ann" }],
+    });
+    expect(state.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(state.info.task).toBe("Wheel change");
+    expect(state.info.allowancePct).toBe(DEFAULT_ALLOWANCE_PCT);
+    expect(state.taskLog).toEqual([{ id: 1000, at: 1000, text: "note" }]);
+    expect(state.timeLog[0].employeeId).toBe(1);
+  });
+
+  it("refuses studies saved by a newer version", () => {
+    expect(() => migrateState({ schemaVersion: SCHEMA_VERSION + 1 })).toThrow(/newer version/);
+  });
+
+  it("refuses a version with no migration step", () => {
+    const saved = MIGRATIONS.splice(0, 1);
+    try {
+      expect(() => migrateState({ schemaVersion: 1 })).toThrow(/No migration from schema v1/);
+    } finally {
+      MIGRATIONS.unshift(...saved);
+    }
+  });
+
+  it("rejects data that isn't an object", () => {
+    expect(() => migrateState(null)).toThrow();
+  });
+});
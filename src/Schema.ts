@@ -0,0 +1,328 @@
+// src/Schema.ts
+// Versioned study schema: ordered migrations from any older saved shape up to SCHEMA_VERSION,
+// followed by a final normalization that validates every field of the current shape.
+
+import {
+  DEFAULT_ALLOWANCE_PCT,
+  DEFAULT_SAMPLING_ROUNDS,
+  GAP_DECISIONS,
+  GAP_KINDS,
+  SAMPLE_STATES,
+  SCHEMA_VERSION,
+  TIME_EVENTS,
+  todayISO,
+  type AppInfo,
+  type AppState,
+  type Employee,
+  type PhotoItem,
+  type SampleObservation,
+  type SampleState,
+  type SamplingPlan,
+  type ShiftCalendar,
+  type TaskEntry,
+  type TimeEvent,
+  type TimeLogEntry,
+  type WorkElement,
+} from "./Model";
+import { deviceTimeZone, isValidTimeZone } from "./TimeZone";
+
+type RawState = Record<string, unknown>;
+
+// Narrowing helpers for untrusted saved data.
+const asObject = (v: unknown): RawState => (v && typeof v === "object" && !Array.isArray(v) ? (v as RawState) : {});
+const asList = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const optString = (v: unknown) => (typeof v === "string" ? v : undefined);
+const oneOf = <T>(options: readonly T[], v: unknown): v is T => (options as readonly unknown[]).includes(v);
+
+export interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (raw: RawState) => RawState;
+}
+
+// Time prefix of a legacy task note ("09:05:00: text", or "9:05:00 AM: text" from 12-hour locales).
+const LEGACY_NOTE_STAMP = /^\d{1,2}:\d{2}(:\d{2})?(\s*[AP]\.?M\.?)?:\s*/i;
+
+// Saves written before versioning carry no `schemaVersion` and are treated as v1.
+export function schemaVersionOf(raw: RawState): number {
+  const v = Number(raw?.schemaVersion);
+  return Number.isInteger(v) && v >= 1 ? v : 1;
+}
+
+/** Ordered list of migrations; each step takes the raw shape of `from` and returns the raw shape of `to`. */
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: "Task log entries become { id, at, text } objects",
+    migrate: (raw) => {
+      const taskLog = asList(raw.taskLog);
+      if (!taskLog.some((t: unknown) => typeof t === "string")) return { ...raw, schemaVersion: 2 };
+      // Legacy notes were "HH:MM:SS: text" strings with no date. Anchor them to the first
+      // recorded time event (or now) and keep their order 1 ms apart.
+      const firstEvent = asList(raw.timeLog)
+        .map((t) => asObject(t).at)
+        .filter((at): at is number => typeof at === "number")
+        .sort((a, b) => a - b)[0];
+      const base = firstEvent ?? Date.now();
+      return {
+        ...raw,
+        schemaVersion: 2,
+        taskLog: taskLog.map((t, i) =>
+          typeof t === "string" ? { id: base + i, at: base + i, text: t.replace(LEGACY_NOTE_STAMP, "") } : t,
+        ),
+      };
+    },
+  },
+  {
+    from: 2,
+    to: 3,
+    description: "Employee timer accumulators are dropped; times are replayed from the time log",
+    migrate: (raw) => {
+      const employees = asList(raw.employees).map(asObject);
+      const idByName = new Map<unknown, number>(employees.map((e) => [String(e.name ?? ""), Number(e.id)]));
+      return {
+        ...raw,
+        schemaVersion: 3,
+        employees: employees.map((e) => {
+          const rest = { ...e };
+          for (const key of ["status", "startTime", "elapsedTime", "pausedAccum", "lastPausedAt"]) delete rest[key];
+          return rest;
+        }),
+        // Very old entries carried no employeeId; link them by name so they count toward the employee.
+        timeLog: asList(raw.timeLog).map((t) => {
+          const entry = asObject(t);
+          return t && typeof entry.employeeId !== "number" && idByName.has(entry.employeeName)
+            ? { ...entry, employeeId: idByName.get(entry.employeeName) }
+            : t;
+        }),
+      };
+    },
+  },
+  {
+    from: 3,
+    to: 4,
+    description: "Studies get an explicit time zone and day start",
+    // Older studies were recorded and shown in the device's zone with midnight day boundaries.
+    migrate: (raw) => {
+      const info = asObject(raw.info);
+      return { ...raw, schemaVersion: 4, info: { ...info, timeZone: info.timeZone ?? deviceTimeZone(), dayStart: info.dayStart ?? "00:00" } };
+    },
+  },
+  {
+    from: 4,
+    to: 5,
+    description: "Studies get a shift calendar (hours and scheduled breaks), empty by default",
+    migrate: (raw) => {
+      const info = asObject(raw.info);
+      return { ...raw, schemaVersion: 5, info: { ...info, shift: info.shift ?? { start: "", end: "", breaks: [] } } };
+    },
+  },
+  {
+    from: 5,
+    to: 6,
+    description: "Studies get an ordered list of work elements, empty by default",
+    migrate: (raw) => {
+      const info = asObject(raw.info);
+      return { ...raw, schemaVersion: 6, info: { ...info, elements: info.elements ?? [] } };
+    },
+  },
+  {
+    from: 6,
+    to: 7,
+    description: "Studies get a PF&D allowance; ratings on employees and elements are optional (100% when unset)",
+    migrate: (raw) => {
+      const info = asObject(raw.info);
+      return { ...raw, schemaVersion: 7, info: { ...info, allowancePct: info.allowancePct ?? DEFAULT_ALLOWANCE_PCT } };
+    },
+  },
+  {
+    from: 7,
+    to: 8,
+    description: "Studies get a mode (continuous timing or work sampling), a sampling plan and sampling observations",
+    migrate: (raw) => {
+      const info = asObject(raw.info);
+      return {
+        ...raw,
+        schemaVersion: 8,
+        info: {
+          ...info,
+          mode: info.mode ?? "timing",
+          sampling: info.sampling ?? { start: "", end: "", rounds: DEFAULT_SAMPLING_ROUNDS, times: [] },
+        },
+        samples: raw.samples ?? [],
+      };
+    },
+  },
+  {
+    from: 8,
+    to: 9,
+    description: "Time log entries may be Lap events (cycle boundaries); older builds must not open these studies",
+    migrate: (raw) => ({ ...raw, schemaVersion: 9 }),
+  },
+  {
+    from: 9,
+    to: 10,
+    description: "Time log entries may be clock-gap events (gapKind, gapMs, gapDecision) that belong to no employee",
+    migrate: (raw) => ({ ...raw, schemaVersion: 10 }),
+  },
+];
+
+/**
+ * Bring any saved study up to the current schema. Throws when the study was written by a newer
+ * version of the app (so its unknown fields are never silently dropped) or a migration step is missing.
+ */
+export function migrateState(raw: unknown, fallbackObserver = ""): AppState {
+  if (!raw || typeof raw !== "object") throw new Error("Study data is empty or not an object.");
+  let state = raw as RawState;
+  let version = schemaVersionOf(state);
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`This study was saved by a newer version of the app (schema v${version}). Update the app to open it.`);
+  }
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS.find((m) => m.from === version);
+    if (!step) throw new Error(`No migration from schema v${version}.`);
+    state = step.migrate(state);
+    version = step.to;
+  }
+  return normalizeState(state, fallbackObserver);
+}
+
+const isClock = (v: unknown): v is string => typeof v === "string" && /^\d{2}:\d{2}$/.test(v);
+
+function normalizeShift(raw: unknown): ShiftCalendar {
+  const s = asObject(raw);
+  return {
+    start: isClock(s.start) ? s.start : "",
+    end: isClock(s.end) ? s.end : "",
+    breaks: asList(s.breaks)
+      .map(asObject)
+      .filter((b) => isClock(b.start) && isClock(b.end))
+      .map((b, i) => ({ id: Number(b.id ?? i), label: String(b.label ?? "Break"), start: String(b.start), end: String(b.end) })),
+  };
+}
+
+// Ratings are percentages; anything outside 1-300 (or not a number) means "not rated".
+function normalizeRating(v: unknown): number | undefined {
+  const n = typeof v === "string" && v.trim() ? Number(v) : v;
+  return typeof n === "number" && Number.isFinite(n) && n >= 1 && n <= 300 ? n : undefined;
+}
+
+function normalizeAllowance(v: unknown): number {
+  const n = typeof v === "string" && v.trim() ? Number(v) : v;
+  return typeof n === "number" && Number.isFinite(n) && n >= 0 && n <= 100 ? n : DEFAULT_ALLOWANCE_PCT;
+}
+
+function normalizeSampling(raw: unknown): SamplingPlan {
+  const s = asObject(raw);
+  const rounds = Number(s.rounds);
+  return {
+    start: isClock(s.start) ? s.start : "",
+    end: isClock(s.end) ? s.end : "",
+    rounds: Number.isInteger(rounds) && rounds >= 1 && rounds <= 500 ? rounds : DEFAULT_SAMPLING_ROUNDS,
+    times: asList(s.times)
+      .filter((t): t is number => typeof t === "number")
+      .sort((a, b) => a - b),
+  };
+}
+
+function normalizeElements(list: unknown): WorkElement[] {
+  return asList(list)
+    .map(asObject)
+    .filter((el) => typeof el.name === "string" && el.name.trim())
+    .map((el, i) => ({ id: Number(el.id ?? i + 1), name: String(el.name).trim(), rating: normalizeRating(el.rating) }));
+}
+
+// Validate the current shape field by field; anything malformed falls back to a safe default.
+function normalizeState(p: RawState, fallbackObserver: string): AppState {
+  const raw = asObject(p.info);
+  const timeZone = typeof raw.timeZone === "string" && isValidTimeZone(raw.timeZone) ? raw.timeZone : deviceTimeZone();
+  const info: AppInfo = {
+    date: typeof raw.date === "string" && raw.date ? raw.date : todayISO(timeZone),
+    endDate: optString(raw.endDate) ?? "",
+    multiDay: Boolean(raw.multiDay ?? false),
+    timeZone,
+    dayStart: typeof raw.dayStart === "string" && /^\d{2}:\d{2}$/.test(raw.dayStart) ? raw.dayStart : "00:00",
+    shift: normalizeShift(raw.shift),
+    elements: normalizeElements(raw.elements),
+    allowancePct: normalizeAllowance(raw.allowancePct),
+    mode: raw.mode === "sampling" ? "sampling" : "timing",
+    sampling: normalizeSampling(raw.sampling),
+    location: String(raw.location ?? ""),
+    procedure: String(raw.procedure ?? ""),
+    workOrder: String(raw.workOrder ?? ""),
+    task: String(raw.task ?? ""),
+    type: optString(raw.type) ?? "",
+    workType: optString(raw.workType) ?? "Inspection",
+    assetId: optString(raw.assetId) ?? "",
+    station: optString(raw.station) ?? "",
+    supervisor: optString(raw.supervisor) ?? "",
+    observer: optString(raw.observer) ?? fallbackObserver,
+    estimatedTime: optString(raw.estimatedTime) ?? "",
+    observationScope: raw.observationScope === "Partial" ? "Partial" : "Full",
+    summary: optString(raw.summary) ?? "",
+  };
+
+  const employees: Employee[] = asList(p.employees)
+    .map(asObject)
+    .map((e) => ({
+      id: Number(e.id ?? Date.now()),
+      name: String(e.name ?? "Employee"),
+      logs: asList(e.logs).map(String),
+      role: optString(e.role) ?? "",
+      skill: optString(e.skill) ?? "",
+      rating: normalizeRating(e.rating),
+    }));
+
+  const taskLog: TaskEntry[] = asList(p.taskLog)
+    .map(asObject)
+    .filter((x) => typeof x.at === "number" && typeof x.text === "string")
+    .map((x) => ({ id: Number(x.id ?? x.at), at: x.at as number, text: x.text as string }));
+
+  const timeLog: TimeLogEntry[] = asList(p.timeLog)
+    .map(asObject)
+    .filter((x) => typeof x.at === "number" && oneOf(TIME_EVENTS, x.event) && typeof x.employeeName === "string")
+    .map((x) => ({
+      id: Number(x.id ?? x.at),
+      at: x.at as number,
+      employeeId: typeof x.employeeId === "number" ? x.employeeId : null,
+      employeeName: x.employeeName as string,
+      event: x.event as TimeEvent,
+      reasonCode: optString(x.reasonCode),
+      comment: optString(x.comment),
+      elementId: typeof x.elementId === "number" ? x.elementId : undefined,
+      gapKind: oneOf(GAP_KINDS, x.gapKind) ? x.gapKind : undefined,
+      gapMs: isNumber(x.gapMs) ? x.gapMs : undefined,
+      gapDecision: oneOf(GAP_DECISIONS, x.gapDecision) ? x.gapDecision : undefined,
+    }));
+
+  const photos: PhotoItem[] = asList(p.photos)
+    .map(asObject)
+    .filter((ph) => typeof ph.dataUrl === "string")
+    .map((ph) => ({
+      id: Number(ph.id ?? Date.now()),
+      dataUrl: String(ph.dataUrl),
+      name: optString(ph.name),
+      caption: optString(ph.caption),
+      customName: optString(ph.customName),
+    }));
+
+  const samples: SampleObservation[] = asList(p.samples)
+    .map(asObject)
+    .filter((x) => typeof x.at === "number" && oneOf(SAMPLE_STATES, x.state) && typeof x.employeeName === "string")
+    .map((x) => ({
+      id: Number(x.id ?? x.at),
+      at: x.at as number,
+      round: Number.isInteger(x.round) && (x.round as number) >= 1 ? (x.round as number) : 1,
+      scheduledAt: typeof x.scheduledAt === "number" ? x.scheduledAt : undefined,
+      employeeId: typeof x.employeeId === "number" ? x.employeeId : null,
+      employeeName: x.employeeName as string,
+      state: x.state as SampleState,
+      reasonCode: optString(x.reasonCode),
+      comment: optString(x.comment),
+    }));
+
+  return { schemaVersion: SCHEMA_VERSION, info, employees, taskLog, timeLog, photos, samples };
+}
@@ -0,0 +1,64 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { acceptedOffset } from "./Clock";
+import { GAP_COLUMNS, importSheetFile, parseStamp, utcStamp, WHEN_UTC } from "./SheetImport";
+
+function workbook(timeLog: Record<string, string | number>[]) {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([{ Date: "2025-03-04", "Time Zone": "UTC", Task: "Overnight check" }]), "Summary");
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(timeLog), "Time Log");
+  return XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+}
+
+describe("parseStamp", () => {
+  it("places time-only values on the base date in the study zone", () => {
+    expect(parseStamp("23:30:00", "2025-03-04", "UTC")).toBe(Date.UTC(2025, 2, 4, 23, 30));
+    expect(parseStamp("1:05:09 PM", "2025-03-04", "UTC")).toBe(Date.UTC(2025, 2, 4, 13, 5, 9));
+  });
+});
+
+describe("importSheetFile Time Log", () => {
+  const start = Date.UTC(2025, 2, 4, 23, 30, 0, 250);
+  const stop = Date.UTC(2025, 2, 5, 0, 45, 0, 500); // after midnight of a single-day study
+
+  it("reads the exact instant from the UTC column, across midnight and to the millisecond", () => {
+    const { state, issues } = importSheetFile(
+      workbook([
+        { When: "11:30:00 PM", [WHEN_UTC]: utcStamp(start), Employee: "Ann", Event: "start" },
+        { When: "12:45:00 AM", [WHEN_UTC]: utcStamp(stop), Employee: "Ann", Event: "stop" },
+      ]),
+      "study.xlsx",
+    );
+    expect(state.timeLog.map((t) => t.at)).toEqual([start, stop]);
+    expect(issues.filter((i) => i.sheet === "Time Log")).toEqual([]);
+  });
+
+  it("falls back to When when the UTC column is missing or cleared", () => {
+    const { state } = importSheetFile(
+      workbook([
+        { When: "11:30:00 PM", [WHEN_UTC]: "", Employee: "Ann", Event: "start" },
+        { When: "3/5/2025 12:45:00 AM", [WHEN_UTC]: "", Employee: "Ann", Event: "stop" },
+      ]),
+      "study.xlsx",
+    );
+    expect(state.timeLog.map((t) => t.at)).toEqual([Date.UTC(2025, 2, 4, 23, 30), Date.UTC(2025, 2, 5, 0, 45)]);
+  });
+
+  it("keeps clock-gap details, so a kept device clock difference survives the round trip", () => {
+    const [kind, ms, decision] = GAP_COLUMNS;
+    const { state, issues } = importSheetFile(
+      workbook([
+        { When: "", [WHEN_UTC]: utcStamp(start), Employee: "Ann", Event: "start" },
+        { When: "", [WHEN_UTC]: utcStamp(start + 60_000), Employee: "Crew", Event: "gap", [kind]: "jump", [ms]: 120_000, [decision]: "kept" },
+        { When: "", [WHEN_UTC]: utcStamp(start + 90_000), Employee: "Crew", Event: "gap", [kind]: "suspend", [ms]: "", [decision]: "counted" },
+      ]),
+      "study.xlsx",
+    );
+    expect(issues.filter((i) => i.sheet === "Time Log")).toEqual([]);
+    expect(state.employees.map((e) => e.name)).toEqual(["Ann"]);
+    expect(state.timeLog[1]).toMatchObject({ event: "gap", employeeId: null, gapKind: "jump", gapMs: 120_000, gapDecision: "kept" });
+    expect(state.timeLog[2]).toMatchObject({ gapKind: "suspend", gapDecision: "counted" });
+    expect(state.timeLog[2].gapMs).toBeUndefined();
+    expect(acceptedOffset(state.timeLog)).toBe(120_000);
+  });
+});
@@ -0,0 +1,448 @@
+// src/SheetImport.ts
+// Rebuild a study from the workbook written by exportExcel (Summary / Employee Performance / Time Log)
+// (plus Work Elements and work-sampling Observations when present) or from the single-row summary CSV. Rows that don't parse are skipped and reported.
+
+import * as XLSX from "xlsx";
+import {
+  GAP_DECISIONS,
+  GAP_KINDS,
+  SAMPLE_STATES,
+  SCHEMA_VERSION,
+  TIME_EVENTS,
+  type AppInfo,
+  type AppState,
+  type Employee,
+  type GapDecision,
+  type GapKind,
+  type SampleObservation,
+  type SampleState,
+  type TaskEntry,
+  type TimeEvent,
+  type TimeLogEntry,
+  type WorkElement,
+} from "./Model";
+import { migrateState } from "./Schema";
+import { isValidTimeZone, zonedToEpoch } from "./TimeZone";
+
+export interface ImportIssue {
+  sheet: string;
+  row: number; // 1-based spreadsheet row (header is row 1); 0 for sheet-level problems
+  message: string;
+}
+
+export interface SheetImportResult {
+  state: AppState;
+  issues: ImportIssue[];
+}
+
+type Cell = string | number | boolean | Date | null | undefined;
+
+const SUMMARY_FIELDS: Record<string, keyof AppInfo> = {
+  "Date": "date",
+  "End Date": "endDate",
+  "Type": "type",
+  "Work Type": "workType",
+  "Location": "location",
+  "Procedure": "procedure",
+  "Work Order": "workOrder",
+  "Task": "task",
+  "Asset ID": "assetId",
+  "Station/Area": "station",
+  "Supervisor": "supervisor",
+  "Observer": "observer",
+  "Estimated Time": "estimatedTime",
+  "Observation Scope": "observationScope",
+  "Summary": "summary",
+  "Time Zone": "timeZone",
+  "Day Starts": "dayStart",
+  "Allowance (%)": "allowancePct",
+  "Study Mode": "mode",
+};
+
+const text = (v: Cell) => (v == null ? "" : v instanceof Date ? v.toISOString() : String(v)).trim();
+
+function isoDate(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+// Accepts yyyy-mm-dd, m/d/yyyy (d/m/yyyy when the first part can't be a month) and d.m.yyyy.
+function parseDatePart(s: string): [number, number, number] | null {
+  let m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (m) return [Number(m[1]), Number(m[2]), Number(m[3])];
+  m = s.match(/^(\d{1,2})([/.])(\d{1,2})\2(\d{2,4})$/);
+  if (!m) return null;
+  let a = Number(m[1]);
+  let b = Number(m[3]);
+  const y = Number(m[4]) < 100 ? 2000 + Number(m[4]) : Number(m[4]);
+  if (m[2] === "." || a > 12) [a, b] = [b, a]; // day-first
+  if (a < 1 || a > 12 || b < 1 || b > 31) return null;
+  return [y, a, b];
+}
+
+// Wall-clock time in the study zone (device zone when the sheet doesn't name one).
+function wallTime(year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone?: string) {
+  return timeZone
+    ? zonedToEpoch({ year, month, day, hour, minute, second }, timeZone)
+    : new Date(year, month - 1, day, hour, minute, second).getTime();
+}
+
+/**
+ * Columns the export writes next to "When" / "Scheduled" with the exact instant (ISO 8601, UTC). They
+ * are read first: "When" is a locale date (m/d vs d/m) or, in single-day studies, a time only, which
+ * puts events after midnight of an overnight study on the wrong day.
+ */
+export const WHEN_UTC = "When (UTC)";
+export const SCHEDULED_UTC = "Scheduled (UTC)";
+
+export const utcStamp = (at: number) => new Date(at).toISOString();
+
+/** Time Log columns that keep a "gap" entry's details; Clock.acceptedOffset() needs them after a round trip. */
+export const GAP_COLUMNS = ["Gap Kind", "Gap (ms)", "Gap Decision"] as const;
+
+function parseUtcStamp(v: Cell): number | null {
+  const s = text(v);
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(s)) return null;
+  const t = Date.parse(s);
+  return isNaN(t) ? null : t;
+}
+
+/**
+ * Parse a "When" value as written by fmtStamp (locale date + time, or time only) or as edited in
+ * Excel (Date cell / serial number). Time-only values are placed on `baseDate` (yyyy-mm-dd); all
+ * values are read as wall-clock time in `timeZone`.
+ */
+export function parseStamp(v: Cell, baseDate: string, timeZone?: string): number | null {
+  if (v instanceof Date) {
+    if (isNaN(v.getTime())) return null;
+    return wallTime(v.getFullYear(), v.getMonth() + 1, v.getDate(), v.getHours(), v.getMinutes(), v.getSeconds(), timeZone);
+  }
+  if (typeof v === "number") {
+    const d = XLSX.SSF.parse_date_code(v);
+    return d ? wallTime(d.y, d.m, d.d, d.H, d.M, Math.floor(d.S), timeZone) : null;
+  }
+  const s = text(v).replace(/,/g, " ").replace(/\s+/g, " ");
+  if (!s) return null;
+  const tm = s.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp]\.?[Mm]\.?)?$/);
+  if (!tm) {
+    const t = Date.parse(s);
+    return isNaN(t) ? null : t;
+  }
+  let h = Number(tm[1]);
+  const mi = Number(tm[2]);
+  const sec = Number(tm[3] ?? 0);
+  const ampm = tm[4]?.toLowerCase().replace(/\./g, "");
+  if (ampm === "pm" && h < 12) h += 12;
+  if (ampm === "am" && h === 12) h = 0;
+  if (h > 23 || mi > 59 || sec > 59) return null;
+  const datePart = s.slice(0, tm.index).trim();
+  const ymd = parseDatePart(datePart || baseDate);
+  if (!ymd) return null;
+  return wallTime(ymd[0], ymd[1], ymd[2], h, mi, sec, timeZone);
+}
+
+const isBlank = (r: Cell[]) => r.every((c) => text(c) === "");
+
+// The UTC column when it holds an instant, else the "When"-style column.
+function stampOf(r: Cell[], utcCol: number, localCol: number, baseDate: string, timeZone?: string) {
+  return (utcCol >= 0 ? parseUtcStamp(r[utcCol]) : null) ?? (localCol >= 0 ? parseStamp(r[localCol], baseDate, timeZone) : null);
+}
+
+// Blank rows are kept so reported row numbers match the spreadsheet; readers skip them.
+function rowsOf(ws: XLSX.WorkSheet): Cell[][] {
+  return XLSX.utils.sheet_to_json<Cell[]>(ws, { header: 1, raw: true, defval: "", blankrows: true });
+}
+
+function findSheet(wb: XLSX.WorkBook, name: string) {
+  const key = wb.SheetNames.find((n) => n.trim().toLowerCase() === name.toLowerCase());
+  return key ? wb.Sheets[key] : undefined;
+}
+
+function headerIndex(header: Cell[]) {
+  const idx = new Map<string, number>();
+  header.forEach((h, i) => idx.set(text(h).toLowerCase(), i));
+  return (label: string) => idx.get(label.toLowerCase()) ?? -1;
+}
+
+// Summary sheet / CSV: header row + one data row.
+function readSummary(rows: Cell[][], sheet: string, issues: ImportIssue[]) {
+  const info: Partial<AppInfo> = {};
+  let taskLog: TaskEntry[] = [];
+  let employeeNames: string[] = [];
+  if (rows.length < 2) {
+    issues.push({ sheet, row: 0, message: "Expected a header row and one data row." });
+    return { info, taskLog, employeeNames };
+  }
+  const col = headerIndex(rows[0]);
+  const row = rows[1];
+  for (const [label, field] of Object.entries(SUMMARY_FIELDS)) {
+    const i = col(label);
+    if (i < 0) continue;
+    const v = row[i];
+    (info as Record<string, unknown>)[field] = v instanceof Date ? isoDate(v) : text(v);
+  }
+  if (info.timeZone && !isValidTimeZone(info.timeZone)) {
+    issues.push({ sheet, row: 2, message: `Unknown time zone "${info.timeZone}"; using this device's zone.` });
+    delete info.timeZone;
+  }
+  if (info.date && !parseDatePart(info.date)) {
+    issues.push({ sheet, row: 2, message: `Unrecognized date "${info.date}".` });
+    delete info.date;
+  } else if (info.date) {
+    const [y, m, d] = parseDatePart(info.date)!;
+    info.date = isoDate(new Date(y, m - 1, d));
+  }
+  if (info.endDate) {
+    const ymd = parseDatePart(info.endDate);
+    info.endDate = ymd ? isoDate(new Date(ymd[0], ymd[1] - 1, ymd[2])) : "";
+    info.multiDay = Boolean(ymd);
+  }
+
+  const empCol = col("Employees");
+  if (empCol >= 0) employeeNames = text(row[empCol]).split(";").map((n) => n.trim()).filter(Boolean);
+
+  const logCol = col("Task Log");
+  if (logCol >= 0 && text(row[logCol])) {
+    text(row[logCol])
+      .split(" | ")
+      .forEach((part, i) => {
+        const sep = part.indexOf(": ");
+        const at = sep > 0 ? parseStamp(part.slice(0, sep), info.date || "", info.timeZone) : null;
+        if (at == null) {
+          issues.push({ sheet, row: 2, message: `Task Log note ${i + 1} has no readable timestamp; skipped.` });
+          return;
+        }
+        taskLog.push({ id: at + i, at, text: part.slice(sep + 2) });
+      });
+  }
+  taskLog = taskLog.sort((a, b) => a.at - b.at);
+  return { info, taskLog, employeeNames };
+}
+
+function readEmployees(rows: Cell[][], sheet: string, issues: ImportIssue[]) {
+  const out: { name: string; role: string; skill: string; rating?: number }[] = [];
+  if (!rows.length) return out;
+  const col = headerIndex(rows[0]);
+  const nameCol = col("Employee Name");
+  if (nameCol < 0) {
+    issues.push({ sheet, row: 1, message: 'Missing "Employee Name" column.' });
+    return out;
+  }
+  rows.slice(1).forEach((r, i) => {
+    if (isBlank(r)) return;
+    const name = text(r[nameCol]);
+    if (!name) {
+      issues.push({ sheet, row: i + 2, message: "Employee name is empty; row skipped." });
+      return;
+    }
+    out.push({
+      name,
+      role: col("Role") >= 0 ? text(r[col("Role")]) : "",
+      skill: col("Skill") >= 0 ? text(r[col("Skill")]) : "",
+      rating: ratingOf(r, col("Rating (%)")),
+    });
+  });
+  return out;
+}
+
+// Time log rows before employees and elements are resolved to ids.
+type RawEvent = Omit<TimeLogEntry, "id" | "employeeId" | "elementId"> & { elementName?: string };
+
+// Blank or unreadable ratings are left unset (Schema normalization drops out-of-range values).
+function ratingOf(r: Cell[], i: number) {
+  const v = i >= 0 ? text(r[i]) : "";
+  return v && Number.isFinite(Number(v)) ? Number(v) : undefined;
+}
+
+function readElements(rows: Cell[][], sheet: string, issues: ImportIssue[]) {
+  const out: { step: number; name: string; rating?: number }[] = [];
+  if (!rows.length) return [];
+  const col = headerIndex(rows[0]);
+  const nameCol = col("Element");
+  if (nameCol < 0) {
+    issues.push({ sheet, row: 1, message: 'Missing "Element" column.' });
+    return [];
+  }
+  rows.slice(1).forEach((r, i) => {
+    if (isBlank(r)) return;
+    const name = text(r[nameCol]);
+    if (!name) return issues.push({ sheet, row: i + 2, message: "Element name is empty; row skipped." });
+    const step = Number(text(r[col("Step")]));
+    out.push({ step: Number.isFinite(step) && step > 0 ? step : out.length + 1, name, rating: ratingOf(r, col("Rating (%)")) });
+  });
+  return out.sort((a, b) => a.step - b.step).map(({ name, rating }) => ({ name, rating }));
+}
+
+// Unknown kinds/decisions and unreadable lengths are left unset, like an entry without them.
+function readGap(r: Cell[], col: (name: string) => number): Pick<TimeLogEntry, "gapKind" | "gapMs" | "gapDecision"> {
+  const [kindCol, msCol, decisionCol] = GAP_COLUMNS.map(col);
+  const kind = kindCol >= 0 ? text(r[kindCol]).toLowerCase() : "";
+  const ms = msCol >= 0 && text(r[msCol]) ? Number(text(r[msCol])) : NaN;
+  const decision = decisionCol >= 0 ? text(r[decisionCol]).toLowerCase() : "";
+  return {
+    gapKind: GAP_KINDS.includes(kind as GapKind) ? (kind as GapKind) : undefined,
+    gapMs: Number.isFinite(ms) ? Math.round(ms) : undefined,
+    gapDecision: GAP_DECISIONS.includes(decision as GapDecision) ? (decision as GapDecision) : undefined,
+  };
+}
+
+function readTimeLog(rows: Cell[][], sheet: string, baseDate: string, timeZone: string | undefined, issues: ImportIssue[]) {
+  const out: RawEvent[] = [];
+  if (!rows.length) return out;
+  const col = headerIndex(rows[0]);
+  const [whenCol, empCol, evCol] = [col("When"), col("Employee"), col("Event")];
+  if (whenCol < 0 || empCol < 0 || evCol < 0) {
+    issues.push({ sheet, row: 1, message: 'Expected "When", "Employee" and "Event" columns.' });
+    return out;
+  }
+  rows.slice(1).forEach((r, i) => {
+    if (isBlank(r)) return;
+    const rowNo = i + 2;
+    const at = stampOf(r, col(WHEN_UTC), whenCol, baseDate, timeZone);
+    const employeeName = text(r[empCol]);
+    const event = text(r[evCol]).toLowerCase() as TimeEvent;
+    if (at == null) return issues.push({ sheet, row: rowNo, message: `Unreadable time "${text(r[whenCol])}".` });
+    if (!employeeName) return issues.push({ sheet, row: rowNo, message: "Employee is empty." });
+    if (!TIME_EVENTS.includes(event)) return issues.push({ sheet, row: rowNo, message: `Unknown event "${text(r[evCol])}".` });
+    const reasonCode = col("Reason") >= 0 ? text(r[col("Reason")]) : "";
+    const comment = col("Comment") >= 0 ? text(r[col("Comment")]) : "";
+    const elementName = event === "element" && col("Element") >= 0 ? text(r[col("Element")]) : "";
+    const gap = event === "gap" ? readGap(r, col) : {};
+    out.push({ at, employeeName, event, reasonCode: reasonCode || undefined, comment: comment || undefined, elementName: elementName || undefined, ...gap });
+  });
+  return out.sort((a, b) => a.at - b.at);
+}
+
+// Work-sampling observations before employees are resolved to ids.
+type RawSample = Omit<SampleObservation, "id" | "employeeId">;
+
+function readObservations(rows: Cell[][], sheet: string, baseDate: string, timeZone: string | undefined, issues: ImportIssue[]) {
+  const out: RawSample[] = [];
+  if (!rows.length) return out;
+  const col = headerIndex(rows[0]);
+  const [roundCol, whenCol, empCol, stateCol] = [col("Round"), col("When"), col("Employee"), col("State")];
+  if (whenCol < 0 || empCol < 0 || stateCol < 0) {
+    issues.push({ sheet, row: 1, message: 'Expected "When", "Employee" and "State" columns.' });
+    return out;
+  }
+  rows.slice(1).forEach((r, i) => {
+    if (isBlank(r)) return;
+    const rowNo = i + 2;
+    const at = stampOf(r, col(WHEN_UTC), whenCol, baseDate, timeZone);
+    const employeeName = text(r[empCol]);
+    const state = text(r[stateCol]).toLowerCase() as SampleState;
+    if (at == null) return issues.push({ sheet, row: rowNo, message: `Unreadable time "${text(r[whenCol])}".` });
+    if (!employeeName) return issues.push({ sheet, row: rowNo, message: "Employee is empty." });
+    if (!SAMPLE_STATES.includes(state)) return issues.push({ sheet, row: rowNo, message: `Unknown state "${text(r[stateCol])}".` });
+    const round = Number(text(r[roundCol]));
+    const scheduledAt = stampOf(r, col(SCHEDULED_UTC), col("Scheduled"), baseDate, timeZone);
+    const reasonCode = col("Reason") >= 0 ? text(r[col("Reason")]) : "";
+    const comment = col("Comment") >= 0 ? text(r[col("Comment")]) : "";
+    out.push({
+      at,
+      round: Number.isInteger(round) && round >= 1 ? round : 1,
+      scheduledAt: scheduledAt ?? undefined,
+      employeeName,
+      state,
+      reasonCode: reasonCode || undefined,
+      comment: comment || undefined,
+    });
+  });
+  return out.sort((a, b) => a.at - b.at);
+}
+
+/** Import an .xlsx/.xls workbook or .csv summary. Throws when nothing recognizable is found. */
+export function importSheetFile(data: ArrayBuffer, fileName: string, fallbackObserver = ""): SheetImportResult {
+  const isCSV = /\.csv$/i.test(fileName);
+  const wb = isCSV
+    ? XLSX.read(new TextDecoder().decode(data), { type: "string", raw: true })
+    : XLSX.read(data, { type: "array", cellDates: true });
+  const issues: ImportIssue[] = [];
+
+  const summarySheet = isCSV ? wb.Sheets[wb.SheetNames[0]] : findSheet(wb, "Summary");
+  const summaryName = isCSV ? fileName : "Summary";
+  if (!summarySheet) throw new Error('No "Summary" sheet found. Use a workbook exported with Export → Excel (Full).');
+  const summary = readSummary(rowsOf(summarySheet), summaryName, issues);
+  if (!Object.keys(summary.info).length) throw new Error("The summary row has none of the expected columns.");
+  const baseDate = summary.info.date || "";
+
+  let people: { name: string; role: string; skill: string; rating?: number }[] = [];
+  let events: RawEvent[] = [];
+  let elementRows: { name: string; rating?: number }[] = [];
+  let observations: RawSample[] = [];
+  if (isCSV) {
+    people = summary.employeeNames.map((name) => ({ name, role: "", skill: "" }));
+    if (people.length) issues.push({ sheet: summaryName, row: 0, message: "The summary CSV has no time events; employees were added without times." });
+  } else {
+    const perf = findSheet(wb, "Employee Performance");
+    if (perf) people = readEmployees(rowsOf(perf), "Employee Performance", issues);
+    else issues.push({ sheet: "Employee Performance", row: 0, message: "Sheet not found; employees taken from the time log." });
+    const log = findSheet(wb, "Time Log");
+    if (log) events = readTimeLog(rowsOf(log), "Time Log", baseDate, summary.info.timeZone, issues);
+    else issues.push({ sheet: "Time Log", row: 0, message: "Sheet not found; no time events imported." });
+    const steps = findSheet(wb, "Work Elements");
+    if (steps) elementRows = readElements(rowsOf(steps), "Work Elements", issues);
+    const obs = findSheet(wb, "Observations");
+    if (obs) observations = readObservations(rowsOf(obs), "Observations", baseDate, summary.info.timeZone, issues);
+  }
+
+  // Work elements: sheet order first, then names that only appear on element events.
+  const elements: WorkElement[] = [];
+  const elementId = (name: string, rating?: number) => {
+    const found = elements.find((el) => el.name.toLowerCase() === name.toLowerCase());
+    if (found) return found.id;
+    elements.push({ id: elements.length + 1, name, rating });
+    return elements.length;
+  };
+  elementRows.forEach((el) => elementId(el.name, el.rating));
+
+  // Employees: performance sheet first, then any extra names that only appear in the time log.
+  const base = Date.now();
+  const byName = new Map<string, Employee>();
+  const addEmployee = (name: string, role = "", skill = "", rating?: number) => {
+    const key = name.toLowerCase();
+    if (byName.has(key)) return;
+    byName.set(key, {
+      id: base + byName.size,
+      name,
+      logs: [],
+      role,
+      skill,
+      rating,
+    });
+  };
+  people.forEach((p) => addEmployee(p.name, p.role, p.skill, p.rating));
+  events.forEach((e) => e.event !== "gap" && addEmployee(e.employeeName)); // clock gaps belong to the whole crew
+  observations.forEach((x) => addEmployee(x.employeeName));
+
+  const usedIds = new Set<number>();
+  const timeLog: TimeLogEntry[] = events.map((e) => {
+    let id = e.at;
+    while (usedIds.has(id)) id++;
+    usedIds.add(id);
+    const { elementName, ...entry } = e;
+    return {
+      ...entry,
+      id,
+      employeeId: e.event === "gap" ? null : byName.get(e.employeeName.toLowerCase())!.id,
+      elementId: elementName ? elementId(elementName) : undefined,
+    };
+  });
+
+  // An employee whose last event is "deleted" had been removed from the study.
+  const employees = [...byName.values()].filter((emp) => {
+    const last = timeLog.filter((t) => t.employeeId === emp.id).pop();
+    return last?.event !== "deleted";
+  });
+
+  const samples: SampleObservation[] = observations.map((x, i) => ({
+    ...x,
+    id: x.at + i,
+    employeeId: byName.get(x.employeeName.toLowerCase())!.id,
+  }));
+
+  const state = migrateState(
+    { schemaVersion: SCHEMA_VERSION, info: { ...summary.info, elements }, employees, taskLog: summary.taskLog, timeLog, photos: [], samples },
+    fallbackObserver,
+  );
+  return { state, issues };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { ShiftCalendar } from "./Model";
+import { hasCalendar, plannedWindows, splitByWindows } from "./Shift";
+
+const H = 3_600_000;
+const utc = (day: number, hour: number, minute = 0) => Date.UTC(2025, 2, day, hour, minute);
+const night: ShiftCalendar = {
+  start: "22:00",
+  end: "06:00",
+  breaks: [
+    { id: 1, label: "Lunch", start: "02:00", end: "02:30" },
+    { id: 2, label: "Break", start: "23:45", end: "00:15" },
+  ],
+};
+
+describe("plannedWindows", () => {
+  it("is empty without a calendar", () => {
+    const none = { start: "", end: "", breaks: [] };
+    expect(hasCalendar(none)).toBe(false);
+    expect(plannedWindows(utc(4, 8), utc(4, 16), none, "UTC")).toEqual([]);
+  });
+
+  it("covers an overnight shift: off-shift hours on both sides and breaks across midnight", () => {
+    expect(plannedWindows(utc(4, 20), utc(5, 8), night, "UTC")).toEqual([
+      [utc(4, 20), utc(4, 22)],
+      [utc(4, 23, 45), utc(5, 0, 15)],
+      [utc(5, 2), utc(5, 2, 30)],
+      [utc(5, 6), utc(5, 8)],
+    ]);
+  });
+
+  it("finds a break that began the day before the range", () => {
+    expect(plannedWindows(utc(5, 0), utc(5, 1), night, "UTC")).toEqual([[utc(5, 0), utc(5, 0, 15)]]);
+  });
+
+  it("follows the study's time zone", () => {
+    const day = { start: "08:00", end: "16:00", breaks: [] };
+    // 08:00-16:00 in New York (EST) is 13:00-21:00 UTC.
+    expect(plannedWindows(utc(4, 12), utc(4, 22), day, "America/New_York")).toEqual([
+      [utc(4, 12), utc(4, 13)],
+      [utc(4, 21), utc(4, 22)],
+    ]);
+  });
+});
+
+describe("splitByWindows", () => {
+  it("marks the pieces inside planned windows", () => {
+    const windows: [number, number][] = [[2 * H, 3 * H], [5 * H, 6 * H]];
+    expect(splitByWindows(H, 5.5 * H, windows)).toEqual([
+      { from: H, to: 2 * H, planned: false },
+      { from: 2 * H, to: 3 * H, planned: true },
+      { from: 3 * H, to: 5 * H, planned: false },
+      { from: 5 * H, to: 5.5 * H, planned: true },
+    ]);
+    expect(splitByWindows(3 * H, 4 * H, windows)).toEqual([{ from: 3 * H, to: 4 * H, planned: false }]);
+  });
+});
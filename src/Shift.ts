@@ -0,0 +1,88 @@
+// src/Shift.ts
+// Per-study shift calendar: working hours plus scheduled breaks/lunches. Time outside the shift
+// or inside a scheduled break is planned downtime, so pauses there don't count as unplanned idle.
+
+import type { ShiftCalendar } from "./Model";
+import { parseDayStart, zonedParts, zonedToEpoch } from "./TimeZone";
+
+export function hasCalendar(shift: ShiftCalendar | undefined) {
+  return !!shift && (!!(shift.start && shift.end) || shift.breaks.length > 0);
+}
+
+type Span = [number, number];
+
+function merge(spans: Span[]): Span[] {
+  const out: Span[] = [];
+  for (const s of [...spans].sort((a, b) => a[0] - b[0])) {
+    const last = out[out.length - 1];
+    if (last && s[0] <= last[1]) last[1] = Math.max(last[1], s[1]);
+    else out.push([s[0], s[1]]);
+  }
+  return out;
+}
+
+// "HH:MM" on a calendar date in `tz`; an end at or before its start rolls into the next day.
+function clockSpan(date: { year: number; month: number; day: number }, start: string, end: string, tz: string): Span {
+  const at = (min: number, plusDays: number) => {
+    const d = new Date(Date.UTC(date.year, date.month - 1, date.day + plusDays));
+    return zonedToEpoch(
+      { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), hour: Math.floor(min / 60), minute: min % 60, second: 0 },
+      tz,
+    );
+  };
+  const s = parseDayStart(start);
+  const e = parseDayStart(end);
+  return [at(s, 0), at(e, e <= s ? 1 : 0)];
+}
+
+/**
+ * Planned-downtime windows overlapping [from, to): scheduled breaks, plus everything outside the
+ * shift when shift hours are set. Returned sorted and merged.
+ */
+export function plannedWindows(from: number, to: number, shift: ShiftCalendar | undefined, tz: string): Span[] {
+  if (!shift || !hasCalendar(shift) || to <= from) return [];
+  const first = zonedParts(from, tz);
+  const days: { year: number; month: number; day: number }[] = [];
+  // One day either side covers overnight shifts and breaks that started the day before.
+  for (let i = -1; ; i++) {
+    const d = new Date(Date.UTC(first.year, first.month - 1, first.day + i));
+    const date = { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+    days.push(date);
+    if (zonedToEpoch({ ...date, hour: 0, minute: 0, second: 0 }, tz) > to) break;
+  }
+
+  const windows: Span[] = [];
+  for (const date of days) {
+    for (const b of shift.breaks) {
+      if (b.start && b.end) windows.push(clockSpan(date, b.start, b.end, tz));
+    }
+  }
+  if (shift.start && shift.end) {
+    const onShift = merge(days.map((date) => clockSpan(date, shift.start, shift.end, tz)));
+    let cursor = from;
+    for (const [s, e] of onShift) {
+      if (s > cursor) windows.push([cursor, Math.min(s, to)]);
+      cursor = Math.max(cursor, e);
+      if (cursor >= to) break;
+    }
+    if (cursor < to) windows.push([cursor, to]);
+  }
+  return merge(windows)
+    .map(([s, e]): Span => [Math.max(s, from), Math.min(e, to)])
+    .filter(([s, e]) => e > s);
+}
+
+/** Split [a, b) at window edges; each piece says whether it falls inside a planned window. */
+export function splitByWindows(a: number, b: number, windows: Span[]): { from: number; to: number; planned: boolean }[] {
+  const out: { from: number; to: number; planned: boolean }[] = [];
+  let cursor = a;
+  for (const [s, e] of windows) {
+    if (e <= cursor) continue;
+    if (s >= b) break;
+    if (s > cursor) out.push({ from: cursor, to: s, planned: false });
+    out.push({ from: Math.max(s, cursor), to: Math.min(e, b), planned: true });
+    cursor = Math.min(e, b);
+  }
+  if (cursor < b) out.push({ from: cursor, to: b, planned: false });
+  return out;
+}
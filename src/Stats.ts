@@ -0,0 +1,40 @@
+// src/Stats.ts
+// Descriptive statistics for repeated observations (cycle times). Outliers use Tukey's fences:
+// values more than 1.5 × IQR below the first quartile or above the third.
+
+export interface SampleStats {
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  sd: number;            // sample standard deviation (n − 1)
+  low: number;           // lower outlier fence
+  high: number;          // upper outlier fence
+  outliers: number[];    // indexes into the input
+}
+
+export const EMPTY_STATS: SampleStats = { count: 0, mean: 0, min: 0, max: 0, sd: 0, low: 0, high: 0, outliers: [] };
+
+/** Linear-interpolated quantile of an ascending list, q in 0-1. */
+export function quantile(sorted: number[], q: number) {
+  if (!sorted.length) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export function describe(values: number[]): SampleStats {
+  const n = values.length;
+  if (!n) return EMPTY_STATS;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const sd = n > 1 ? Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1)) : 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  // Fences need a few points to mean anything; with fewer than 4 nothing is flagged.
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const low = n >= 4 ? q1 - 1.5 * (q3 - q1) : sorted[0];
+  const high = n >= 4 ? q3 + 1.5 * (q3 - q1) : sorted[n - 1];
+  const outliers = values.flatMap((v, i) => (v < low || v > high ? [i] : []));
+  return { count: n, mean, min: sorted[0], max: sorted[n - 1], sd, low, high, outliers };
+}
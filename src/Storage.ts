@@ -0,0 +1,409 @@
+// src/Storage.ts
+// Study library persisted in IndexedDB: study headers, study records and photo Blobs in separate stores.
+
+import { identityName } from "./Auth";
+import { blankState, todayISO, type AppInfo, type AppState, type PhotoItem } from "./Model";
+import { migrateState } from "./Schema";
+
+// Legacy localStorage keys, migrated into IndexedDB on first load.
+const STORAGE_KEY = "work-measurement:v1";
+const INDEX_KEY = "work-measurement:studies";
+const STUDY_KEY_PREFIX = "work-measurement:study:";
+
+const ACTIVE_STUDY_KEY = "work-measurement:active-study";
+
+export const LAST_OBSERVER_KEY = "work-measurement:last-observer";
+
+/** Headline numbers captured at save time so the library can list studies without loading them. */
+export interface StudyKPIs {
+  actualMs: number;
+  touchMs: number;
+  idleMs: number;
+  utilization: number;
+  crewHours: number;
+  idleRatio: number;
+  employees: number;
+}
+
+/** Last exchange with the sync server (see Sync.ts). */
+export interface StudySync {
+  rev: number;      // server revision this copy is based on
+  hash: string;     // content hash at that point; a different StudyMeta.hash means local edits
+  syncedAt: number;
+}
+
+export interface StudyMeta {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  archived: boolean;
+  info: AppInfo;
+  kpis: StudyKPIs;
+  hash?: string; // of the study's content (not its KPIs or photo files), to notice edits
+  sync?: StudySync;
+}
+
+const EMPTY_KPIS: StudyKPIs = {
+  actualMs: 0,
+  touchMs: 0,
+  idleMs: 0,
+  utilization: 0,
+  crewHours: 0,
+  idleRatio: 0,
+  employees: 0,
+};
+
+// Observer name for new studies: the signed-in user, else the name last typed on this device.
+export function lastObserver() {
+  if (identityName()) return identityName();
+  try {
+    return localStorage.getItem(LAST_OBSERVER_KEY) || "";
+  } catch {
+    return "";
+  }
+}
+
+function newStudyId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Key-order independent FNV-1a hash of the study content, so re-saving an unchanged study (e.g. on
+// opening it) keeps the same hash.
+function stable(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stable).join(",")}]`;
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    return `{${Object.keys(obj)
+      .filter((k) => obj[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stable(obj[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function contentHash(state: StoredState) {
+  const text = stable({ ...state, schemaVersion: undefined });
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+// The saved form of a study: photo files live in their own store.
+function toStored(state: AppState): StoredState {
+  return { ...state, photos: state.photos.map(({ id, name, caption, customName }) => ({ id, name, caption, customName })) };
+}
+
+/** Content hash of a study as saveStudy() would record it in StudyMeta.hash. */
+export const studyHash = (state: AppState) => contentHash(toStored(state));
+
+// Migrate an untrusted parsed blob to the current schema; null when it cannot be read at all.
+function readState(raw: unknown): AppState | null {
+  try {
+    return migrateState(raw, lastObserver());
+  } catch (err) {
+    console.warn("Skipping unreadable study", err);
+    return null;
+  }
+}
+
+/* ---------- IndexedDB ---------- */
+const DB_NAME = "work-measurement";
+const DB_VERSION = 1;
+const META_STORE = "studies";  // StudyMeta, keyed by id
+const STATE_STORE = "states";  // { id, state } with photo metadata only
+const PHOTO_STORE = "photos";  // { studyId, id, blob }, keyed by [studyId, id]
+
+interface StoredPhoto {
+  studyId: string;
+  id: number;
+  blob: Blob;
+}
+
+type PhotoMeta = Omit<PhotoItem, "dataUrl">;
+type StoredState = Omit<AppState, "photos"> & { photos: PhotoMeta[] };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        const db = open.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(STATE_STORE)) db.createObjectStore(STATE_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(PHOTO_STORE)) {
+          const photos = db.createObjectStore(PHOTO_STORE, { keyPath: ["studyId", "id"] });
+          photos.createIndex("studyId", "studyId");
+        }
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+      open.onblocked = () => reject(new Error("Storage is blocked by another open tab"));
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function req<T>(r: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+// Writes are chained so an older save can never land after a newer one.
+let writeQueue: Promise<unknown> = Promise.resolve();
+function enqueue<T>(fn: () => Promise<T>): Promise<T> {
+  const next = writeQueue.then(fn, fn);
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const res = await fetch(dataUrl);
+  return res.blob();
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const fr = new FileReader();
+    fr.onload = () => resolve(String(fr.result));
+    fr.onerror = () => reject(fr.error);
+    fr.readAsDataURL(blob);
+  });
+}
+
+/** Human-readable reason for a failed save, surfaced in the app banner. */
+export function describeSaveError(err: unknown): string {
+  const name = err instanceof DOMException || err instanceof Error ? err.name : "";
+  if (name === "QuotaExceededError") return "Device storage is full. Remove photos or delete old studies, then try again.";
+  const msg = err instanceof Error ? err.message : String(err ?? "");
+  return msg || "Unknown storage error.";
+}
+
+/* ---------- Studies ---------- */
+export async function listStudies(): Promise<StudyMeta[]> {
+  const db = await openDB();
+  const tx = db.transaction(META_STORE, "readonly");
+  return req(tx.objectStore(META_STORE).getAll() as IDBRequest<StudyMeta[]>);
+}
+
+// Resolves null for an unknown id; rejects when the stored study cannot be migrated.
+export async function loadStudy(id: string): Promise<AppState | null> {
+  const db = await openDB();
+  const tx = db.transaction([STATE_STORE, PHOTO_STORE], "readonly");
+  const rec = await req(tx.objectStore(STATE_STORE).get(id) as IDBRequest<{ id: string; state: StoredState } | undefined>);
+  if (!rec) return null;
+  const stored = await req(tx.objectStore(PHOTO_STORE).index("studyId").getAll(id) as IDBRequest<StoredPhoto[]>);
+  const urls = new Map<number, string>();
+  for (const ph of stored) urls.set(ph.id, await blobToDataUrl(ph.blob));
+  const photos = (rec.state.photos || [])
+    .filter((ph) => urls.has(ph.id))
+    .map((ph) => ({ ...ph, dataUrl: urls.get(ph.id) }));
+  return migrateState({ ...rec.state, photos }, lastObserver());
+}
+
+// Saves the study record and only the photos that were added/removed since the last save. `remote`:
+// the study was just pulled from the sync server, so the saved copy matches that revision.
+export function saveStudy(
+  id: string,
+  state: AppState,
+  kpis: StudyKPIs,
+  remote?: { rev: number; createdAt: number; archived: boolean },
+): Promise<void> {
+  return enqueue(async () => {
+    const db = await openDB();
+    const existing = await req(
+      db.transaction(PHOTO_STORE, "readonly").objectStore(PHOTO_STORE).index("studyId").getAllKeys(id),
+    );
+    const have = new Set(existing.map((k) => (k as [string, number])[1]));
+    const want = new Set(state.photos.map((ph) => ph.id));
+    const added: StoredPhoto[] = [];
+    for (const ph of state.photos) {
+      if (!have.has(ph.id)) added.push({ studyId: id, id: ph.id, blob: await dataUrlToBlob(ph.dataUrl) });
+    }
+
+    const tx = db.transaction([META_STORE, STATE_STORE, PHOTO_STORE], "readwrite");
+    const stored = toStored(state);
+    tx.objectStore(STATE_STORE).put({ id, state: stored });
+    const photoStore = tx.objectStore(PHOTO_STORE);
+    added.forEach((ph) => photoStore.put(ph));
+    have.forEach((photoId) => {
+      if (!want.has(photoId)) photoStore.delete([id, photoId]);
+    });
+    const metaStore = tx.objectStore(META_STORE);
+    const prev = await req(metaStore.get(id) as IDBRequest<StudyMeta | undefined>);
+    const now = Date.now();
+    const hash = contentHash(stored);
+    metaStore.put({
+      id,
+      createdAt: remote?.createdAt ?? prev?.createdAt ?? now,
+      updatedAt: now,
+      archived: remote?.archived ?? prev?.archived ?? false,
+      info: state.info,
+      kpis,
+      hash,
+      sync: remote ? { rev: remote.rev, hash, syncedAt: now } : prev?.sync,
+    } satisfies StudyMeta);
+    await done(tx);
+  });
+}
+
+export async function createStudy(state: AppState): Promise<string> {
+  const id = newStudyId();
+  await saveStudy(id, state, { ...EMPTY_KPIS, employees: state.employees.length });
+  return id;
+}
+
+// Copies the header and crew of a study into a fresh study (no recorded times, notes or photos).
+export async function duplicateStudy(id: string, observer: string): Promise<string | null> {
+  const src = await loadStudy(id);
+  if (!src) return null;
+  const next = blankState(observer);
+  next.info = { ...src.info, date: todayISO(src.info.timeZone), endDate: "", summary: "", observer: observer || src.info.observer };
+  next.employees = src.employees.map((e) => ({ ...e, logs: [] }));
+  return createStudy(next);
+}
+
+export function setStudyArchived(id: string, archived: boolean): Promise<void> {
+  return enqueue(async () => {
+    const db = await openDB();
+    const tx = db.transaction(META_STORE, "readwrite");
+    const store = tx.objectStore(META_STORE);
+    const meta = await req(store.get(id) as IDBRequest<StudyMeta | undefined>);
+    if (meta) store.put({ ...meta, archived });
+    await done(tx);
+  });
+}
+
+/** Record a push: the study with content `hash` is now revision `rev` on the server. */
+export function setStudySync(id: string, rev: number, hash: string): Promise<void> {
+  return enqueue(async () => {
+    const db = await openDB();
+    const tx = db.transaction(META_STORE, "readwrite");
+    const store = tx.objectStore(META_STORE);
+    const meta = await req(store.get(id) as IDBRequest<StudyMeta | undefined>);
+    if (meta) store.put({ ...meta, sync: { rev, hash, syncedAt: Date.now() } });
+    await done(tx);
+  });
+}
+
+export function deleteStudy(id: string): Promise<void> {
+  return enqueue(async () => {
+    const db = await openDB();
+    const tx = db.transaction([META_STORE, STATE_STORE, PHOTO_STORE], "readwrite");
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(STATE_STORE).delete(id);
+    const photoStore = tx.objectStore(PHOTO_STORE);
+    const keys = await req(photoStore.index("studyId").getAllKeys(id));
+    keys.forEach((k) => photoStore.delete(k));
+    await done(tx);
+    if (getActiveStudyId() === id) {
+      try {
+        localStorage.removeItem(ACTIVE_STUDY_KEY);
+      } catch {
+        // ignore
+      }
+    }
+  });
+}
+
+export function getActiveStudyId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_STUDY_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setActiveStudyId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_STUDY_KEY, id);
+  } catch {
+    // ignore
+  }
+}
+
+/* ---------- localStorage migration ---------- */
+function readJSON(key: string) {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Copies the localStorage library (and the older single `work-measurement:v1` slot) into IndexedDB,
+// then frees the localStorage space. Keys are only removed once their study has been written.
+async function migrateLocalStorage() {
+  const index = readJSON(INDEX_KEY);
+  const metas: StudyMeta[] = Array.isArray(index) ? index : [];
+  for (const meta of metas) {
+    const state = readState(readJSON(STUDY_KEY_PREFIX + meta.id));
+    if (state) {
+      await saveStudy(meta.id, state, meta.kpis ?? { ...EMPTY_KPIS, employees: state.employees.length });
+      if (meta.archived) await setStudyArchived(meta.id, true);
+    }
+    localStorage.removeItem(STUDY_KEY_PREFIX + meta.id);
+  }
+  if (index) localStorage.removeItem(INDEX_KEY);
+
+  const legacy = readState(readJSON(STORAGE_KEY));
+  if (legacy) {
+    const id = await createStudy(legacy);
+    setActiveStudyId(id);
+  }
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export interface InitialStudy {
+  id: string;
+  state: AppState;
+  error?: string; // set when storage could not be opened; the study then lives in memory only
+}
+
+// Resolve the study to show on launch: the last active one, else the most recent, else a new blank one.
+export async function openInitialStudy(): Promise<InitialStudy> {
+  try {
+    await migrateLocalStorage();
+    const list = await listStudies();
+    const candidates = [getActiveStudyId(), ...[...list].sort((a, b) => b.updatedAt - a.updatedAt).map((m) => m.id)];
+    for (const id of candidates) {
+      if (!id) continue;
+      const state = await loadStudy(id).catch((err) => {
+        console.warn("Skipping unreadable study", id, err);
+        return null;
+      });
+      if (state) {
+        setActiveStudyId(id);
+        return { id, state };
+      }
+    }
+    const state = blankState(lastObserver());
+    const id = await createStudy(state);
+    setActiveStudyId(id);
+    return { id, state };
+  } catch (err) {
+    console.error("Could not open study storage", err);
+    return { id: newStudyId(), state: blankState(lastObserver()), error: describeSaveError(err) };
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { blankState } from "./Model";
+import type { StudyMeta } from "./Storage";
+import { compareStudies, syncStatus, type RemoteStudy } from "./Sync";
+
+const info = blankState("").info;
+const kpis = { actualMs: 0, touchMs: 0, idleMs: 0, utilization: 0, crewHours: 0, idleRatio: 0, employees: 0 };
+
+const local = (id: string, hash: string, sync: StudyMeta["sync"], updatedAt = 0): StudyMeta => ({
+  id,
+  createdAt: 0,
+  updatedAt,
+  archived: false,
+  info,
+  kpis,
+  hash,
+  sync,
+});
+const remote = (id: string, rev: number, updatedAt = 0): RemoteStudy => ({ id, rev, createdAt: 0, updatedAt, archived: false, info, kpis });
+const synced = (rev: number, hash: string) => ({ rev, hash, syncedAt: 0 });
+
+describe("syncStatus", () => {
+  it("tells which side changed since the last exchange", () => {
+    expect(syncStatus(local("a", "h1", synced(2, "h1")), remote("a", 2))).toBe("synced");
+    expect(syncStatus(local("a", "h2", synced(2, "h1")), remote("a", 2))).toBe("ahead");
+    expect(syncStatus(local("a", "h1", synced(2, "h1")), remote("a", 3))).toBe("behind");
+    expect(syncStatus(local("a", "h2", synced(2, "h1")), remote("a", 3))).toBe("conflict");
+  });
+
+  it("never treats copies that were never exchanged as the same", () => {
+    expect(syncStatus(local("a", "h1", undefined), remote("a", 1))).toBe("conflict");
+    expect(syncStatus(local("a", "h1", undefined), null)).toBe("local");
+    expect(syncStatus(null, remote("a", 1))).toBe("remote");
+  });
+});
+
+describe("compareStudies", () => {
+  it("pairs local and remote copies by id, keeps one-sided studies, newest change first", () => {
+    const rows = compareStudies(
+      [local("both", "h", synced(1, "h"), 10), local("here", "h", undefined, 30)],
+      [remote("both", 2, 40), remote("there", 1, 20)],
+    );
+    expect(rows.map((r) => [r.id, r.status])).toEqual([
+      ["both", "behind"],
+      ["here", "local"],
+      ["there", "remote"],
+    ]);
+    expect(rows[0].local?.id).toBe("both");
+    expect(rows[0].remote?.rev).toBe(2);
+    expect(rows[2].local).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+// src/Sync.ts
+// Optional sharing of studies through the team's sync server (api/studies). Nothing happens on its
+// own: the observer pushes and pulls from the Sync dialog, and the library keeps working without it.
+//
+//  - Every server copy has a revision. A push names the revision the local copy was based on and the
+//    server refuses it (409) when someone pushed in between, so nobody's work is overwritten silently.
+//  - Local edits since the last exchange are noticed by content hash (StudyMeta.hash vs sync.hash),
+//    remote ones by the server revision being past sync.rev. Both at once is a conflict: the observer
+//    chooses which copy wins.
+
+import type { AppInfo, AppState } from "./Model";
+import { migrateState } from "./Schema";
+import { lastObserver, loadStudy, saveStudy, setStudySync, studyHash, type StudyKPIs, type StudyMeta } from "./Storage";
+import { isNetworkFailure } from "./Offline";
+
+const API = "/api/studies";
+
+/** A study header on the server (GET /api/studies). */
+export interface RemoteStudy {
+  id: string;
+  rev: number;
+  createdAt: number;
+  updatedAt: number;
+  archived: boolean;
+  info: AppInfo;
+  kpis: StudyKPIs;
+}
+
+export type SyncStatus =
+  | "local"     // only on this device
+  | "remote"    // only on the server
+  | "synced"
+  | "ahead"     // edited here since the last push/pull
+  | "behind"    // pushed from elsewhere since the last push/pull
+  | "conflict"; // both, or the two copies were never exchanged
+
+export const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  local: "Not on server",
+  remote: "Server only",
+  synced: "Up to date",
+  ahead: "Changed here",
+  behind: "Newer on server",
+  conflict: "Conflict",
+};
+
+export interface SyncRow {
+  id: string;
+  info: AppInfo;
+  local: StudyMeta | null;
+  remote: RemoteStudy | null;
+  status: SyncStatus;
+}
+
+/** The server isn't there (no API deployed, dev server, offline). */
+export class SyncUnavailableError extends Error {
+  constructor(message = "The sync server can't be reached.") {
+    super(message);
+    this.name = "SyncUnavailableError";
+  }
+}
+
+export type PushResult = { ok: true; remote: RemoteStudy } | { ok: false; current: RemoteStudy | null };
+
+async function call(path: string, init?: RequestInit): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(`${API}${path}`, init);
+  } catch (err) {
+    if (isNetworkFailure(err)) throw new SyncUnavailableError();
+    throw err;
+  }
+  // Without the API, static hosting and the dev server answer 404 or fall back to index.html.
+  if (res.status === 404 && !path) throw new SyncUnavailableError("No sync server is set up for this app.");
+  if (res.ok && !(res.headers.get("Content-Type") || "").includes("json") && res.status !== 204) {
+    throw new SyncUnavailableError("No sync server is set up for this app.");
+  }
+  return res;
+}
+
+async function failure(res: Response) {
+  if (res.status === 401) return new Error("Sign in to use the sync server.");
+  const body = await res.json().catch(() => null);
+  if (res.status === 403 && !body?.error) return new Error("Your account has no role that allows this.");
+  return new Error((body && body.error) || `Sync server error (${res.status})`);
+}
+
+export async function fetchRemote(): Promise<RemoteStudy[]> {
+  const res = await call("");
+  if (!res.ok) throw await failure(res);
+  const list = await res.json();
+  return Array.isArray(list) ? list : [];
+}
+
+export function syncStatus(local: StudyMeta | null, remote: RemoteStudy | null): SyncStatus {
+  if (!remote) return "local";
+  if (!local) return "remote";
+  if (!local.sync) return "conflict";
+  const changedHere = (local.hash ?? "") !== local.sync.hash;
+  const changedThere = remote.rev !== local.sync.rev;
+  if (changedHere && changedThere) return "conflict";
+  if (changedHere) return "ahead";
+  return changedThere ? "behind" : "synced";
+}
+
+/** One row per study on either side, most recently changed first. */
+export function compareStudies(local: StudyMeta[], remote: RemoteStudy[]): SyncRow[] {
+  const byId = new Map(remote.map((r) => [r.id, r]));
+  const rows: SyncRow[] = local.map((m) => {
+    const r = byId.get(m.id) ?? null;
+    byId.delete(m.id);
+    return { id: m.id, info: m.info, local: m, remote: r, status: syncStatus(m, r) };
+  });
+  for (const r of byId.values()) rows.push({ id: r.id, info: r.info, local: null, remote: r, status: "remote" });
+  const changed = (row: SyncRow) => Math.max(row.local?.updatedAt ?? 0, row.remote?.updatedAt ?? 0);
+  return rows.sort((a, b) => changed(b) - changed(a));
+}
+
+/**
+ * Upload the saved copy of `row.local`. `force` overwrites whatever the server has (the observer chose
+ * this copy in a conflict); otherwise the push is refused when the server moved past our revision.
+ */
+export async function pushStudy(row: SyncRow, force = false): Promise<PushResult> {
+  const meta = row.local;
+  if (!meta) throw new Error("This study isn't on this device.");
+  const state = await loadStudy(meta.id);
+  if (!state) throw new Error("This study could not be read.");
+  const baseRev = force ? (row.remote?.rev ?? 0) : row.remote ? (meta.sync?.rev ?? 0) : 0;
+  const res = await call(`/${encodeURIComponent(meta.id)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ baseRev, createdAt: meta.createdAt, archived: meta.archived, kpis: meta.kpis, state }),
+  });
+  if (res.status === 409) {
+    const body = await res.json().catch(() => null);
+    return { ok: false, current: body?.current ?? null };
+  }
+  if (!res.ok) throw await failure(res);
+  const remote: RemoteStudy = await res.json();
+  // What was actually sent: the row (and its meta.hash) may predate a save made while the dialog was open.
+  await setStudySync(meta.id, remote.rev, studyHash(state));
+  return { ok: true, remote };
+}
+
+/** Download the server copy of a study and save it on this device, replacing any local copy. */
+export async function pullStudy(id: string): Promise<AppState> {
+  const res = await call(`/${encodeURIComponent(id)}`);
+  if (!res.ok) throw await failure(res);
+  const record = await res.json();
+  const state = migrateState(record.state, lastObserver());
+  await saveStudy(id, state, record.kpis, { rev: record.rev, createdAt: record.createdAt, archived: !!record.archived });
+  return state;
+}
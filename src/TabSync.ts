@@ -0,0 +1,116 @@
+// src/TabSync.ts
+// Coordination between tabs showing the same study, so two tabs never save over each other.
+//
+//  - Ownership: the tab that opens a study first holds a Web Lock named after it and is the only
+//    one that saves. Other tabs opening the same study are viewers: read-only, reloading the study
+//    whenever the owner saves. A viewer queues for the lock, so it takes over by itself when the owner
+//    tab closes, and "Take over" steals the lock (the old owner becomes a viewer).
+//  - Saves are announced on a BroadcastChannel, or through a localStorage key's storage event in
+//    browsers without one.
+//  - Without Web Locks every tab is an owner, as before, but saves are still announced.
+
+export type TabRole = "pending" | "owner" | "viewer";
+
+export interface StudyLock {
+  release: () => void;  // the study is closed in this tab
+  takeOver: () => void; // become the owner, making the current owner a viewer
+}
+
+const LOCK_PREFIX = "work-measurement:study:";
+const CHANNEL = "work-measurement";
+const SAVED_KEY = "work-measurement:saved"; // storage-event fallback
+
+interface SavedMessage {
+  type: "saved";
+  studyId: string;
+  tab: string;
+}
+
+const TAB_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL) : null;
+
+/** Hold `studyId` for this tab while it is open; `onRole` hears every change of role. */
+export function lockStudy(studyId: string, onRole: (role: Exclude<TabRole, "pending">) => void): StudyLock {
+  const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+  if (!locks) {
+    onRole("owner");
+    return { release: () => {}, takeOver: () => {} };
+  }
+  const name = LOCK_PREFIX + studyId;
+  let closed = false;
+  let letGo: (() => void) | null = null;
+  let waiting: AbortController | null = null;
+
+  const request = (options: LockOptions) => {
+    locks
+      .request(name, options, async (lock) => {
+        if (closed) return;
+        if (!lock) {
+          onRole("viewer");
+          wait();
+          return;
+        }
+        onRole("owner");
+        await new Promise<void>((resolve) => (letGo = resolve));
+      })
+      .catch(() => {
+        // Our own cancelled wait, or the lock was stolen by a tab that took over.
+        if (closed || options.signal?.aborted) return;
+        onRole("viewer");
+        wait();
+      });
+  };
+  const wait = () => {
+    waiting = new AbortController();
+    request({ signal: waiting.signal });
+  };
+
+  request({ ifAvailable: true });
+  return {
+    release: () => {
+      closed = true;
+      waiting?.abort();
+      letGo?.();
+    },
+    takeOver: () => {
+      waiting?.abort();
+      waiting = null;
+      request({ steal: true });
+    },
+  };
+}
+
+/** Tell other tabs that `studyId` was just saved. */
+export function announceSave(studyId: string) {
+  const msg: SavedMessage = { type: "saved", studyId, tab: TAB_ID };
+  if (channel) channel.postMessage(msg);
+  else {
+    try {
+      localStorage.setItem(SAVED_KEY, JSON.stringify({ ...msg, at: Date.now() }));
+    } catch {
+      // storage full or blocked; the other tab catches up when it takes over
+    }
+  }
+}
+
+/** Calls `cb` when another tab saves a study; returns the unsubscribe function. */
+export function onStudySaved(cb: (studyId: string) => void) {
+  const handle = (msg: Partial<SavedMessage> | null) => {
+    if (msg?.type === "saved" && msg.tab !== TAB_ID && typeof msg.studyId === "string") cb(msg.studyId);
+  };
+  if (channel) {
+    const listener = (e: MessageEvent) => handle(e.data);
+    channel.addEventListener("message", listener);
+    return () => channel.removeEventListener("message", listener);
+  }
+  const listener = (e: StorageEvent) => {
+    if (e.key !== SAVED_KEY || !e.newValue) return;
+    try {
+      handle(JSON.parse(e.newValue));
+    } catch {
+      // not ours
+    }
+  };
+  window.addEventListener("storage", listener);
+  return () => window.removeEventListener("storage", listener);
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { TimeEvent, TimeLogEntry } from "./Model";
+import { replayEmployee, timeLogIssues } from "./TimeEngine";
+
+const M = 60_000;
+let nextId = 1;
+const entry = (employeeId: number, event: TimeEvent, at: number): TimeLogEntry => ({
+  id: nextId++,
+  at,
+  employeeId,
+  employeeName: `E${employeeId}`,
+  event,
+});
+
+describe("replayEmployee", () => {
+  it("adds up Active and Paused spans and runs an open span to now", () => {
+    const t = replayEmployee([entry(1, "start", 0), entry(1, "pause", 10 * M), entry(1, "start", 15 * M)], 20 * M);
+    expect(t).toEqual({ status: "active", active: 15 * M, idle: 5 * M, total: 20 * M, since: 15 * M });
+  });
+
+  it("ignores events that don't apply (a second Pause)", () => {
+    const t = replayEmployee([entry(1, "start", 0), entry(1, "pause", M), entry(1, "pause", 2 * M), entry(1, "stop", 3 * M)], 9 * M);
+    expect(t).toMatchObject({ status: "idle", active: M, idle: 2 * M });
+  });
+});
+
+describe("timeLogIssues", () => {
+  it("accepts a valid start / pause / resume / stop sequence", () => {
+    const log = [entry(1, "start", 0), entry(1, "pause", M), entry(1, "start", 2 * M), entry(1, "lap", 3 * M), entry(1, "stop", 4 * M)];
+    expect(timeLogIssues(log)).toEqual([]);
+  });
+
+  it("rejects a resume without a preceding pause", () => {
+    const resume = entry(1, "start", 2 * M);
+    const issues = timeLogIssues([entry(1, "start", 0), resume, entry(1, "stop", 3 * M)]);
+    expect(issues).toEqual([{ entry: resume, message: "start while already running (overlapping sessions)" }]);
+  });
+
+  it("rejects pause, stop and lap with nothing running", () => {
+    const issues = timeLogIssues([entry(1, "pause", 0), entry(1, "lap", M), entry(1, "stop", 2 * M)]);
+    expect(issues.map((i) => i.message)).toEqual(["pause with no running timer", "lap while not running", "stop with no running timer"]);
+  });
+
+  it("rejects events after the employee was removed", () => {
+    const issues = timeLogIssues([entry(1, "start", 0), entry(1, "deleted", M), entry(1, "start", 2 * M)]);
+    expect(issues.map((i) => i.message)).toEqual(["start after the employee was removed"]);
+  });
+
+  it("checks events in time order, not log order", () => {
+    expect(timeLogIssues([entry(1, "stop", 2 * M), entry(1, "start", 0)])).toEqual([]);
+  });
+
+  it("only checks the employees asked for", () => {
+    const log = [entry(1, "pause", 0), entry(2, "start", 0), entry(2, "stop", M)];
+    expect(timeLogIssues(log, [2])).toEqual([]);
+    expect(timeLogIssues(log)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,190 @@
+// src/TimeEngine.ts
+// Event-sourced timers: each employee's status and active/idle totals are replayed from the
+// time log, so editing or deleting a log row is reflected everywhere without extra bookkeeping.
+
+import type { EmpStatus, TimeLogEntry } from "./Model";
+
+export interface EmployeeTimes {
+  status: EmpStatus;
+  active: number;  // ms spent Active (touch)
+  idle: number;    // ms spent Paused
+  total: number;
+  since: number | null; // when the current Active/Paused span began
+}
+
+export const NO_TIMES: EmployeeTimes = { status: "idle", active: 0, idle: 0, total: 0, since: null };
+
+// Chronological order; ties keep insertion order via the entry id.
+export function byTime(a: TimeLogEntry, b: TimeLogEntry) {
+  return a.at - b.at || a.id - b.id;
+}
+
+/** Start / Pause / Stop: the events that make up a timing session (not removal or element switches). */
+export function isTimerEvent(event: TimeLogEntry["event"]) {
+  return event === "start" || event === "pause" || event === "stop";
+}
+
+/**
+ * Status after `event`, or null when the event doesn't apply. Start resumes from idle or paused,
+ * Pause only applies while active, Stop/Deleted end any open span; element switches and laps never do.
+ */
+export function nextStatus(status: EmpStatus, event: TimeLogEntry["event"]): EmpStatus | null {
+  if (event === "start") return status !== "active" ? "active" : null;
+  if (event === "pause") return status === "active" ? "paused" : null;
+  if (event === "stop" || event === "deleted") return status !== "idle" ? "idle" : null;
+  return null;
+}
+
+/** Replay one employee's events; an open Active/Paused span runs to `now`. */
+export function replayEmployee(events: TimeLogEntry[], now: number): EmployeeTimes {
+  let status: EmpStatus = "idle";
+  let since: number | null = null;
+  let active = 0;
+  let idle = 0;
+  const close = (at: number) => {
+    if (since == null) return;
+    if (status === "active") active += Math.max(0, at - since);
+    if (status === "paused") idle += Math.max(0, at - since);
+  };
+  for (const ev of [...events].sort(byTime)) {
+    const next = nextStatus(status, ev.event);
+    if (!next) continue;
+    close(ev.at);
+    status = next;
+    since = next === "idle" ? null : ev.at;
+  }
+  close(now);
+  return { status, active, idle, total: active + idle, since };
+}
+
+export function groupByEmployee(timeLog: TimeLogEntry[]) {
+  const out = new Map<number, TimeLogEntry[]>();
+  for (const t of timeLog) {
+    if (typeof t.employeeId !== "number") continue;
+    const list = out.get(t.employeeId);
+    if (list) list.push(t);
+    else out.set(t.employeeId, [t]);
+  }
+  return out;
+}
+
+/** Status and totals for every employee that appears in the log, as of `now`. */
+export function deriveTimes(timeLog: TimeLogEntry[], now: number): Map<number, EmployeeTimes> {
+  const out = new Map<number, EmployeeTimes>();
+  groupByEmployee(timeLog).forEach((events, id) => out.set(id, replayEmployee(events, now)));
+  return out;
+}
+
+/** The work element each employee is currently on (the latest "element" event), if any. */
+export function currentElements(timeLog: TimeLogEntry[]): Map<number, number> {
+  const out = new Map<number, number>();
+  for (const t of [...timeLog].sort(byTime)) {
+    if (t.event !== "element" || typeof t.employeeId !== "number") continue;
+    if (t.elementId == null) out.delete(t.employeeId);
+    else out.set(t.employeeId, t.elementId);
+  }
+  return out;
+}
+
+export interface Cycle {
+  employeeId: number;
+  employeeName: string;
+  lapId: number;       // the Lap entry that closed the cycle
+  index: number;       // 1-based per employee
+  from: number;
+  to: number;
+  ms: number;          // Active time inside the cycle (pauses excluded)
+  elementId?: number;  // element the employee was on when the lap was taken
+}
+
+/**
+ * Repetitive-cycle times: a cycle opens when an employee starts from idle, and every Lap closes the
+ * current cycle and opens the next. Time after the last Lap (up to Stop) is an unfinished cycle and
+ * isn't counted.
+ */
+export function replayCycles(events: TimeLogEntry[]): Cycle[] {
+  const out: Cycle[] = [];
+  let status: EmpStatus = "idle";
+  let since: number | null = null; // start of the current Active span
+  let open: number | null = null;  // start of the current cycle
+  let activeMs = 0;
+  let elementId: number | undefined;
+  for (const ev of [...events].sort(byTime)) {
+    if (ev.event === "element") {
+      elementId = ev.elementId;
+      continue;
+    }
+    if (ev.event === "lap") {
+      if (status !== "active" || open == null || since == null) continue;
+      activeMs += ev.at - since;
+      out.push({
+        employeeId: ev.employeeId as number,
+        employeeName: ev.employeeName,
+        lapId: ev.id,
+        index: out.length + 1,
+        from: open,
+        to: ev.at,
+        ms: activeMs,
+        elementId,
+      });
+      open = ev.at;
+      since = ev.at;
+      activeMs = 0;
+      continue;
+    }
+    const next = nextStatus(status, ev.event);
+    if (!next) continue;
+    if (status === "active" && since != null) activeMs += ev.at - since;
+    if (status === "idle" && next === "active") {
+      open = ev.at;
+      activeMs = 0;
+    }
+    if (next === "idle") open = null;
+    since = next === "active" ? ev.at : null;
+    status = next;
+  }
+  return out;
+}
+
+export interface SequenceIssue {
+  entry: TimeLogEntry;
+  message: string;
+}
+
+/**
+ * Check one employee's events for an impossible sequence: Pause/Stop/Lap with nothing running,
+ * a second Start while already running (overlapping sessions), or events after removal.
+ */
+export function sequenceIssues(events: TimeLogEntry[]): SequenceIssue[] {
+  const issues: SequenceIssue[] = [];
+  let status: EmpStatus = "idle";
+  let removed = false;
+  for (const entry of [...events].sort(byTime)) {
+    if (removed) {
+      issues.push({ entry, message: `${entry.event} after the employee was removed` });
+      continue;
+    }
+    if (entry.event === "start") {
+      if (status === "active") issues.push({ entry, message: "start while already running (overlapping sessions)" });
+      status = "active";
+    } else if (entry.event === "pause") {
+      if (status !== "active") issues.push({ entry, message: status === "paused" ? "pause while already paused" : "pause with no running timer" });
+      else status = "paused";
+    } else if (entry.event === "stop") {
+      if (status === "idle") issues.push({ entry, message: "stop with no running timer" });
+      status = "idle";
+    } else if (entry.event === "lap") {
+      if (status !== "active") issues.push({ entry, message: "lap while not running" });
+    } else if (entry.event === "deleted") {
+      removed = true;
+    }
+  }
+  return issues;
+}
+
+/** Sequence problems for the given employees (all employees in the log when omitted). */
+export function timeLogIssues(timeLog: TimeLogEntry[], employeeIds?: number[]): SequenceIssue[] {
+  const groups = groupByEmployee(timeLog);
+  const ids = employeeIds ?? [...groups.keys()];
+  return ids.flatMap((id) => sequenceIssues(groups.get(id) ?? []));
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { nextDayBoundary, parseDayStart, studyDayOf, zonedParts, zonedToEpoch } from "./TimeZone";
+
+const NY = "America/New_York"; // springs forward 2025-03-09 02:00, falls back 2025-11-02 02:00
+const H = 3_600_000;
+const at = (year: number, month: number, day: number, hour: number, minute = 0) => ({ year, month, day, hour, minute, second: 0 });
+
+describe("zonedToEpoch", () => {
+  it("reads wall-clock times with the offset in force on that day", () => {
+    expect(zonedToEpoch(at(2025, 3, 8, 12), NY)).toBe(Date.UTC(2025, 2, 8, 17)); // EST
+    expect(zonedToEpoch(at(2025, 3, 9, 12), NY)).toBe(Date.UTC(2025, 2, 9, 16)); // EDT
+    expect(zonedToEpoch(at(2025, 3, 9, 3), NY)).toBe(Date.UTC(2025, 2, 9, 7)); // first minute after the gap
+  });
+
+  it("moves a time inside the spring-forward gap to just after it", () => {
+    const t = zonedToEpoch(at(2025, 3, 9, 2, 30), NY);
+    expect(t).toBe(Date.UTC(2025, 2, 9, 7, 30));
+    expect(zonedParts(t, NY)).toMatchObject({ day: 9, hour: 3, minute: 30 });
+  });
+
+  it("round-trips with zonedParts", () => {
+    const t = Date.UTC(2025, 10, 2, 7, 15); // 02:15 EST, after falling back
+    expect(zonedToEpoch(zonedParts(t, NY), NY)).toBe(t);
+  });
+});
+
+describe("study days", () => {
+  it("assigns the hours before the day start to the previous day", () => {
+    const twoAm = Date.UTC(2025, 2, 4, 2);
+    expect(studyDayOf(twoAm, "UTC", parseDayStart("06:00"))).toBe("2025-03-03");
+    expect(studyDayOf(twoAm, "UTC", 0)).toBe("2025-03-04");
+  });
+
+  it("makes the DST days 23 and 25 hours long", () => {
+    const spring = nextDayBoundary(Date.UTC(2025, 2, 8, 12), NY);
+    expect(nextDayBoundary(spring, NY) - spring).toBe(23 * H);
+    const fall = nextDayBoundary(Date.UTC(2025, 10, 1, 12), NY);
+    expect(nextDayBoundary(fall, NY) - fall).toBe(25 * H);
+  });
+
+  it("puts a day start that falls in the gap just after it", () => {
+    const boundary = nextDayBoundary(Date.UTC(2025, 2, 9, 4), NY, parseDayStart("02:30")); // 23:00 EST on the 8th
+    expect(boundary).toBe(Date.UTC(2025, 2, 9, 7, 30));
+    expect(studyDayOf(boundary, NY, parseDayStart("02:30"))).toBe("2025-03-09");
+  });
+});
+
+describe("parseDayStart", () => {
+  it("reads HH:MM and treats anything else as midnight", () => {
+    expect(parseDayStart("06:30")).toBe(390);
+    expect(parseDayStart("24:00")).toBe(0);
+    expect(parseDayStart("6")).toBe(0);
+    expect(parseDayStart(undefined)).toBe(0);
+  });
+});
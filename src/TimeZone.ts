@@ -0,0 +1,134 @@
+// src/TimeZone.ts
+// Wall-clock math in a study's own IANA time zone (not the device's), plus shift-based day
+// boundaries: with a day start of 06:00, 02:00 on the 3rd still belongs to the study day of the 2nd.
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export function deviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+export function isValidTimeZone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Zones offered in the study header; falls back to a short list on older browsers. */
+export function timeZoneOptions(): string[] {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") ?? ["UTC", "America/New_York", "America/Chicago", "America/Denver", "America/Los_Angeles", "Europe/London", "Europe/Berlin", "Asia/Singapore", "Australia/Sydney"];
+  const device = deviceTimeZone();
+  return zones.includes(device) ? zones : [device, ...zones];
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+function partsFormatter(tz: string) {
+  let f = formatters.get(tz);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(tz, f);
+  }
+  return f;
+}
+
+export function zonedParts(at: number, tz: string): ZonedParts {
+  const out: Record<string, number> = {};
+  for (const p of partsFormatter(tz).formatToParts(new Date(at))) {
+    if (p.type !== "literal") out[p.type] = Number(p.value);
+  }
+  return { year: out.year, month: out.month, day: out.day, hour: out.hour % 24, minute: out.minute, second: out.second };
+}
+
+/** Epoch ms for a wall-clock time in `tz`. Nonexistent DST times land just after the gap. */
+export function zonedToEpoch(p: ZonedParts, tz: string): number {
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const offsetAt = (at: number) => {
+    const z = zonedParts(at, tz);
+    return Date.UTC(z.year, z.month - 1, z.day, z.hour, z.minute, z.second) - at;
+  };
+  // The second guess is right whenever the wall time exists, including across a DST change. When it
+  // doesn't (inside a spring-forward gap) neither guess reads back as `wall`; the later one is `wall`
+  // read with the offset from before the change, i.e. moved forward by the gap.
+  const first = wall - offsetAt(wall);
+  const second = wall - offsetAt(first);
+  if (second === first || wall - offsetAt(second) === second) return second;
+  return Math.max(first, second);
+}
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+export function isoDateOf(p: Pick<ZonedParts, "year" | "month" | "day">) {
+  return `${p.year}-${pad2(p.month)}-${pad2(p.day)}`;
+}
+
+/** Today's date (yyyy-mm-dd) in `tz`, defaulting to the device zone. */
+export function todayIn(tz?: string) {
+  return isoDateOf(zonedParts(Date.now(), tz || deviceTimeZone()));
+}
+
+/** "HH:MM" → minutes after midnight; anything unparseable is midnight. */
+export function parseDayStart(v: string | undefined): number {
+  const m = (v || "").match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return 0;
+  const h = Number(m[1]);
+  const mi = Number(m[2]);
+  return h < 24 && mi < 60 ? h * 60 + mi : 0;
+}
+
+// Calendar date `days` after yyyy-mm-dd (pure date math, no zone involved).
+function addDays(p: Pick<ZonedParts, "year" | "month" | "day">, days: number) {
+  const d = new Date(Date.UTC(p.year, p.month - 1, p.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/** The study day (yyyy-mm-dd) an instant belongs to, given the day start in minutes after midnight. */
+export function studyDayOf(at: number, tz: string, dayStartMin = 0) {
+  const p = zonedParts(at, tz);
+  const before = p.hour * 60 + p.minute < dayStartMin;
+  return isoDateOf(before ? addDays(p, -1) : p);
+}
+
+/** First study-day boundary strictly after `at`. */
+export function nextDayBoundary(at: number, tz: string, dayStartMin = 0): number {
+  const [y, m, d] = studyDayOf(at, tz, dayStartMin).split("-").map(Number);
+  const next = addDays({ year: y, month: m, day: d }, 1);
+  const boundary = zonedToEpoch(
+    { ...next, hour: Math.floor(dayStartMin / 60), minute: dayStartMin % 60, second: 0 },
+    tz,
+  );
+  // Guard against a boundary that falls in a DST gap resolving to or before `at`.
+  return boundary > at ? boundary : at + 3600 * 1000;
+}
+
+/** Locale date/time text for an instant, shown in `tz`. */
+export function formatInZone(at: number, tz: string | undefined, withDate: boolean) {
+  const opts: Intl.DateTimeFormatOptions = tz && isValidTimeZone(tz) ? { timeZone: tz } : {};
+  const d = new Date(at);
+  return withDate
+    ? `${d.toLocaleDateString(undefined, opts)} ${d.toLocaleTimeString(undefined, opts)}`
+    : d.toLocaleTimeString(undefined, opts);
+}
@@ -1,10 +1,23 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { openInitialStudy } from './Storage'
+import { loadPrincipal } from './Auth'
+import { registerServiceWorker } from './Offline'
+import { restoreClock } from './Clock'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
+registerServiceWorker()
+
+// Who is signed in first, so a new study starts with their name as the observer.
+loadPrincipal()
+  .then(openInitialStudy)
+  .then((initial) => {
+    // Studies opened later go through App's applyState, which does the same.
+    restoreClock(initial.state.timeLog)
+    ReactDOM.createRoot(document.getElementById('root')!).render(
+      <React.StrictMode>
+        <App initial={initial} />
+      </React.StrictMode>,
+    )
+  })
@@ -0,0 +1,71 @@
+// src/sw.js
+// Service worker: keeps the app shell on the device so the app opens and runs with no connection.
+// Built as its own entry (vite.config.ts) and served from the site root as /sw.js. Study data already
+// lives in IndexedDB; this only has to serve the HTML, scripts, styles and icons.
+//
+//  - The build prepends `self.__BUILD__ = { version, files }` (see vite.config.ts) with every emitted
+//    file, so a new deploy changes this script and installs as a new version with a fresh cache.
+//  - Page loads go to the network first and fall back to the cached index.html when the network fails
+//    or takes longer than NAV_TIMEOUT_MS (hangar Wi-Fi). Everything else is served from the cache
+//    first. /api/ calls and sign-in (/.auth/, /login, /logout) always go to the network.
+//  - A new version waits until every tab of the old one is closed, so a running page never loses
+//    the files it was built with.
+
+const BUILD = self.__BUILD__ || { version: "dev", files: [] };
+const CACHE = `work-measurement-${BUILD.version}`;
+const INDEX = new URL("index.html", self.registration.scope).href;
+const NAV_TIMEOUT_MS = 4000;
+const NETWORK_ONLY = /^\/(api\/|\.auth\/|login$|logout$)/;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE).then((cache) => cache.addAll(["./", ...BUILD.files].map((f) => new URL(f, self.registration.scope).href))),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("work-measurement-") && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || NETWORK_ONLY.test(url.pathname)) return;
+
+  if (request.mode === "navigate") {
+    const network = fetch(request).then((res) => {
+      if (res.ok) {
+        const copy = res.clone();
+        caches.open(CACHE).then((cache) => cache.put(INDEX, copy));
+      }
+      return res;
+    });
+    network.catch(() => {}); // a late failure after the cached page was served
+    const cached = () => caches.match(INDEX, { ignoreSearch: true });
+    event.respondWith(
+      Promise.race([network, new Promise((resolve) => setTimeout(resolve, NAV_TIMEOUT_MS))])
+        .then((res) => res || cached().then((hit) => hit || network))
+        .catch(() => cached().then((hit) => hit || Response.error())),
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { ignoreSearch: true }).then(
+      (hit) =>
+        hit ||
+        fetch(request).then((res) => {
+          if (res.ok && res.type === "basic") {
+            const copy = res.clone();
+            caches.open(CACHE).then((cache) => cache.put(request, copy));
+          }
+          return res;
+        }),
+    ),
+  );
+});
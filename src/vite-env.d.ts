@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Development only: mock Static Web Apps principal as JSON, or "none" (see src/Auth.ts). */
+  readonly VITE_MOCK_PRINCIPAL?: string;
+}
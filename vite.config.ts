@@ -1,8 +1,37 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Public files the app shell needs offline (the build's own output is picked up automatically).
+const PUBLIC_SHELL = ['manifest.webmanifest', 'icon-192.png', 'icon-512.png', 'WorkMeasurmentIcon.png']
+
+// Hands the service worker (src/sw.js) the list of files to precache. The version is a hash of the
+// hashed file names, so each deploy that changes the app installs a fresh cache.
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    generateBundle: {
+      order: 'post', // after index.html is emitted
+      handler(_, bundle) {
+        const sw = bundle['sw.js']
+        if (!sw || sw.type !== 'chunk') return
+        const files = [...Object.keys(bundle).filter((f) => f !== 'sw.js' && !f.endsWith('.map')), ...PUBLIC_SHELL].sort()
+        let hash = 0x811c9dc5 // FNV-1a
+        for (const ch of files.join('\n')) hash = Math.imul(hash ^ ch.charCodeAt(0), 0x01000193) >>> 0
+        sw.code = `self.__BUILD__ = ${JSON.stringify({ version: hash.toString(16), files })};\n` + sw.code
+      },
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   base: './',          // <= important: use relative asset paths
-  build: { outDir: 'dist' }
-})
\ No newline at end of file
+  build: {
+    outDir: 'dist',
+    rollupOptions: {
+      input: { index: 'index.html', sw: 'src/sw.js' },
+      output: { entryFileNames: (chunk) => (chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js') },
+    },
+  },
+})